@@ -26,6 +26,7 @@ const App: React.FC = () => {
   const handleLogout = useCallback(() => {
     localStorage.removeItem('emerald-isLoggedIn');
     clearSupabaseCredentials();
+    apiService.clearDataSourceKind();
     setIsLoggedIn(false);
     setUserTables([]);
     setNeedsSetup(false);
@@ -54,7 +55,9 @@ const App: React.FC = () => {
             console.warn("Helper functions appear to be missing. Starting function setup flow.");
             setNeedsFunctionsSetup(true);
         } else {
-            alert("Could not connect to your Supabase project. Please check the credentials and network connection.");
+            alert(apiService.getDataSourceKind() === 'local'
+                ? "Could not open the local workspace. Your browser may be blocking site storage."
+                : "Could not connect to your Supabase project. Please check the credentials and network connection.");
             handleLogout();
         }
     } finally {
@@ -69,7 +72,11 @@ const App: React.FC = () => {
         const savedUrl = localStorage.getItem('emerald-supabaseUrl');
         const savedKey = localStorage.getItem('emerald-supabaseAnonKey');
         
-        if (savedIsLoggedIn === 'true' && savedUrl && savedKey) {
+        if (savedIsLoggedIn === 'true' && apiService.getDataSourceKind() === 'local') {
+          // The local workspace needs no credentials.
+          setIsLoggedIn(true);
+          await loadUserTables();
+        } else if (savedIsLoggedIn === 'true' && savedUrl && savedKey) {
           setSupabaseCredentials(savedUrl, savedKey);
           setIsLoggedIn(true);
           await loadUserTables();
@@ -86,6 +93,14 @@ const App: React.FC = () => {
 
   const handleLogin = (supabaseUrl: string, supabaseAnonKey: string) => {
     setSupabaseCredentials(supabaseUrl, supabaseAnonKey);
+    apiService.setDataSourceKind('supabase');
+    localStorage.setItem('emerald-isLoggedIn', 'true');
+    setIsLoggedIn(true);
+    loadUserTables();
+  };
+
+  const handleUseLocalWorkspace = () => {
+    apiService.setDataSourceKind('local');
     localStorage.setItem('emerald-isLoggedIn', 'true');
     setIsLoggedIn(true);
     loadUserTables();
@@ -110,11 +125,19 @@ const App: React.FC = () => {
     setIsLoading(true);
     try {
       await apiService.runRawSql(setupInfo.sql);
+      try {
+        // Keep the AI's select options and friendly names, which Postgres itself can't store.
+        await apiService.saveColumnMetadata(setupInfo.tableName, setupInfo.schema);
+      } catch (err) {
+        console.error("Failed to save column metadata:", err);
+      }
       // Success, reload tables which will move user to the workspace
       await loadUserTables();
     } catch (err) {
       console.error("Failed to execute setup SQL:", err);
-      alert("Failed to create the table in your database. Please check the Supabase logs and try again.");
+      alert(apiService.getDataSourceKind() === 'local'
+        ? `Failed to create the table in your local workspace: ${(err as Error).message}`
+        : "Failed to create the table in your database. Please check the Supabase logs and try again.");
       setIsLoading(false);
     }
   }, [setupInfo, loadUserTables]);
@@ -122,7 +145,7 @@ const App: React.FC = () => {
 
   const renderContent = () => {
     if (!isLoggedIn) {
-      return <LoginScreen onLogin={handleLogin} />;
+      return <LoginScreen onLogin={handleLogin} onUseLocalWorkspace={handleUseLocalWorkspace} />;
     }
 
     if (needsFunctionsSetup) {
@@ -134,6 +157,7 @@ const App: React.FC = () => {
         <SchemaSetupScreen
             tableName={setupInfo.tableName}
             sqlSchema={setupInfo.sql}
+            isLocalWorkspace={apiService.getDataSourceKind() === 'local'}
             onConfirm={handleCompleteSetup}
             onCancel={() => { setSetupInfo(null); setNeedsSetup(true); }}
         />
@@ -1,6 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import type { Handler } from '@netlify/functions';
 import type { ChatMessage, DatabaseSchema, Record, ColumnDefinition } from '../types';
+import { HELPER_FUNCTIONS_SQL } from '../services/setupSql';
 
 const apiKey = process.env.API_KEY;
 if (!apiKey) {
@@ -26,11 +27,36 @@ const mapTypeToGemini = (type: ColumnDefinition['type']): Type => {
 const buildTools = (schema: DatabaseSchema) => {
     const recordProperties = schema.reduce((acc, col) => {
         // Exclude read-only fields from create/update tools
-        if (col.id !== 'id' && col.id !== 'created_at') {
-            acc[col.id] = { type: mapTypeToGemini(col.type), description: col.name };
+        if (!col.readOnly) {
+            const allowedValues = col.type === 'select' && col.options?.length ? ` One of: ${col.options.join(', ')}.` : '';
+            const linkedTable = col.type === 'relation' && col.relation ? ` The ${col.relation.columnId} of a record in the "${col.relation.table}" table.` : '';
+            acc[col.id] = { type: mapTypeToGemini(col.type), description: `${col.name}.${allowedValues}${linkedTable}` };
         }
         return acc;
     }, {} as { [key: string]: { type: Type, description: string } });
+    const requiredColumnIds = schema.filter(col => col.required && !col.readOnly).map(col => col.id);
+
+    // Records are addressed by their primary key, which isn't always a single `id` column.
+    const keyColumnIds = schema.filter(col => col.isPrimaryKey).map(col => col.id);
+    const recordKeyDescription = keyColumnIds.length > 1
+        ? `The record's composite primary key, as a JSON array of the values of ${keyColumnIds.join(', ')} in that order (e.g. '["a", 1]').`
+        : `The value of the record's primary key column "${keyColumnIds[0] || 'id'}".`;
+
+    // Mirrors the app's filter operators; relative date operators spare the model from knowing today's date.
+    const filterConditionProperties = {
+        columnId: { type: Type.STRING, description: "The ID of the column to filter on." },
+        operator: {
+            type: Type.STRING,
+            description: "The operator. For text: 'CONTAINS', 'EQUALS', 'NOT_EQUALS', 'STARTS_WITH', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'. "
+                + "For select and relation columns: 'EQUALS', 'NOT_EQUALS', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'. "
+                + "For numbers: 'EQUALS', 'NOT_EQUALS', 'GREATER_THAN', 'LESS_THAN', 'BETWEEN', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'. "
+                + "For booleans: 'EQUALS' (with 'true' or 'false'), 'IS_EMPTY', 'IS_NOT_EMPTY'. "
+                + "For dates: 'EQUALS' (on that day), 'LESS_THAN' (before), 'GREATER_THAN' (after), 'BETWEEN', 'TODAY', "
+                + "'IN_LAST_DAYS' and 'IN_NEXT_DAYS' (value is a number of days, including today), 'OVERDUE' (before today), 'IS_EMPTY', 'IS_NOT_EMPTY'."
+        },
+        value: { type: Type.STRING, description: "The value to compare against, or the number of days. Leave out for 'IS_EMPTY', 'IS_NOT_EMPTY', 'TODAY' and 'OVERDUE'. Dates as YYYY-MM-DD." },
+        values: { type: Type.ARRAY, items: { type: Type.STRING }, description: "For 'BETWEEN', the lower and upper bound; for 'IN', the accepted values." }
+    };
 
     return [{
         functionDeclarations: [
@@ -42,15 +68,18 @@ const buildTools = (schema: DatabaseSchema) => {
                     properties: {
                         filters: {
                             type: Type.ARRAY,
-                            description: "An array of filter conditions to apply.",
+                            description: "Filters a record must all match. Each item is either a condition or a group of conditions combined with AND or OR (e.g. a group with combinator 'OR' for \"high priority or overdue\").",
                             items: {
                                 type: Type.OBJECT,
                                 properties: {
-                                    columnId: { type: Type.STRING, description: "The ID of the column to filter on." },
-                                    operator: { type: Type.STRING, description: "The operator. Supported: 'EQUALS', 'CONTAINS', 'GREATER_THAN', 'LESS_THAN', 'NOT_EQUALS'." },
-                                    value: { type: Type.STRING, description: "The value to compare against." }
-                                },
-                                required: ["columnId", "operator", "value"]
+                                    ...filterConditionProperties,
+                                    combinator: { type: Type.STRING, description: "Only for groups: 'AND' or 'OR'." },
+                                    filters: {
+                                        type: Type.ARRAY,
+                                        description: "Only for groups: the conditions in the group.",
+                                        items: { type: Type.OBJECT, properties: filterConditionProperties, required: ["columnId", "operator"] }
+                                    }
+                                }
                             }
                         },
                         responseMessage: { type: Type.STRING, description: "A message to the user summarizing the search action. e.g., 'Sure, here are all tasks that are in progress.'" }
@@ -64,7 +93,7 @@ const buildTools = (schema: DatabaseSchema) => {
                 parameters: {
                     type: Type.OBJECT,
                     properties: {
-                        record: { type: Type.OBJECT, properties: recordProperties },
+                        record: { type: Type.OBJECT, properties: recordProperties, required: requiredColumnIds },
                         confirmationMessage: { type: Type.STRING, description: "A message confirming the action to the user." }
                     },
                     required: ["record", "confirmationMessage"]
@@ -72,11 +101,11 @@ const buildTools = (schema: DatabaseSchema) => {
             },
             {
                 name: "updateRecord",
-                description: "Updates an existing record in the table using its ID.",
+                description: "Updates an existing record in the table using its primary key.",
                 parameters: {
                     type: Type.OBJECT,
                     properties: {
-                        recordId: { type: Type.STRING, description: "The ID of the record to update." },
+                        recordId: { type: Type.STRING, description: `Identifies the record to update. ${recordKeyDescription}` },
                         record: { type: Type.OBJECT, description: "An object with the fields to update.", properties: recordProperties },
                         confirmationMessage: { type: Type.STRING, description: "A message confirming the action to the user." }
                     },
@@ -85,11 +114,11 @@ const buildTools = (schema: DatabaseSchema) => {
             },
             {
                 name: "deleteRecord",
-                description: "Deletes a record from the table using its ID.",
+                description: "Deletes a record from the table using its primary key.",
                 parameters: {
                     type: Type.OBJECT,
                     properties: {
-                        recordId: { type: Type.STRING, description: "The ID of the record to delete." },
+                        recordId: { type: Type.STRING, description: `Identifies the record to delete. ${recordKeyDescription}` },
                         confirmationMessage: { type: Type.STRING, description: "A message confirming the action to the user." }
                     },
                     required: ["recordId", "confirmationMessage"]
@@ -172,7 +201,7 @@ async function handleAiResponse({ tableName, schema, chatHistory }: { tableName:
         2.  **Confirmation/Response Messages**:
             *   For actions ('create', 'update', 'delete', 'generateChart'), you MUST create a clear, concise **confirmation** message for the user.
             *   For 'searchRecords', you MUST create a **response** message that summarizes the search being performed.
-        3.  **Clarification**: If the user's request is ambiguous (e.g., they ask to delete a record without specifying an ID), ask clarifying questions instead of calling a tool.
+        3.  **Clarification**: If the user's request is ambiguous (e.g., they ask to delete a record without specifying its key), ask clarifying questions instead of calling a tool.
         4.  **Schema Adherence**: The data you provide in tool calls MUST match the schema.
         
         The schema for the "${tableName}" table is:
@@ -252,35 +281,12 @@ async function handleGenerateDatabaseSchema({ occupation, dataType }: { occupati
             *   Creates the table with the defined columns and sets the primary key on the 'id'.
             *   Enables Row Level Security (RLS) on the table.
             *   Creates a permissive policy that allows anonymous users full access. Name it "Enable access for anon users".
-            *   Creates the three required helper functions for the application to interact with the database.
+            *   Adds the table to the realtime publication so the app receives live changes: \`ALTER PUBLICATION supabase_realtime ADD TABLE <table name>;\`.
+            *   Creates the required helper functions for the application to interact with the database.
 
         **Helper Functions SQL:**
         \`\`\`sql
-        -- Helper 1: Function to execute raw SQL (needed for table creation)
-        CREATE OR REPLACE FUNCTION public.execute_sql(sql_query text)
-        RETURNS void LANGUAGE plpgsql AS $$
-        BEGIN
-          EXECUTE sql_query;
-        END;
-        $$;
-        
-        -- Helper 2: Function to list all user-created tables
-        CREATE OR REPLACE FUNCTION public.list_all_tables()
-        RETURNS TABLE(schema text, name text)
-        LANGUAGE sql AS $$
-          SELECT table_schema, table_name
-          FROM information_schema.tables
-          WHERE table_schema NOT IN ('pg_catalog', 'information_schema') AND table_type = 'BASE TABLE';
-        $$;
-
-        -- Helper 3: Function to get the schema of a specific table
-        CREATE OR REPLACE FUNCTION public.get_table_schema(table_name_arg text)
-        RETURNS TABLE(column_name text, data_type text)
-        LANGUAGE sql AS $$
-          SELECT column_name, data_type
-          FROM information_schema.columns
-          WHERE table_name = table_name_arg;
-        $$;
+${HELPER_FUNCTIONS_SQL}
         \`\`\`
     `;
 
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { DatabaseSchema, FilterNode } from '../types';
+import { describeFilterNode } from '../services/filters';
+import CloseIcon from './icons/CloseIcon';
+
+interface ActiveFiltersProps {
+  schema: DatabaseSchema;
+  filters: FilterNode[];
+  onFiltersChange: (filters: FilterNode[]) => void;
+}
+
+const FilterPill: React.FC<{ filter: FilterNode, schema: DatabaseSchema, onRemove: () => void }> = ({ filter, schema, onRemove }) => (
+    <span className="flex items-center gap-1.5 bg-emerald-500/20 text-emerald-300 text-xs font-medium px-2 py-1 rounded-full">
+        {describeFilterNode(filter, schema)}
+        <button onClick={onRemove} className="text-emerald-300 hover:text-white" aria-label="Remove filter"><CloseIcon className="w-3 h-3" /></button>
+    </span>
+);
+
+// The applied filters as removable pills.
+const ActiveFilters: React.FC<ActiveFiltersProps> = ({ schema, filters, onFiltersChange }) => {
+    if (filters.length === 0) return null;
+    return (
+        <div className="flex items-center gap-2 flex-wrap mb-4">
+            {filters.map((filter, index) => (
+                <FilterPill key={index} filter={filter} schema={schema} onRemove={() => onFiltersChange(filters.filter((_, i) => i !== index))} />
+            ))}
+            <button onClick={() => onFiltersChange([])} className="text-xs text-slate-400 hover:text-white hover:underline">Clear all</button>
+        </div>
+    );
+};
+
+export default ActiveFilters;
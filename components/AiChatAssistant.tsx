@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { DatabaseSchema, ChatMessage, ToolCallPayload, Record, Filter, ChartData } from '../types';
+import type { DatabaseSchema, ChatMessage, ToolCallPayload, Record, RecordKey, FilterNode, ChartData } from '../types';
 import { getAiResponse } from '../services/geminiService';
+import { normalizeFilterNodes } from '../services/filters';
 import Button from './common/Button';
 import Input from './common/Input';
 import CloseIcon from './icons/CloseIcon';
@@ -8,19 +9,23 @@ import SendIcon from './icons/SendIcon';
 import SparklesIcon from './icons/SparklesIcon';
 import LogoIcon from './icons/LogoIcon';
 import CheckIcon from './icons/CheckIcon';
+import UndoIcon from './icons/UndoIcon';
 
 interface AiChatAssistantProps {
   tableName: string;
   schema: DatabaseSchema;
   onClose: () => void;
-  onCreateRecord: (newRecord: Omit<Record, 'id' | 'created_at'>) => void;
-  onUpdateRecord: (recordId: string, updates: Partial<Omit<Record, 'id'>>) => void;
-  onDeleteRecord: (recordId: string) => void;
-  onSearch: (filters: Filter[]) => void;
+  // Each returns the id of the undo history entry for the change, or null if nothing changed.
+  onCreateRecord: (newRecord: Partial<Record>) => Promise<number | null>;
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => Promise<number | null>;
+  onDeleteRecord: (recordKey: RecordKey) => Promise<number | null>;
+  undoableEntryIds: number[];
+  onUndo: (entryId: number) => void;
+  onSearch: (filters: FilterNode[]) => void;
   onGenerateChart: (chartData: ChartData) => void;
 }
 
-const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ tableName, schema, onClose, onCreateRecord, onUpdateRecord, onDeleteRecord, onSearch, onGenerateChart }) => {
+const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ tableName, schema, onClose, onCreateRecord, onUpdateRecord, onDeleteRecord, undoableEntryIds, onUndo, onSearch, onGenerateChart }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     { role: 'model', content: `Hello! I can help you manage your "${tableName}" table. \n\nTry asking: 'Find all records where status is complete' or 'Create a new record'.` }
   ]);
@@ -55,7 +60,7 @@ const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ tableName, schema, on
                 setMessages(prev => [...prev, { role: 'model', content: message }]);
             }
             if (toolCall.args.filters) {
-                onSearch(toolCall.args.filters);
+                onSearch(normalizeFilterNodes(toolCall.args.filters, schema));
             }
         } else if (toolCall.name === 'generateChart') {
             const message = toolCall.args?.confirmationMessage;
@@ -87,40 +92,48 @@ const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ tableName, schema, on
     }
   };
 
-  const handleConfirmAction = () => {
+  // Performs a confirmed action, returning the id of its undo history entry.
+  const performToolCall = async ({ name, args }: ToolCallPayload): Promise<number | null> => {
+    switch(name) {
+        case 'createRecord':
+            if (args.record) {
+              return onCreateRecord(args.record);
+            } else { throw new Error("Missing record data for creation."); }
+        case 'updateRecord':
+            if (args.recordId && args.record) {
+              return onUpdateRecord(args.recordId, args.record);
+            } else { throw new Error("Missing record ID or update data."); }
+        case 'deleteRecord':
+            if (args.recordId) {
+              return onDeleteRecord(args.recordId);
+            } else { throw new Error("Missing record ID for deletion."); }
+        default:
+            // searchRecords & generateChart are handled directly, so they won't reach here.
+            console.error(`Unknown tool call name: ${name}`);
+            throw new Error("Unknown action requested.");
+    }
+  };
+
+  const handleConfirmAction = async () => {
     if (!pendingToolCall) return;
     
-    const { name, args } = pendingToolCall;
+    const toolCall = pendingToolCall;
+    setPendingToolCall(null);
+    setIsLoading(true);
     
     try {
-      switch(name) {
-          case 'createRecord':
-              if (args.record) {
-                onCreateRecord(args.record);
-              } else { throw new Error("Missing record data for creation."); }
-              break;
-          case 'updateRecord':
-              if (args.recordId && args.record) {
-                onUpdateRecord(args.recordId, args.record);
-              } else { throw new Error("Missing record ID or update data."); }
-              break;
-          case 'deleteRecord':
-              if (args.recordId) {
-                onDeleteRecord(args.recordId);
-              } else { throw new Error("Missing record ID for deletion."); }
-              break;
-          default:
-              // searchRecords & generateChart are handled directly, so they won't reach here.
-              console.error(`Unknown tool call name: ${name}`);
-              throw new Error("Unknown action requested.");
+      const entryId = await performToolCall(toolCall);
+      if (entryId === null) {
+        setMessages(prev => [...prev, { role: 'model', content: "The action wasn't completed, so nothing was changed." }]);
+      } else {
+        setMessages(prev => [...prev, { role: 'model', content: "Done. I've performed the action.", undoEntryId: entryId }]);
       }
-      setMessages(prev => [...prev, { role: 'model', content: "Done. I've performed the action." }]);
     } catch (err) {
       console.error(err)
       setMessages(prev => [...prev, { role: 'model', content: "It looks like there was an error performing that action." }]);
+    } finally {
+      setIsLoading(false);
     }
-
-    setPendingToolCall(null);
   };
 
   const handleCancelAction = () => {
@@ -146,6 +159,14 @@ const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ tableName, schema, on
             {msg.role === 'model' && <LogoIcon className="h-8 w-8 text-emerald-500 flex-shrink-0 mt-1" />}
             <div className={`max-w-[80%] p-3 rounded-lg ${msg.role === 'user' ? 'bg-emerald-600 text-white' : 'bg-slate-700 text-slate-200'}`}>
               <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+              {msg.undoEntryId !== undefined && undoableEntryIds.includes(msg.undoEntryId) && (
+                <button
+                  onClick={() => onUndo(msg.undoEntryId!)}
+                  className="mt-2 inline-flex items-center gap-1 text-xs font-semibold text-emerald-300 hover:text-white"
+                >
+                  <UndoIcon className="h-3.5 w-3.5" /> Undo
+                </button>
+              )}
             </div>
           </div>
         ))}
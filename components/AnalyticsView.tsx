@@ -6,13 +6,18 @@ import Spinner from './common/Spinner';
 interface AnalyticsViewProps {
   schema: DatabaseSchema;
   records: Record[];
+  onConfigChange?: (config: ChartConfig | null) => void;
 }
 
-const AnalyticsView: React.FC<AnalyticsViewProps> = ({ schema, records }) => {
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ schema, records, onConfigChange }) => {
   const [chartConfig, setChartConfig] = useState<ChartConfig | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    onConfigChange?.(chartConfig);
+  }, [chartConfig, onConfigChange]);
+
   useEffect(() => {
     const fetchAnalytics = async () => {
       if (records.length === 0) {
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import type { DatabaseSchema, RecordKey, ColumnDefinition } from '../types';
+import { isKeyColumn } from '../services/recordKeys';
+import { toStoredValue } from '../services/columnValues';
+import Button from './common/Button';
+import Input from './common/Input';
+import RelationPicker from './RelationPicker';
+import EditIcon from './icons/EditIcon';
+import DeleteIcon from './icons/DeleteIcon';
+import CopyIcon from './icons/CopyIcon';
+import ExportIcon from './icons/ExportIcon';
+import CloseIcon from './icons/CloseIcon';
+
+export interface BulkProgress {
+  label: string; // e.g. 'Deleting'
+  completed: number;
+  total: number;
+}
+
+export interface BulkReport {
+  label: string; // e.g. 'Deleted'
+  succeeded: number;
+  failures: { recordKey: RecordKey; message: string }[];
+}
+
+interface BulkActionBarProps {
+  schema: DatabaseSchema;
+  selectedCount: number;
+  totalCount: number; // Rows matching the current filters and search
+  canSelectAllMatching: boolean;
+  isSelectingAll: boolean;
+  progress: BulkProgress | null;
+  report: BulkReport | null;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onSetField: (columnId: string, value: any) => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDismissReport: () => void;
+}
+
+const BulkValueInput: React.FC<{ column: ColumnDefinition; value: any; onChange: (value: any) => void }> = ({ column, value, onChange }) => {
+    const selectClassName = "w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm";
+    switch (column.type) {
+        case 'relation':
+            return <RelationPicker id="bulk-value" column={column} value={value} onChange={onChange} />;
+        case 'select':
+            return (
+                <select value={value ?? ''} onChange={e => onChange(e.target.value)} className={selectClassName} aria-label="New value">
+                    <option value="">(Empty)</option>
+                    {column.options?.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+            );
+        case 'boolean':
+            return (
+                <select value={value === 'true' ? 'true' : 'false'} onChange={e => onChange(e.target.value)} className={selectClassName} aria-label="New value">
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                </select>
+            );
+        default:
+            return (
+                <Input
+                    type={column.type === 'date' ? 'date' : 'text'}
+                    inputMode={column.type === 'number' ? 'decimal' : undefined}
+                    value={value ?? ''}
+                    onChange={e => onChange(e.target.value)}
+                    placeholder="New value (leave empty to clear)"
+                    className="!py-2 text-sm"
+                    aria-label="New value"
+                />
+            );
+    }
+};
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+    schema, selectedCount, totalCount, canSelectAllMatching, isSelectingAll, progress, report,
+    onSelectAllMatching, onClearSelection, onSetField, onDelete, onDuplicate, onExport, onDismissReport
+}) => {
+    // Only columns a user could change in the editor can be set in bulk.
+    const editableColumns = schema.filter(col => !col.readOnly && !isKeyColumn(col.id, schema));
+    const [isSettingField, setIsSettingField] = useState(false);
+    const [fieldColumnId, setFieldColumnId] = useState(editableColumns[0]?.id || '');
+    const [fieldValue, setFieldValue] = useState<any>('');
+    const [fieldError, setFieldError] = useState<string | null>(null);
+    const fieldColumn = editableColumns.find(col => col.id === fieldColumnId);
+    const isBusy = !!progress || isSelectingAll;
+
+    useEffect(() => {
+        setFieldValue('');
+        setFieldError(null);
+    }, [fieldColumnId]);
+
+    const handleApplyField = () => {
+        if (!fieldColumn) return;
+        const stored = toStoredValue(fieldColumn, fieldValue);
+        if ('error' in stored) {
+            setFieldError(stored.error);
+            return;
+        }
+        onSetField(fieldColumn.id, stored.value);
+        setIsSettingField(false);
+    };
+
+    const handleFieldValueChange = (value: any) => {
+        setFieldValue(value);
+        setFieldError(null);
+    };
+
+    return (
+        <div className="mb-4 space-y-3">
+            {selectedCount > 0 && (
+                <div className="p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex items-center gap-3 text-sm text-emerald-200">
+                            <span className="font-semibold">{selectedCount.toLocaleString()} selected</span>
+                            {canSelectAllMatching && (
+                                <button onClick={onSelectAllMatching} disabled={isBusy} className="text-emerald-300 hover:text-white hover:underline disabled:opacity-50">
+                                    {isSelectingAll ? 'Selecting...' : `Select all ${totalCount.toLocaleString()} matching records`}
+                                </button>
+                            )}
+                            <button onClick={onClearSelection} disabled={isBusy} className="text-slate-400 hover:text-white hover:underline disabled:opacity-50">Clear selection</button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Button onClick={() => setIsSettingField(prev => !prev)} size="sm" variant="secondary" disabled={isBusy || editableColumns.length === 0}>
+                                <EditIcon className="h-4 w-4 mr-2" /> Set Field
+                            </Button>
+                            <Button onClick={onDuplicate} size="sm" variant="secondary" disabled={isBusy}>
+                                <CopyIcon className="h-4 w-4 mr-2" /> Duplicate
+                            </Button>
+                            <Button onClick={onExport} size="sm" variant="secondary" disabled={isBusy}>
+                                <ExportIcon className="h-4 w-4 mr-2" /> Export
+                            </Button>
+                            <Button onClick={onDelete} size="sm" variant="secondary" disabled={isBusy} className="hover:!text-red-400">
+                                <DeleteIcon className="h-4 w-4 mr-2" /> Delete
+                            </Button>
+                        </div>
+                    </div>
+                    {isSettingField && fieldColumn && (
+                        <div className="flex flex-wrap items-start gap-2">
+                            <select value={fieldColumnId} onChange={e => setFieldColumnId(e.target.value)} className="bg-slate-900 border border-slate-600 rounded-md p-2 text-sm" aria-label="Field to set">
+                                {editableColumns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                            </select>
+                            <div className="flex-1 min-w-[200px]">
+                                <BulkValueInput column={fieldColumn} value={fieldValue} onChange={handleFieldValueChange} />
+                                {fieldError && <p className="mt-1 text-xs text-red-400">{fieldError}</p>}
+                            </div>
+                            <Button onClick={handleApplyField} size="sm" className="!py-2" disabled={isBusy}>Apply to {selectedCount.toLocaleString()}</Button>
+                        </div>
+                    )}
+                    {progress && (
+                        <div>
+                            <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                <span>{progress.label}...</span>
+                                <span>{progress.completed.toLocaleString()} / {progress.total.toLocaleString()}</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }} />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+            {report && (
+                <div className={`p-3 rounded-lg border text-sm ${report.failures.length > 0 ? 'border-amber-500/40 bg-amber-500/10 text-amber-200' : 'border-slate-700 bg-slate-900/50 text-slate-300'}`}>
+                    <div className="flex items-start justify-between gap-3">
+                        <p>
+                            {report.label} {report.succeeded.toLocaleString()} of {(report.succeeded + report.failures.length).toLocaleString()} records.
+                            {report.failures.length > 0 && ` ${report.failures.length.toLocaleString()} failed and remain selected:`}
+                        </p>
+                        <button onClick={onDismissReport} className="text-slate-400 hover:text-white" aria-label="Dismiss report"><CloseIcon className="w-4 h-4" /></button>
+                    </div>
+                    {report.failures.length > 0 && (
+                        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+                            {report.failures.map(failure => (
+                                <li key={failure.recordKey}><code className="text-amber-300">{failure.recordKey}</code>: {failure.message}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BulkActionBar;
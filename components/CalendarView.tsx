@@ -0,0 +1,300 @@
+import React, { useState, useMemo } from 'react';
+import type { DatabaseSchema, Record, RecordKey, ColumnDefinition } from '../types';
+import { getRecordKey, getTitleColumn } from '../services/recordKeys';
+import { formatCellValue } from '../services/cellFormat';
+import type { RelationLabels } from '../services/cellFormat';
+import {
+    toDayKey, getTodayKey, addDays, addMonths, getWeekStart, getMonthStart, getMonthEnd, getDayRange, getMonthGridDays, moveToDay, formatDay
+} from '../services/calendarDates';
+import Button from './common/Button';
+import RecordEditorModal from './RecordEditorModal';
+
+interface CalendarViewProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  records: Record[];
+  relationLabels: RelationLabels;
+  remotelyChangedIds: Set<string>; // Records recently changed by another user
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+}
+
+type CalendarLayout = 'month' | 'week' | 'agenda';
+
+const LAYOUTS: { layout: CalendarLayout; label: string }[] = [
+    { layout: 'month', label: 'Month' },
+    { layout: 'week', label: 'Week' },
+    { layout: 'agenda', label: 'Agenda' },
+];
+
+// Beyond this a month cell links to its week instead of growing.
+const MAX_EVENTS_PER_DAY = 3;
+
+// Prefers a date the user can change, so records can be rescheduled and created from the calendar.
+const getDefaultDateColumn = (schema: DatabaseSchema): ColumnDefinition | undefined => {
+    const dateColumns = schema.filter(col => col.type === 'date');
+    return dateColumns.find(col => !col.readOnly) || dateColumns[0];
+};
+
+// Places records on the days of a date column, with month, week and agenda layouts.
+const CalendarView: React.FC<CalendarViewProps> = ({ tableName, schema, records, relationLabels, remotelyChangedIds, onUpdateRecord, onCreateRecord }) => {
+    const [dateColumnId, setDateColumnId] = useState<string | null>(null);
+    const [layout, setLayout] = useState<CalendarLayout>('month');
+    const [anchorDay, setAnchorDay] = useState(getTodayKey);
+    const [draggedRecordKey, setDraggedRecordKey] = useState<RecordKey | null>(null);
+    const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingRecord, setEditingRecord] = useState<Partial<Record> | null>(null);
+    const [editingKey, setEditingKey] = useState<RecordKey | null>(null); // Null while creating
+
+    const dateColumns = schema.filter(col => col.type === 'date');
+    const dateColumn = dateColumns.find(col => col.id === dateColumnId) || getDefaultDateColumn(schema);
+    const titleColumn = schema.find(col => col.id === getTitleColumn(schema));
+    // Database-managed dates, such as when a row was created, can be browsed but not moved.
+    const canEdit = !!dateColumn && !dateColumn.readOnly;
+    const todayKey = getTodayKey();
+
+    // Each day's records, earliest first.
+    const { recordsByDay, undatedCount } = useMemo(() => {
+        const byDay = new Map<string, Record[]>();
+        let undated = 0;
+        if (!dateColumn) return { recordsByDay: byDay, undatedCount: 0 };
+        const dated = records
+            .map(record => ({ record, time: new Date(record[dateColumn.id]).getTime(), day: toDayKey(record[dateColumn.id]) }))
+            .filter(entry => {
+                if (entry.day) return true;
+                undated++;
+                return false;
+            })
+            .sort((a, b) => a.time - b.time);
+        for (const { record, day } of dated) {
+            const dayRecords = byDay.get(day!);
+            if (dayRecords) {
+                dayRecords.push(record);
+            } else {
+                byDay.set(day!, [record]);
+            }
+        }
+        return { recordsByDay: byDay, undatedCount: undated };
+    }, [records, dateColumn]);
+
+    if (!dateColumn) {
+        return <div className="text-center py-16 text-slate-400">Add a date column to this table to see its records on a calendar.</div>;
+    }
+
+    const weekStart = getWeekStart(anchorDay);
+    const title = layout === 'week'
+        ? `${formatDay(weekStart, { month: 'short', day: 'numeric' })} – ${formatDay(addDays(weekStart, 6), { month: 'short', day: 'numeric', year: 'numeric' })}`
+        : formatDay(anchorDay, { month: 'long', year: 'numeric' });
+
+    const step = (direction: 1 | -1) => {
+        setAnchorDay(prev => layout === 'week' ? addDays(prev, direction * 7) : addMonths(prev, direction));
+    };
+
+    const openCreator = (day: string) => {
+        if (!canEdit) return;
+        setEditingRecord({ [dateColumn.id]: moveToDay(null, day) });
+        setEditingKey(null);
+        setIsModalOpen(true);
+    };
+
+    const openEditor = (record: Record) => {
+        setEditingRecord(record);
+        setEditingKey(getRecordKey(record, schema));
+        setIsModalOpen(true);
+    };
+
+    const closeModal = () => {
+        setIsModalOpen(false);
+        setEditingRecord(null);
+        setEditingKey(null);
+    };
+
+    const handleDragEnd = () => {
+        setDraggedRecordKey(null);
+        setDragOverDay(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent, day: string) => {
+        if (draggedRecordKey === null) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDragOverDay(day);
+    };
+
+    const handleDrop = (e: React.DragEvent, day: string) => {
+        e.preventDefault();
+        const record = records.find(r => getRecordKey(r, schema) === draggedRecordKey);
+        if (draggedRecordKey !== null && record && toDayKey(record[dateColumn.id]) !== day) {
+            onUpdateRecord(draggedRecordKey, { [dateColumn.id]: moveToDay(record[dateColumn.id], day) });
+        }
+        handleDragEnd();
+    };
+
+    // Drop targets for rescheduling; clicking the empty part of a day adds a record on it.
+    const getDayProps = (day: string) => ({
+        onClick: () => openCreator(day),
+        onDragOver: (e: React.DragEvent) => handleDragOver(e, day),
+        onDragLeave: () => setDragOverDay(prev => prev === day ? null : prev),
+        onDrop: (e: React.DragEvent) => handleDrop(e, day),
+        title: canEdit ? `Add a record on ${formatDay(day, { dateStyle: 'medium' })}` : undefined,
+    });
+
+    const renderEvent = (record: Record) => {
+        const recordKey = getRecordKey(record, schema);
+        const isRemotelyChanged = remotelyChangedIds.has(recordKey);
+        const label = titleColumn && record[titleColumn.id] !== null && record[titleColumn.id] !== undefined
+            ? formatCellValue(record, titleColumn, relationLabels)
+            : 'Untitled';
+        return (
+            <button
+                key={recordKey}
+                draggable={canEdit}
+                onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDraggedRecordKey(recordKey); }}
+                onDragEnd={handleDragEnd}
+                onClick={e => { e.stopPropagation(); openEditor(record); }}
+                className={`block w-full text-left truncate text-xs px-2 py-1 rounded border bg-slate-800 text-slate-200 hover:bg-slate-700 ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''} ${isRemotelyChanged ? 'border-sky-500/60' : 'border-slate-700'} ${draggedRecordKey === recordKey ? 'opacity-50' : ''}`}
+                title={isRemotelyChanged ? `${label} (updated by someone else)` : label}
+            >
+                {label}
+            </button>
+        );
+    };
+
+    const renderDayNumber = (day: string) => (
+        <span className={`inline-flex items-center justify-center h-6 min-w-6 px-1 rounded-full text-xs ${day === todayKey ? 'bg-emerald-500 text-white font-semibold' : ''}`}>
+            {Number(day.slice(8))}
+        </span>
+    );
+
+    const dayClassName = (day: string) =>
+        `transition-colors ${canEdit ? 'cursor-pointer' : ''} ${dragOverDay === day ? 'bg-emerald-500/10' : 'hover:bg-slate-800/60'}`;
+
+    const renderMonth = () => {
+        const days = getMonthGridDays(anchorDay);
+        const month = anchorDay.slice(0, 7);
+        return (
+            <div className="grid grid-cols-7 border-l border-t border-slate-700 rounded-lg overflow-hidden">
+                {days.slice(0, 7).map(day => (
+                    <div key={day} className="px-2 py-2 text-xs font-medium text-slate-400 uppercase border-r border-b border-slate-700 bg-slate-900/50">
+                        {formatDay(day, { weekday: 'short' })}
+                    </div>
+                ))}
+                {days.map(day => {
+                    const dayRecords = recordsByDay.get(day) || [];
+                    return (
+                        <div key={day} {...getDayProps(day)} className={`min-h-28 p-1.5 border-r border-b border-slate-700 space-y-1 ${dayClassName(day)} ${day.slice(0, 7) === month ? 'text-slate-200' : 'text-slate-500 bg-slate-900/30'}`}>
+                            {renderDayNumber(day)}
+                            {dayRecords.slice(0, MAX_EVENTS_PER_DAY).map(renderEvent)}
+                            {dayRecords.length > MAX_EVENTS_PER_DAY && (
+                                <button
+                                    onClick={e => { e.stopPropagation(); setAnchorDay(day); setLayout('week'); }}
+                                    className="block text-xs text-slate-400 hover:text-white px-2"
+                                >
+                                    +{dayRecords.length - MAX_EVENTS_PER_DAY} more
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const renderWeek = () => (
+        <div className="grid grid-cols-7 border-l border-t border-slate-700 rounded-lg overflow-hidden">
+            {getDayRange(weekStart, addDays(weekStart, 6)).map(day => (
+                <div key={day} {...getDayProps(day)} className={`min-h-96 border-r border-b border-slate-700 ${dayClassName(day)}`}>
+                    <div className="flex items-center gap-2 px-2 py-2 border-b border-slate-700 bg-slate-900/50 text-xs text-slate-400">
+                        <span className="font-medium uppercase">{formatDay(day, { weekday: 'short' })}</span>
+                        {renderDayNumber(day)}
+                    </div>
+                    <div className="p-1.5 space-y-1">
+                        {(recordsByDay.get(day) || []).map(renderEvent)}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+
+    const renderAgenda = () => {
+        const days = getDayRange(getMonthStart(anchorDay), getMonthEnd(anchorDay)).filter(day => recordsByDay.has(day));
+        if (days.length === 0) {
+            return <div className="text-center py-16 text-slate-400">Nothing is scheduled in {title}.</div>;
+        }
+        return (
+            <div className="space-y-4">
+                {days.map(day => (
+                    <div key={day} {...getDayProps(day)} className={`flex gap-4 p-3 rounded-lg border border-slate-700 ${dayClassName(day)}`}>
+                        <div className={`w-32 flex-shrink-0 text-sm ${day === todayKey ? 'text-emerald-400 font-semibold' : 'text-slate-300'}`}>
+                            {formatDay(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </div>
+                        <div className="flex-1 min-w-0 space-y-1">
+                            {recordsByDay.get(day)!.map(renderEvent)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                    <Button onClick={() => step(-1)} variant="secondary" size="sm" aria-label="Previous">‹</Button>
+                    <Button onClick={() => setAnchorDay(getTodayKey())} variant="secondary" size="sm">Today</Button>
+                    <Button onClick={() => step(1)} variant="secondary" size="sm" aria-label="Next">›</Button>
+                    <h3 className="ml-2 text-lg font-semibold text-white">{title}</h3>
+                </div>
+                <div className="flex items-center gap-3">
+                    {dateColumns.length > 1 && (
+                        <select
+                            value={dateColumn.id}
+                            onChange={e => setDateColumnId(e.target.value)}
+                            className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm"
+                            aria-label="Date column"
+                        >
+                            {dateColumns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                        </select>
+                    )}
+                    <div className="flex rounded-lg border border-slate-600 overflow-hidden" role="group" aria-label="Calendar layout">
+                        {LAYOUTS.map(option => (
+                            <button
+                                key={option.layout}
+                                onClick={() => setLayout(option.layout)}
+                                className={`px-3 py-1.5 text-sm ${layout === option.layout ? 'bg-emerald-500/20 text-emerald-300' : 'text-slate-300 hover:bg-slate-700/50'}`}
+                                aria-pressed={layout === option.layout}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {layout === 'month' && renderMonth()}
+            {layout === 'week' && renderWeek()}
+            {layout === 'agenda' && renderAgenda()}
+
+            <p className="mt-4 text-xs text-slate-500">
+                {canEdit ? 'Drag a record to another day to reschedule it, or click a day to add one.' : `${dateColumn.name} is set by the database, so records can't be moved.`}
+                {undatedCount > 0 && ` ${undatedCount.toLocaleString()} ${undatedCount === 1 ? 'record has' : 'records have'} no ${dateColumn.name}.`}
+            </p>
+
+            <RecordEditorModal
+                isOpen={isModalOpen}
+                tableName={tableName}
+                schema={schema}
+                record={editingRecord}
+                recordKey={editingKey}
+                relationLabels={relationLabels}
+                onClose={closeModal}
+                onUpdateRecord={onUpdateRecord}
+                onCreateRecord={onCreateRecord}
+            />
+        </div>
+    );
+};
+
+export default CalendarView;
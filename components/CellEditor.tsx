@@ -0,0 +1,108 @@
+import React, { useState, useRef } from 'react';
+import type { ColumnDefinition } from '../types';
+import { toStoredValue } from '../services/columnValues';
+
+// Where the active cell goes once an edit is saved.
+export type CellMove = 'none' | 'up' | 'down' | 'next' | 'previous';
+
+interface CellEditorProps {
+  column: ColumnDefinition;
+  value: any; // The stored value
+  onSave: (value: any) => void; // Only called when the value was changed
+  onClose: (move: CellMove) => void;
+}
+
+const editorClassName = "w-full min-w-[8rem] -my-1 bg-slate-900 border border-emerald-500 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+// Input values are strings; dates are edited as their day part, as in the record editor.
+const toInputValue = (column: ColumnDefinition, value: any): any => {
+    if (column.type === 'boolean') return !!value;
+    if (value === null || value === undefined) return '';
+    if (column.type === 'date') return String(value).split('T')[0];
+    return String(value);
+};
+
+// The in-place editor for one table cell. Enter and Tab save, Escape discards, and clicking away saves.
+const CellEditor: React.FC<CellEditorProps> = ({ column, value, onSave, onClose }) => {
+    const [initialDraft] = useState(() => toInputValue(column, value));
+    const [draft, setDraft] = useState(initialDraft);
+    // A value the column can't hold keeps the editor open until it is corrected or discarded.
+    const [error, setError] = useState<string | null>(null);
+    // Keys that finish the edit also unmount the editor, which can fire a blur; only the first one counts.
+    const isDoneRef = useRef(false);
+
+    const finish = (save: boolean, move: CellMove = 'none') => {
+        if (isDoneRef.current) return;
+        const stored = save && draft !== initialDraft ? toStoredValue(column, draft) : null;
+        if (stored && 'error' in stored) {
+            setError(stored.error);
+            return;
+        }
+        isDoneRef.current = true;
+        if (stored) onSave(stored.value);
+        onClose(move);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // Arrow keys move the caret or the selected option here, not the active cell.
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            finish(true, e.shiftKey ? 'up' : 'down');
+        } else if (e.key === 'Tab') {
+            e.preventDefault();
+            finish(true, e.shiftKey ? 'previous' : 'next');
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            finish(false);
+        }
+    };
+
+    const sharedProps = {
+        autoFocus: true,
+        onKeyDown: handleKeyDown,
+        onBlur: () => finish(true),
+        'aria-label': column.name,
+    };
+
+    if (column.type === 'boolean') {
+        return (
+            <input
+                {...sharedProps}
+                type="checkbox"
+                checked={draft}
+                onChange={e => setDraft(e.target.checked)}
+                className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+            />
+        );
+    }
+    if (column.type === 'select') {
+        return (
+            <select {...sharedProps} value={draft} onChange={e => setDraft(e.target.value)} className={editorClassName}>
+                <option value="" disabled={column.required}>{column.required ? 'Select...' : 'None'}</option>
+                {column.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                {/* Keep a value that is no longer among the options selectable. */}
+                {draft && !column.options?.includes(draft) && <option value={draft}>{draft}</option>}
+            </select>
+        );
+    }
+    return (
+        <>
+            <input
+                {...sharedProps}
+                // Numbers are typed as text so that input the column can't hold is reported rather than dropped.
+                type={column.type === 'date' ? 'date' : 'text'}
+                inputMode={column.type === 'number' ? 'decimal' : undefined}
+                value={draft}
+                onChange={e => { setDraft(e.target.value); setError(null); }}
+                onFocus={e => column.type !== 'date' && e.target.select()}
+                className={`${editorClassName} ${error ? '!border-red-500' : ''}`}
+                aria-invalid={!!error}
+                title={error ?? undefined}
+            />
+            {error && <p className="mt-1 text-xs text-red-400 whitespace-normal">{error}</p>}
+        </>
+    );
+};
+
+export default CellEditor;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Popover } from '@headlessui/react';
+import type { DatabaseSchema, ColumnLayout } from '../types';
+import { arrangeColumns, DEFAULT_COLUMN_LAYOUT } from '../services/savedViews';
+import Button from './common/Button';
+import EyeIcon from './icons/EyeIcon';
+import PinIcon from './icons/PinIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+
+interface ColumnManagerMenuProps {
+  schema: DatabaseSchema;
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+}
+
+// Lets the user choose which columns the table shows, in what order, and which stay pinned to the left.
+// Widths are set by dragging the column edges in the table itself.
+const ColumnManagerMenu: React.FC<ColumnManagerMenuProps> = ({ schema, layout, onChange }) => {
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const columns = arrangeColumns(schema, layout);
+    const visibleCount = columns.filter(col => !layout.hiddenColumnIds.includes(col.id)).length;
+    const isPinned = (index: number) => layout.pinnedColumnIds.includes(columns[index].id);
+    const isCustomized = layout.hiddenColumnIds.length > 0 || layout.columnOrder.length > 0
+        || layout.pinnedColumnIds.length > 0 || Object.keys(layout.columnWidths).length > 0;
+
+    const toggleColumn = (columnId: string) => {
+        const isHidden = layout.hiddenColumnIds.includes(columnId);
+        onChange({
+            ...layout,
+            hiddenColumnIds: isHidden ? layout.hiddenColumnIds.filter(id => id !== columnId) : [...layout.hiddenColumnIds, columnId],
+        });
+    };
+
+    const togglePinned = (columnId: string) => {
+        const isPinnedColumn = layout.pinnedColumnIds.includes(columnId);
+        onChange({
+            ...layout,
+            pinnedColumnIds: isPinnedColumn ? layout.pinnedColumnIds.filter(id => id !== columnId) : [...layout.pinnedColumnIds, columnId],
+        });
+    };
+
+    // Pinned columns always come first, so a column only moves among the ones pinned the same way.
+    const canMove = (from: number, to: number) => to >= 0 && to < columns.length && isPinned(from) === isPinned(to);
+
+    // The full order is stored once anything moves, so columns added later simply go at the end.
+    const moveColumn = (from: number, to: number) => {
+        if (from === to || !canMove(from, to)) return;
+        const columnOrder = columns.map(col => col.id);
+        const [moved] = columnOrder.splice(from, 1);
+        columnOrder.splice(to, 0, moved);
+        onChange({ ...layout, columnOrder });
+    };
+
+    const handleDragOver = (e: React.DragEvent, index: number) => {
+        if (draggedIndex === null || !canMove(draggedIndex, index)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropIndex(index);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number) => {
+        e.preventDefault();
+        if (draggedIndex !== null) moveColumn(draggedIndex, index);
+        setDraggedIndex(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <Popover className="relative">
+            <Popover.Button as={Button} variant="secondary" size="sm" className="!py-2">
+                <EyeIcon className="h-4 w-4 mr-2" /> Fields
+                {visibleCount < schema.length && <span className="ml-1 text-xs text-slate-400">({schema.length - visibleCount} hidden)</span>}
+            </Popover.Button>
+            <Popover.Panel className="absolute top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-2 z-30">
+                <p className="px-2 pb-2 text-xs text-slate-500">Drag to reorder. Drag a column's edge in the table to resize it.</p>
+                <ul className="max-h-80 overflow-y-auto">
+                    {columns.map((col, index) => {
+                        const isVisible = !layout.hiddenColumnIds.includes(col.id);
+                        const isPinnedColumn = isPinned(index);
+                        return (
+                            <li
+                                key={col.id}
+                                draggable
+                                onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDraggedIndex(index); }}
+                                onDragOver={e => handleDragOver(e, index)}
+                                onDrop={e => handleDrop(e, index)}
+                                onDragEnd={() => { setDraggedIndex(null); setDropIndex(null); }}
+                                className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-grab active:cursor-grabbing hover:bg-slate-700/50 ${draggedIndex === index ? 'opacity-50' : ''} ${dropIndex === index && draggedIndex !== index ? 'ring-1 ring-emerald-500/60' : ''}`}
+                            >
+                                <input
+                                    id={`column-visible-${col.id}`}
+                                    type="checkbox"
+                                    checked={isVisible}
+                                    onChange={() => toggleColumn(col.id)}
+                                    // At least one column stays visible.
+                                    disabled={isVisible && visibleCount === 1}
+                                    className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                />
+                                <label htmlFor={`column-visible-${col.id}`} className={`flex-1 text-sm truncate ${isVisible ? 'text-slate-200' : 'text-slate-500'}`}>
+                                    {col.name}
+                                </label>
+                                <button
+                                    onClick={() => togglePinned(col.id)}
+                                    className={`p-1 hover:text-white ${isPinnedColumn ? 'text-emerald-400' : 'text-slate-500'}`}
+                                    aria-label={isPinnedColumn ? `Unpin ${col.name}` : `Pin ${col.name} to the left`}
+                                    aria-pressed={isPinnedColumn}
+                                    title={isPinnedColumn ? 'Unpin' : 'Pin to the left'}
+                                >
+                                    <PinIcon className="h-4 w-4" />
+                                </button>
+                                <button onClick={() => moveColumn(index, index - 1)} disabled={!canMove(index, index - 1)} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label={`Move ${col.name} up`}>
+                                    <ChevronDownIcon className="h-4 w-4 rotate-180" />
+                                </button>
+                                <button onClick={() => moveColumn(index, index + 1)} disabled={!canMove(index, index + 1)} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label={`Move ${col.name} down`}>
+                                    <ChevronDownIcon className="h-4 w-4" />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                {isCustomized && (
+                    <button onClick={() => onChange(DEFAULT_COLUMN_LAYOUT)} className="w-full mt-1 pt-2 border-t border-slate-700 text-xs text-slate-400 hover:text-white">
+                        Reset columns to their original order and widths
+                    </button>
+                )}
+            </Popover.Panel>
+        </Popover>
+    );
+};
+
+export default ColumnManagerMenu;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import type { DatabaseSchema, ColumnDefinition } from '../types';
+import Modal from './common/Modal';
+import Button from './common/Button';
+import Input from './common/Input';
+
+interface ColumnSettingsModalProps {
+  isOpen: boolean;
+  schema: DatabaseSchema;
+  onClose: () => void;
+  onSave: (schema: DatabaseSchema) => Promise<void>;
+}
+
+const parseOptions = (text: string): string[] =>
+    Array.from(new Set(text.split(',').map(opt => opt.trim()).filter(Boolean)));
+
+const ColumnSettingsModal: React.FC<ColumnSettingsModalProps> = ({ isOpen, schema, onClose, onSave }) => {
+    const [draft, setDraft] = useState<DatabaseSchema>(schema);
+    // Options are edited as free text so that typing a trailing comma doesn't get normalized away.
+    const [optionsText, setOptionsText] = useState<{ [columnId: string]: string }>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDraft(schema);
+        setOptionsText(Object.fromEntries(schema.map(col => [col.id, (col.options || []).join(', ')])));
+    }, [isOpen, schema]);
+
+    const updateColumn = (columnId: string, changes: Partial<ColumnDefinition>) => {
+        setDraft(prev => prev.map(col => col.id === columnId ? { ...col, ...changes } : col));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const finalSchema = draft.map(col => ({
+            ...col,
+            name: col.name.trim() || col.id,
+            options: col.type === 'select' ? parseOptions(optionsText[col.id] || '') : undefined,
+        }));
+        setIsSaving(true);
+        try {
+            await onSave(finalSchema);
+            onClose();
+        } catch (err) {
+            console.error("Failed to save column settings:", err);
+            alert("Failed to save the column settings. Please try again.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Column Settings">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+                    {draft.map(col => {
+                        // Postgres stores select values as text, so only text columns can become selects.
+                        const original = schema.find(c => c.id === col.id);
+                        const canBeSelect = original?.type === 'string' || original?.type === 'select';
+                        return (
+                            <div key={col.id} className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <code className="text-xs text-emerald-400">{col.id}</code>
+                                    {canBeSelect ? (
+                                        <select
+                                            value={col.type}
+                                            onChange={e => updateColumn(col.id, { type: e.target.value as ColumnDefinition['type'] })}
+                                            className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs"
+                                            aria-label={`Type of ${col.id}`}
+                                        >
+                                            <option value="string">Text</option>
+                                            <option value="select">Select</option>
+                                        </select>
+                                    ) : (
+                                        <span className="text-xs text-slate-500 capitalize">{col.type}</span>
+                                    )}
+                                </div>
+                                <Input
+                                    type="text"
+                                    value={col.name}
+                                    onChange={e => updateColumn(col.id, { name: e.target.value })}
+                                    placeholder="Display name"
+                                    className="!py-2 text-sm"
+                                    aria-label={`Display name of ${col.id}`}
+                                />
+                                {col.type === 'select' && (
+                                    <Input
+                                        type="text"
+                                        value={optionsText[col.id] || ''}
+                                        onChange={e => setOptionsText(prev => ({ ...prev, [col.id]: e.target.value }))}
+                                        placeholder="Options, separated by commas"
+                                        className="!py-2 text-sm"
+                                        aria-label={`Options of ${col.id}`}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="pt-2 flex justify-end gap-3">
+                    <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button type="submit" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Changes'}</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default ColumnSettingsModal;
@@ -1,22 +1,43 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { DatabaseSchema, Record, Filter, ChartData } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { DatabaseSchema, ColumnDefinition, Record, RecordKey, FilterNode, ChartData, SortSpec, RecordQuery, RecordChangeEvent, KanbanConfig, ChartConfig, BulkResult, BulkProgressHandler, SyncConflict, OutboxMutation, ViewTab, ViewSettings, ColumnLayout, SavedView, RecordGrouping } from '../types';
+import type { ColumnDependency } from '../services/schemaSql';
 import Button from './common/Button';
 import AiChatAssistant from './AiChatAssistant';
 import LogoIcon from './icons/LogoIcon';
 import LogoutIcon from './icons/LogoutIcon';
 import TableIcon from './icons/TableIcon';
 import KanbanIcon from './icons/KanbanIcon';
+import CalendarIcon from './icons/CalendarIcon';
+import TimelineIcon from './icons/TimelineIcon';
+import GalleryIcon from './icons/GalleryIcon';
 import AnalyticsIcon from './icons/AnalyticsIcon';
 import TableView from './TableView';
 import KanbanView from './KanbanView';
+import CalendarView from './CalendarView';
+import TimelineView from './TimelineView';
+import GalleryView from './GalleryView';
 import AnalyticsView from './AnalyticsView';
 import * as apiService from '../services/apiService';
+import { getRecordKey, getPrimaryKeyColumns } from '../services/recordKeys';
+import * as offlineStore from '../services/offlineStore';
+import { isNetworkError, createTempKey, queueOfflineMutation, getPendingMutationCount, replayOutbox } from '../services/offlineSync';
+import { queryRecordsLocally, matchesRecordQuery } from '../services/localQuery';
+import { DEFAULT_VIEW_SETTINGS, isSameViewSettings, getColumnLayout, getStoredColumnLayout, storeColumnLayout } from '../services/savedViews';
+import { DEFAULT_GROUPING, needsAllRecords } from '../services/grouping';
+import { getStoredKanbanConfig, storeKanbanConfig } from '../services/kanbanConfig';
+import type { RelationLabels } from '../services/cellFormat';
 import Spinner from './common/Spinner';
 import SparklesIcon from './icons/SparklesIcon';
 import CloseIcon from './icons/CloseIcon';
 import ChartModal from './ChartModal';
 import { Menu } from '@headlessui/react';
 import ChevronDownIcon from './icons/ChevronDownIcon';
+import DiagramIcon from './icons/DiagramIcon';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import ColumnSettingsModal from './ColumnSettingsModal';
+import SchemaEditorPanel from './SchemaEditorPanel';
+import SavedViewsMenu from './SavedViewsMenu';
 
 interface DataWorkspaceProps {
   tables: string[];
@@ -37,80 +58,951 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
 );
 
 
+// How often queued offline changes are retried while they wait.
+const SYNC_RETRY_MS = 30000;
+
+// How long a row changed by another user stays highlighted.
+const REMOTE_CHANGE_HIGHLIGHT_MS = 8000;
+
+// How long after one of our writes its realtime echo is expected.
+const ECHO_WINDOW_MS = 15000;
+
+// The server hands values back in its own formats, e.g. `2024-05-01T00:00:00+00:00` for a date written as
+// `2024-05-01`, or `5` for `"5"`, so values are compared the way the column reads them.
+const normalizeFieldValue = (value: any, column: ColumnDefinition | undefined): any => {
+  if (value === null || value === undefined) return null;
+  if (column?.type === 'number' && value !== '' && !isNaN(Number(value))) return Number(value);
+  if (column?.type === 'date' && typeof value === 'string') {
+    // Times without a zone are read as UTC, as date-only values are.
+    const time = Date.parse(/T|\s\d/.test(value) && !/(Z|[+-]\d{2}(:?\d{2})?)$/i.test(value) ? `${value}Z` : value);
+    return isNaN(time) ? value : time;
+  }
+  return JSON.stringify(value);
+};
+
+const hasSameFields = (record: Partial<Record>, fields: Partial<Record>, schema: DatabaseSchema) =>
+  Object.keys(fields).every(key => {
+    const column = schema.find(col => col.id === key);
+    return normalizeFieldValue(record[key], column) === normalizeFieldValue(fields[key], column);
+  });
+
+// A change made in this session, with what is needed to reverse it.
+type HistoryChange =
+  | { kind: 'create'; record: Record }
+  | { kind: 'update'; recordKey: RecordKey; before: Partial<Record>; after: Partial<Record> }
+  | { kind: 'delete'; record: Record };
+
+type HistoryEntry = HistoryChange & { id: number };
+
+// How many changes can be undone.
+const HISTORY_LIMIT = 100;
+
+// Postgres refuses explicit values for `GENERATED ALWAYS` identity and generated columns with this code.
+const GENERATED_COLUMN_ERROR_CODE = '428C9';
+
+const HISTORY_LABELS: { [kind in HistoryChange['kind']]: string } = {
+  create: 'adding a record',
+  update: 'editing a record',
+  delete: 'deleting a record',
+};
+
 const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState('table');
+  const [activeTab, setActiveTab] = useState<ViewTab>('table');
   const [selectedTable, setSelectedTable] = useState<string>(tables[0]);
   const [schema, setSchema] = useState<DatabaseSchema | null>(null);
   const [records, setRecords] = useState<Record[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<Filter[]>([]);
+  // A failed records query is shown above the view, so that the search or filters behind it can still be changed.
+  const [recordsError, setRecordsError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<FilterNode[]>([]);
+  const [sort, setSort] = useState<SortSpec | undefined>(undefined);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout>(() => getStoredColumnLayout(tables[0]));
+  const [grouping, setGrouping] = useState<RecordGrouping>(DEFAULT_GROUPING);
+  // Named combinations of the tab, filters, sort and columns, saved per table.
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(false);
+  const [loadedQuery, setLoadedQuery] = useState<RecordQuery | null>(null);
   const [chartModalData, setChartModalData] = useState<ChartData | null>(null);
+  const [isColumnSettingsOpen, setIsColumnSettingsOpen] = useState(false);
+  const [isSchemaEditorOpen, setIsSchemaEditorOpen] = useState(false);
+  // The board and chart configurations, tracked so the schema editor can warn before breaking them.
+  const [kanbanConfig, setKanbanConfig] = useState<KanbanConfig | null>(null);
+  const [chartConfig, setChartConfig] = useState<ChartConfig | null>(null);
+  const [remotelyChangedIds, setRemotelyChangedIds] = useState<Set<string>>(new Set());
+  // Titles of the records that relation columns point at, looked up for the rows that have been loaded.
+  const [relationLabels, setRelationLabels] = useState<RelationLabels>({});
+  const relationLabelsRef = useRef(relationLabels);
+  relationLabelsRef.current = relationLabels;
+  // Incremented on every records request so that slow, stale responses are discarded.
+  const latestRecordsRequest = useRef(0);
+  // Our own in-flight writes, so realtime echoes of them are not treated as someone else's changes.
+  const pendingWrites = useRef(new Map<string, number>());
+  const pendingCreates = useRef<Partial<Record>[]>([]);
+  // Our finished updates whose echoes haven't arrived yet, oldest first, with the fields each one wrote.
+  const unechoedWrites = useRef(new Map<RecordKey, { fields: Partial<Record>; at: number }[]>());
+  // Undo and redo history for the selected table; it's cleared when another table is selected.
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const lastHistoryId = useRef(0);
+  const isApplyingHistory = useRef(false);
+  // While offline, reads come from the IndexedDB cache and writes wait in the outbox until the connection returns.
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
 
-  const fetchData = useCallback(async () => {
+  const fetchSchema = useCallback(async () => {
     if (!selectedTable) return;
     setIsLoading(true);
     setError(null);
-    setFilters([]); // Reset filters when table changes
+    setRecordsError(null);
     try {
-        const [fetchedSchema, fetchedRecords] = await Promise.all([
-            apiService.getTableSchema(selectedTable),
-            apiService.getRecords(selectedTable),
-        ]);
+        const fetchedSchema = await apiService.getTableSchema(selectedTable);
         setSchema(fetchedSchema);
-        setRecords(fetchedRecords);
+        offlineStore.cacheSchema(selectedTable, fetchedSchema)
+          .catch(err => console.error(`Failed to cache schema for table ${selectedTable}:`, err));
     } catch(err) {
-        console.error(`Failed to fetch data for table ${selectedTable}:`, err);
+        const cachedSchema = isNetworkError(err) ? await offlineStore.getCachedSchema(selectedTable).catch(() => null) : null;
+        if (cachedSchema) {
+            setIsOffline(true);
+            setSchema(cachedSchema);
+            return;
+        }
+        console.error(`Failed to fetch schema for table ${selectedTable}:`, err);
         setError(`Could not load data for table "${selectedTable}". Please check permissions and try again.`);
-    } finally {
         setIsLoading(false);
     }
   }, [selectedTable]);
 
+  // The table view is paged, sorted and filtered on the server; the gallery is filtered but unpaged, and
+  // the other views work on the full table. Grouped or totalled, the table needs every matching record instead of a page.
+  const isTableUnpaged = !!schema && needsAllRecords(schema, grouping);
+  const recordQuery = useMemo<RecordQuery>(() => (
+    activeTab === 'gallery' ? { filters, sort, search: searchTerm }
+      : activeTab !== 'table' ? {}
+      : isTableUnpaged ? { filters, sort, search: searchTerm }
+      : { filters, sort, search: searchTerm, page, pageSize: apiService.DEFAULT_PAGE_SIZE }
+  ), [activeTab, isTableUnpaged, filters, sort, searchTerm, page]);
+
+  // Reads from the server and caches what it gets, falling back to the cache when the network is unavailable.
+  const loadRecords = useCallback(async (query: RecordQuery) => {
+    if (!schema) return { records: [], total: 0 };
+    try {
+        const result = await apiService.getRecords(selectedTable, schema, query);
+        setIsOffline(false);
+        // Only an unfiltered read of the whole table is known to be complete; anything else adds to the cache.
+        const isWholeTable = query.page === undefined && !query.filters?.length && !query.search;
+        offlineStore.updateCachedRecords(selectedTable, schema, { put: result.records, replace: isWholeTable })
+          .catch(err => console.error(`Failed to cache records for table ${selectedTable}:`, err));
+        return result;
+    } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        setIsOffline(true);
+        return queryRecordsLocally(await offlineStore.getCachedRecords(selectedTable), schema, query);
+    }
+  }, [selectedTable, schema]);
+
+  const fetchRecords = useCallback(async () => {
+    if (!schema) return;
+    const requestId = ++latestRecordsRequest.current;
+    setIsLoadingRecords(true);
+    try {
+        const result = await loadRecords(recordQuery);
+        if (requestId !== latestRecordsRequest.current) return;
+        setRecords(result.records);
+        setTotalCount(result.total);
+        setLoadedQuery(recordQuery);
+        setRecordsError(null);
+    } catch(err) {
+        if (requestId !== latestRecordsRequest.current) return;
+        console.error(`Failed to fetch records for table ${selectedTable}:`, err);
+        setRecordsError(recordQuery.filters?.length || recordQuery.search
+          ? `Could not load records for table "${selectedTable}" with the current search and filters.`
+          : `Could not load data for table "${selectedTable}". Please check permissions and try again.`);
+    } finally {
+        if (requestId === latestRecordsRequest.current) {
+            setIsLoading(false);
+            setIsLoadingRecords(false);
+        }
+    }
+  }, [selectedTable, schema, recordQuery, loadRecords]);
+
+  useEffect(() => {
+    fetchSchema();
+  }, [fetchSchema]);
+
+  // Board settings are kept per table; a table without saved ones gets a guess from its columns.
+  useEffect(() => {
+    if (schema) setKanbanConfig(getStoredKanbanConfig(selectedTable, schema));
+  }, [selectedTable, schema]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  useEffect(() => {
+    relationLabelsRef.current = {};
+    setRelationLabels({});
+  }, [schema]);
+
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    if (!schema) return;
+    const known = relationLabelsRef.current;
+    const lookups = schema.flatMap(col => {
+        if (!col.relation) return [];
+        const values = Array.from(new Set(records.map(r => r[col.id]).filter(v => v !== null && v !== undefined).map(String)))
+            .filter(value => known[col.id]?.[value] === undefined);
+        return values.length > 0 ? [{ columnId: col.id, relation: col.relation, values }] : [];
+    });
+    if (lookups.length === 0) return;
 
-  const handleUpdateRecord = async (recordId: string, updates: Partial<Omit<Record, 'id'>>) => {
+    let isCurrent = true;
+    Promise.all(lookups.map(async ({ columnId, relation, values }) => {
+        const labels = await apiService.getRelationLabels(relation, values);
+        // Values that point at nothing keep showing their raw key, and aren't looked up again.
+        return [columnId, { ...Object.fromEntries(values.map(v => [v, v])), ...labels }] as const;
+    }))
+      .then(results => {
+        if (!isCurrent) return;
+        setRelationLabels(prev => {
+            const next = { ...prev };
+            for (const [columnId, labels] of results) {
+                next[columnId] = { ...next[columnId], ...labels };
+            }
+            return next;
+        });
+      })
+      .catch(err => console.error(`Failed to load linked records for ${selectedTable}:`, err));
+    return () => { isCurrent = false; };
+  }, [schema, records, selectedTable]);
+
+  const beginWrite = (recordKey: RecordKey) => {
+    pendingWrites.current.set(recordKey, (pendingWrites.current.get(recordKey) || 0) + 1);
+  };
+
+  const endWrite = (recordKey: RecordKey) => {
+    const count = (pendingWrites.current.get(recordKey) || 1) - 1;
+    if (count > 0) {
+        pendingWrites.current.set(recordKey, count);
+    } else {
+        pendingWrites.current.delete(recordKey);
+    }
+  };
+
+  const flagRemoteChange = (recordKey: RecordKey) => {
+    setRemotelyChangedIds(prev => new Set(prev).add(recordKey));
+    setTimeout(() => {
+        setRemotelyChangedIds(prev => {
+            const next = new Set(prev);
+            next.delete(recordKey);
+            return next;
+        });
+    }, REMOTE_CHANGE_HIGHLIGHT_MS);
+  };
+
+  // Kept in refs so the realtime handler always sees the current view without resubscribing.
+  const recordQueryRef = useRef(recordQuery);
+  recordQueryRef.current = recordQuery;
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+  const schemaRef = useRef(schema);
+  schemaRef.current = schema;
+
+  const handleRemoteChange = useCallback((event: RecordChangeEvent) => {
+    const currentSchema = schemaRef.current;
+    if (!currentSchema) return;
+    const keyOf = (record: Partial<Record>) => getRecordKey(record, currentSchema);
+
+    if (event.type === 'DELETE') {
+        // Without REPLICA IDENTITY FULL, Postgres only reports the key columns of a deleted row.
+        const deletedKey = keyOf(event.oldRecord);
+        if (!recordsRef.current.some(r => keyOf(r) === deletedKey)) return;
+        setRecords(prev => prev.filter(r => keyOf(r) !== deletedKey));
+        setTotalCount(count => Math.max(0, count - 1));
+        return;
+    }
+
+    const incoming = event.record;
+    const incomingKey = keyOf(incoming);
+    // Our optimistic state is ahead of any echo while a write of ours is still in flight.
+    if (pendingWrites.current.has(incomingKey)) return;
+    const existing = recordsRef.current.find(r => keyOf(r) === incomingKey);
+
+    if (event.type === 'INSERT' && !existing) {
+        const ownCreateIndex = pendingCreates.current.findIndex(fields => hasSameFields(incoming, fields, currentSchema));
+        if (ownCreateIndex !== -1) {
+            pendingCreates.current.splice(ownCreateIndex, 1);
+        }
+        const query = recordQueryRef.current;
+        // A paged, filtered or searched table can't tell where a new row belongs; it shows up on the next fetch.
+        if (query.page !== undefined && (query.page > 0 || query.filters?.length || query.search)) return;
+        setTotalCount(count => count + 1);
+        setRecords(prev => [incoming, ...prev.filter(r => keyOf(r) !== incomingKey)]);
+        if (ownCreateIndex === -1) flagRemoteChange(incomingKey);
+        return;
+    }
+
+    if (!existing) return;
+
+    // An echo of one of our writes only has to agree on the fields we wrote; triggers may have changed others.
+    const ownWrites = (unechoedWrites.current.get(incomingKey) || []).filter(write => Date.now() - write.at < ECHO_WINDOW_MS);
+    const echoIndex = ownWrites.findIndex(write => hasSameFields(incoming, write.fields, currentSchema));
+    if (echoIndex !== -1) {
+        const laterWrites = ownWrites.slice(echoIndex + 1);
+        if (laterWrites.length > 0) {
+            unechoedWrites.current.set(incomingKey, laterWrites);
+            return; // A later write of ours is already ahead of this copy
+        }
+        unechoedWrites.current.delete(incomingKey);
+        setRecords(prev => prev.map(r => keyOf(r) === incomingKey ? incoming : r));
+        return;
+    }
+
+    if (hasSameFields(existing, incoming, currentSchema)) return;
+    const query = recordQueryRef.current;
+    // A filtered or searched page only keeps the row while it still matches.
+    if ((query.filters?.length || query.search) && !matchesRecordQuery(incoming, currentSchema, query)) {
+        setRecords(prev => prev.filter(r => keyOf(r) !== incomingKey));
+        setTotalCount(count => Math.max(0, count - 1));
+        return;
+    }
+    setRecords(prev => prev.map(r => keyOf(r) === incomingKey ? incoming : r));
+    flagRemoteChange(incomingKey);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedTable) return;
+    setRemotelyChangedIds(new Set());
+    unechoedWrites.current.clear();
+    try {
+        return apiService.subscribeToRecords(selectedTable, handleRemoteChange);
+    } catch (err) {
+        console.error(`Failed to subscribe to changes on ${selectedTable}:`, err);
+    }
+  }, [selectedTable, handleRemoteChange]);
+
+  const keyOf = (record: Partial<Record>) => getRecordKey(record, schema || []);
+
+  // Keeps the offline copy of the table in step with changes made here.
+  const cacheRecordChange = (changes: { put?: Record[]; remove?: RecordKey[] }) => {
+    if (!schema) return;
+    offlineStore.updateCachedRecords(selectedTable, schema, changes)
+      .catch(err => console.error(`Failed to update cached records for table ${selectedTable}:`, err));
+  };
+
+  const refreshPendingSyncCount = useCallback(async () => {
+    try {
+        setPendingSyncCount(await getPendingMutationCount());
+    } catch (err) {
+        console.error("Failed to read the offline outbox:", err);
+    }
+  }, []);
+
+  const queueWhileOffline = async (mutation: OutboxMutation) => {
+    setIsOffline(true);
+    await queueOfflineMutation(selectedTable, mutation);
+    await refreshPendingSyncCount();
+  };
+
+  const isSyncingRef = useRef(false);
+
+  const syncOutbox = useCallback(async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+        const { applied, conflicts, interrupted } = await replayOutbox();
+        // Reaching the server with any queued change shows the connection is back.
+        if (interrupted) setIsOffline(true);
+        else if (applied > 0 || conflicts.length > 0) setIsOffline(false);
+        if (conflicts.length > 0) setSyncConflicts(prev => [...prev, ...conflicts]);
+        if (applied > 0 || conflicts.length > 0) fetchRecords();
+    } catch (err) {
+        console.error("Failed to sync offline changes:", err);
+    } finally {
+        isSyncingRef.current = false;
+        setIsSyncing(false);
+        refreshPendingSyncCount();
+    }
+  }, [fetchRecords, refreshPendingSyncCount]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    refreshPendingSyncCount();
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+    };
+  }, [refreshPendingSyncCount]);
+
+  // Logging out forgets the offline copy, including changes that haven't reached the server yet. Logouts forced
+  // by a failed connection at startup keep it, since they are when queued changes matter most.
+  const handleLogout = async () => {
+    if (pendingSyncCount > 0 && !window.confirm(
+      `${pendingSyncCount} ${pendingSyncCount === 1 ? 'change made offline hasn\'t' : 'changes made offline haven\'t'} been saved to the database yet. Log out and discard ${pendingSyncCount === 1 ? 'it' : 'them'}?`
+    )) return;
+    try {
+        await offlineStore.clearOfflineData();
+    } catch (err) {
+        console.error("Failed to clear offline data:", err);
+    }
+    onLogout();
+  };
+
+  // Queued changes go out as soon as the connection is back, including ones left over from an earlier session
+  // against the same backend.
+  useEffect(() => {
+    if (!isOffline && pendingSyncCount > 0) syncOutbox();
+  }, [isOffline, pendingSyncCount, syncOutbox]);
+
+  // The browser can report being online while the server is unreachable, in which case nothing above fires
+  // again, so queued changes are also retried on a timer until they go through.
+  useEffect(() => {
+    if (pendingSyncCount === 0) return;
+    const timer = window.setInterval(() => {
+        if (navigator.onLine) syncOutbox();
+    }, SYNC_RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [pendingSyncCount, syncOutbox]);
+
+  // Saves an update optimistically. Unless the connection is down, a failure reverts the row and is thrown.
+  const saveUpdate = async (recordKey: RecordKey, updates: Partial<Record>): Promise<Record> => {
+    if (!schema) throw new Error("The table's schema hasn't loaded yet.");
+    const base = recordsRef.current.find(r => keyOf(r) === recordKey) || null;
     // Optimistic update
-    setRecords(prev => prev.map(r => r.id === recordId ? { ...r, ...updates } : r));
+    setRecords(prev => prev.map(r => keyOf(r) === recordKey ? { ...r, ...updates } : r));
+    beginWrite(recordKey);
     try {
-        await apiService.updateRecord(selectedTable, recordId, updates);
+        const updated = await apiService.updateRecord(selectedTable, schema, recordKey, updates);
+        const ownWrites = (unechoedWrites.current.get(recordKey) || []).filter(write => Date.now() - write.at < ECHO_WINDOW_MS);
+        unechoedWrites.current.set(recordKey, [...ownWrites, { fields: updates, at: Date.now() }]);
+        cacheRecordChange({ put: [updated] });
+        return updated;
+    } catch (err) {
+        if (isNetworkError(err)) {
+            await queueWhileOffline({ kind: 'update', recordKey, updates, base });
+            const updated = { ...base, ...updates };
+            if (base) cacheRecordChange({ put: [updated] });
+            return updated;
+        }
+        fetchRecords(); // Revert on failure
+        throw err;
+    } finally {
+        endWrite(recordKey);
+    }
+  };
+
+  // The three mutations below apply a change without recording it, so that undo and redo can reuse them.
+  const applyUpdate = async (recordKey: RecordKey, updates: Partial<Record>): Promise<Record | null> => {
+    try {
+        return await saveUpdate(recordKey, updates);
     } catch (err) {
         console.error("Failed to update record:", err);
         alert("Failed to save changes to the database.");
-        fetchData(); // Revert on failure
+        return null;
+    }
+  };
+
+  const showCreatedRecord = (created: Record) => {
+    // The realtime INSERT may have beaten the response here, in which case the row is already counted.
+    const createdKey = keyOf(created);
+    if (!recordsRef.current.some(r => keyOf(r) === createdKey)) {
+        setTotalCount(prev => prev + 1);
     }
+    setRecords(prev => [created, ...prev.filter(r => keyOf(r) !== createdKey)]);
   };
 
-  const handleCreateRecord = async (newRecord: Omit<Record, 'id' | 'created_at'>) => {
+  const insertRecord = async (newRecord: Partial<Record>): Promise<Record> => {
+    pendingCreates.current.push(newRecord);
     try {
         const created = await apiService.createRecord(selectedTable, newRecord);
-        setRecords(prev => [created, ...prev]);
+        showCreatedRecord(created);
+        cacheRecordChange({ put: [created] });
+        return created;
+    } catch (err) {
+        if (!isNetworkError(err) || !schema) throw err;
+        // Shown under a temporary key until the outbox is replayed and the server assigns the real one.
+        const tempKey = createTempKey();
+        const keyColumns = getPrimaryKeyColumns(schema);
+        const placeholder = keyColumns.length === 1 && (newRecord[keyColumns[0]] ?? null) === null
+            ? { [keyColumns[0]]: tempKey }
+            : {};
+        const created = { ...newRecord, ...placeholder } as Record;
+        await queueWhileOffline({ kind: 'create', record: newRecord, tempKey: keyOf(created) });
+        showCreatedRecord(created);
+        cacheRecordChange({ put: [created] });
+        return created;
+    } finally {
+        const index = pendingCreates.current.indexOf(newRecord);
+        if (index !== -1) pendingCreates.current.splice(index, 1);
+    }
+  };
+
+  const applyCreate = async (newRecord: Partial<Record>): Promise<Record | null> => {
+    try {
+        return await insertRecord(newRecord);
     } catch (err) {
         console.error("Failed to create record:", err);
         alert("Failed to create the new record in the database.");
+        return null;
     }
   };
 
-  const handleDeleteRecord = async (recordId: string) => {
-    if (!window.confirm("Are you sure you want to delete this record?")) return;
+  const applyDelete = async (recordKey: RecordKey): Promise<boolean> => {
+    if (!schema) return false;
     // Optimistic delete
-    const originalRecords = records;
-    setRecords(prev => prev.filter(r => r.id !== recordId));
+    const originalRecords = recordsRef.current;
+    setRecords(prev => prev.filter(r => keyOf(r) !== recordKey));
+    setTotalCount(prev => Math.max(0, prev - 1));
+    beginWrite(recordKey);
+    const base = originalRecords.find(r => keyOf(r) === recordKey) || null;
     try {
-        // FIX: Changed record_id to recordId to match the parameter name.
-        await apiService.deleteRecord(selectedTable, recordId);
+        await apiService.deleteRecord(selectedTable, schema, recordKey);
+        cacheRecordChange({ remove: [recordKey] });
+        return true;
     } catch (err) {
+        if (isNetworkError(err)) {
+            await queueWhileOffline({ kind: 'delete', recordKey, base });
+            cacheRecordChange({ remove: [recordKey] });
+            return true;
+        }
         console.error("Failed to delete record:", err);
         alert("Failed to delete the record from the database.");
         setRecords(originalRecords); // Revert on failure
+        setTotalCount(prev => prev + 1);
+        return false;
+    } finally {
+        endWrite(recordKey);
     }
-  }
+  };
+
+  // Puts a deleted row back with its original key and timestamps, or as a new row if the database
+  // won't accept explicit values for its generated columns. A copy gets a new key, which would cut it off from
+  // records that pointed at the original, so any other failure is passed on.
+  const restoreRecord = async (record: Record): Promise<Record | null> => {
+    if (!schema) return null;
+    try {
+        return await insertRecord(record);
+    } catch (err) {
+        if ((err as { code?: unknown })?.code !== GENERATED_COLUMN_ERROR_CODE) throw err;
+        return applyCreate(Object.fromEntries(
+            Object.entries(record).filter(([columnId]) => !schema.find(c => c.id === columnId)?.readOnly)
+        ));
+    }
+  };
 
-  const handleSearch = (newFilters: Filter[]) => {
+  // Fetches a record that isn't on the current page, e.g. one the AI assistant changes by key.
+  const findRecord = async (recordKey: RecordKey): Promise<Record | null> => {
+    const loaded = recordsRef.current.find(r => keyOf(r) === recordKey);
+    if (loaded || !schema) return loaded || null;
+    try {
+        return await apiService.getRecord(selectedTable, schema, recordKey);
+    } catch (err) {
+        console.error("Failed to read record before changing it:", err);
+        return null;
+    }
+  };
+
+  const recordHistory = (change: HistoryChange): number => {
+    const entry = { ...change, id: ++lastHistoryId.current } as HistoryEntry;
+    setUndoStack(prev => [...prev, entry].slice(-HISTORY_LIMIT));
+    setRedoStack([]);
+    return entry.id;
+  };
+
+  const recordUpdateHistory = (existing: Record | null, updated: Record, updates: Partial<Record>): number | null => {
+    if (!existing) return null; // Without the previous values there is nothing to undo to
+    const before = Object.fromEntries(Object.keys(updates).map(columnId => [columnId, existing[columnId] ?? null]));
+    return recordHistory({ kind: 'update', recordKey: keyOf(updated), before, after: updates });
+  };
+
+  // Each handler returns the id of the history entry it recorded, or null if nothing changed.
+  const handleUpdateRecord = async (recordKey: RecordKey, updates: Partial<Record>): Promise<number | null> => {
+    const existing = await findRecord(recordKey);
+    const updated = await applyUpdate(recordKey, updates);
+    return updated && recordUpdateHistory(existing, updated, updates);
+  };
+
+  // Inline table edits show a failure on the cell itself, so it is passed back rather than alerted.
+  const handleUpdateCell = async (recordKey: RecordKey, updates: Partial<Record>): Promise<void> => {
+    const existing = await findRecord(recordKey);
+    const updated = await saveUpdate(recordKey, updates);
+    recordUpdateHistory(existing, updated, updates);
+  };
+
+  const handleCreateRecord = async (newRecord: Partial<Record>): Promise<number | null> => {
+    const created = await applyCreate(newRecord);
+    return created ? recordHistory({ kind: 'create', record: created }) : null;
+  };
+
+  const handleDeleteRecord = async (recordKey: RecordKey): Promise<number | null> => {
+    if (!schema) return null;
+    const existing = await findRecord(recordKey);
+    const deleted = await applyDelete(recordKey);
+    return deleted && existing ? recordHistory({ kind: 'delete', record: existing }) : null;
+  };
+
+  // Reverses an entry, returning it as it should be redone (a restored row may have a new key), or null on failure.
+  const revertEntry = async (entry: HistoryEntry): Promise<HistoryEntry | null> => {
+    switch (entry.kind) {
+        case 'create':
+            return await applyDelete(keyOf(entry.record)) ? entry : null;
+        case 'update':
+            return await applyUpdate(entry.recordKey, entry.before) ? entry : null;
+        case 'delete': {
+            const restored = await restoreRecord(entry.record);
+            return restored && { ...entry, record: restored };
+        }
+    }
+  };
+
+  const reapplyEntry = async (entry: HistoryEntry): Promise<HistoryEntry | null> => {
+    switch (entry.kind) {
+        case 'create': {
+            const restored = await restoreRecord(entry.record);
+            return restored && { ...entry, record: restored };
+        }
+        case 'update':
+            return await applyUpdate(entry.recordKey, entry.after) ? entry : null;
+        case 'delete':
+            return await applyDelete(keyOf(entry.record)) ? entry : null;
+    }
+  };
+
+  const getEntryRecordKey = (entry: HistoryEntry) => entry.kind === 'update' ? entry.recordKey : keyOf(entry.record);
+
+  // Whether a later change touched the same record, and for two edits the same fields, so undoing the earlier
+  // one on its own would overwrite it.
+  const overlapsEntry = (entry: HistoryEntry, later: HistoryEntry) => {
+    if (getEntryRecordKey(entry) !== getEntryRecordKey(later)) return false;
+    if (entry.kind !== 'update' || later.kind !== 'update') return true;
+    return Object.keys(entry.before).some(columnId => columnId in later.after);
+  };
+
+  // Undoes the most recent change, or a specific one such as the change behind an AI confirmation.
+  const handleUndo = async (entryId?: number) => {
+    const entry = entryId === undefined ? undoStack[undoStack.length - 1] : undoStack.find(e => e.id === entryId);
+    if (!entry || isApplyingHistory.current) return;
+    if (undoStack.slice(undoStack.indexOf(entry) + 1).some(later => overlapsEntry(entry, later))) {
+        alert("This change can't be undone on its own because a later change edited the same record. Undo the later changes first.");
+        return;
+    }
+    isApplyingHistory.current = true;
+    try {
+        const reverted = await revertEntry(entry);
+        if (!reverted) return;
+        setUndoStack(prev => prev.filter(e => e.id !== entry.id));
+        setRedoStack(prev => [...prev, reverted]);
+    } catch (err) {
+        console.error("Failed to undo change:", err);
+        alert("Failed to undo the change. Please try again.");
+    } finally {
+        isApplyingHistory.current = false;
+    }
+  };
+
+  const handleRedo = async () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || isApplyingHistory.current) return;
+    isApplyingHistory.current = true;
+    try {
+        const reapplied = await reapplyEntry(entry);
+        if (!reapplied) return;
+        setRedoStack(prev => prev.filter(e => e.id !== entry.id));
+        setUndoStack(prev => [...prev, reapplied]);
+    } catch (err) {
+        console.error("Failed to redo change:", err);
+        alert("Failed to redo the change. Please try again.");
+    } finally {
+        isApplyingHistory.current = false;
+    }
+  };
+
+  // Kept in a ref so the keyboard listener is registered once but always acts on the current history.
+  const historyActionsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  historyActionsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        // Text fields keep their own undo.
+        const target = e.target as HTMLElement | null;
+        if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            historyActionsRef.current.undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            historyActionsRef.current.redo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleBulkUpdate = async (recordKeys: RecordKey[], updates: Partial<Record>, onProgress: BulkProgressHandler): Promise<BulkResult<Record>> => {
+    if (!schema) return { succeeded: [], failures: [] };
+    const keys = new Set(recordKeys);
+    const originals = new Map(records.filter(r => keys.has(keyOf(r))).map(r => [keyOf(r), r]));
+    const restore = (failedKeys: Set<RecordKey>) =>
+        setRecords(prev => prev.map(r => failedKeys.has(keyOf(r)) ? originals.get(keyOf(r)) || r : r));
+    // Optimistic update
+    setRecords(prev => prev.map(r => keys.has(keyOf(r)) ? { ...r, ...updates } : r));
+    recordKeys.forEach(beginWrite);
+    try {
+        const result = await apiService.bulkUpdateRecords(selectedTable, schema, recordKeys, updates, onProgress);
+        const updated = new Map(result.succeeded.map(r => [keyOf(r), r]));
+        setRecords(prev => prev.map(r => updated.get(keyOf(r)) || r));
+        restore(new Set(result.failures.map(failure => recordKeys[failure.index])));
+        return result;
+    } catch (err) {
+        restore(keys);
+        throw err;
+    } finally {
+        recordKeys.forEach(endWrite);
+    }
+  };
+
+  const handleBulkDelete = async (recordKeys: RecordKey[], onProgress: BulkProgressHandler): Promise<BulkResult<RecordKey>> => {
+    if (!schema) return { succeeded: [], failures: [] };
+    const keys = new Set(recordKeys);
+    const originalRecords = records;
+    // Puts rows that are still in the database back where they were, keeping anything that arrived meanwhile.
+    const restore = (failedKeys: Set<RecordKey>) => setRecords(prev => {
+        const current = new Map(prev.map(r => [keyOf(r), r]));
+        const originalKeys = new Set(originalRecords.map(keyOf));
+        const restored = originalRecords.flatMap(r => current.get(keyOf(r)) || (failedKeys.has(keyOf(r)) ? [r] : []));
+        return [...prev.filter(r => !originalKeys.has(keyOf(r))), ...restored];
+    });
+    // Optimistic delete
+    setRecords(prev => prev.filter(r => !keys.has(keyOf(r))));
+    recordKeys.forEach(beginWrite);
+    try {
+        const result = await apiService.bulkDeleteRecords(selectedTable, schema, recordKeys, onProgress);
+        setTotalCount(prev => Math.max(0, prev - result.succeeded.length));
+        if (result.failures.length > 0) {
+            restore(new Set(result.failures.map(failure => recordKeys[failure.index])));
+        }
+        return result;
+    } catch (err) {
+        restore(keys);
+        throw err;
+    } finally {
+        recordKeys.forEach(endWrite);
+    }
+  };
+
+  const handleBulkDuplicate = async (sourceRecords: Record[], onProgress: BulkProgressHandler): Promise<BulkResult<Record>> => {
+    if (!schema) return { succeeded: [], failures: [] };
+    // Database-managed columns such as generated keys and timestamps are filled in afresh for each copy.
+    const copies = sourceRecords.map(record => Object.fromEntries(
+        Object.entries(record).filter(([columnId]) => !schema.find(c => c.id === columnId)?.readOnly)
+    ));
+    pendingCreates.current.push(...copies);
+    try {
+        const result = await apiService.bulkCreateRecords(selectedTable, copies, onProgress);
+        const createdKeys = new Set(result.succeeded.map(keyOf));
+        // Realtime may already have added some of the copies.
+        const alreadyShown = recordsRef.current.filter(r => createdKeys.has(keyOf(r))).length;
+        setTotalCount(prev => prev + result.succeeded.length - alreadyShown);
+        setRecords(prev => [...result.succeeded, ...prev.filter(r => !createdKeys.has(keyOf(r)))]);
+        return result;
+    } finally {
+        pendingCreates.current = pendingCreates.current.filter(fields => !copies.includes(fields));
+    }
+  };
+
+  const handleImportRecords = async (newRecords: Partial<Record>[], upsertOn: string[] | undefined, onProgress: BulkProgressHandler): Promise<BulkResult<Record>> => {
+    const result = await apiService.bulkCreateRecords(selectedTable, newRecords, onProgress, upsertOn);
+    // Imported rows can land on any page, so the current one is re-read rather than patched.
+    if (result.succeeded.length > 0) {
+        fetchRecords();
+    }
+    return result;
+  };
+
+  const fetchAllMatchingRecords = async (): Promise<Record[]> => {
+    if (!schema) return [];
+    const result = await loadRecords({ filters, sort, search: searchTerm });
+    return result.records;
+  };
+
+  const handleSaveColumnSettings = async (updatedSchema: DatabaseSchema) => {
+    await apiService.saveColumnMetadata(selectedTable, updatedSchema);
+    setSchema(await apiService.getTableSchema(selectedTable));
+  };
+
+  const handleApplySchemaChanges = async (sql: string, updatedSchema: DatabaseSchema) => {
+    if (sql) {
+        await apiService.runRawSql(sql);
+    }
+    await apiService.saveColumnMetadata(selectedTable, updatedSchema);
+    setSchema(await apiService.getTableSchema(selectedTable));
+  };
+
+  const columnDependencies = useMemo<ColumnDependency[]>(() => {
+    const dependencies: ColumnDependency[] = [];
+    if (kanbanConfig) {
+        dependencies.push({ columnId: kanbanConfig.statusColumnId, usedBy: 'Kanban board status' });
+        dependencies.push({ columnId: kanbanConfig.cardTitleColumnId, usedBy: 'Kanban card title' });
+        kanbanConfig.cardDetailColumnIds.forEach(columnId => dependencies.push({ columnId, usedBy: 'Kanban card details' }));
+        if (kanbanConfig.swimlaneColumnId) dependencies.push({ columnId: kanbanConfig.swimlaneColumnId, usedBy: 'Kanban swimlanes' });
+        if (kanbanConfig.rankColumnId) dependencies.push({ columnId: kanbanConfig.rankColumnId, usedBy: 'Kanban card order' });
+    }
+    if (chartConfig) {
+        dependencies.push({ columnId: chartConfig.categoryColumnId, usedBy: 'Analytics chart' });
+    }
+    return dependencies;
+  }, [kanbanConfig, chartConfig]);
+
+  const viewSettings = useMemo<ViewSettings>(() => ({ activeTab, filters, sort, ...columnLayout, grouping }), [activeTab, filters, sort, columnLayout, grouping]);
+  const activeView = savedViews.find(view => view.id === activeViewId) || null;
+  const isViewModified = !!activeView && !isSameViewSettings(viewSettings, activeView);
+
+  const applyViewSettings = useCallback((settings: ViewSettings) => {
+    setActiveTab(settings.activeTab);
+    setFilters(settings.filters);
+    setSort(settings.sort);
+    setColumnLayout(getColumnLayout(settings));
+    setGrouping(settings.grouping);
+    setPage(0);
+  }, []);
+
+  // Opening a table shows its default view, if it has one.
+  useEffect(() => {
+    let isCurrent = true;
+    apiService.getSavedViews(selectedTable)
+      .then(views => {
+        if (!isCurrent) return;
+        setSavedViews(views);
+        const defaultView = views.find(view => view.isDefault);
+        if (defaultView) {
+            setActiveViewId(defaultView.id);
+            applyViewSettings(defaultView);
+        }
+      })
+      .catch(err => console.error(`Failed to load saved views for ${selectedTable}:`, err));
+    return () => { isCurrent = false; };
+  }, [selectedTable, applyViewSettings]);
+
+  // Without a saved view, the table shows its own remembered column layout.
+  const handleSelectView = (view: SavedView | null) => {
+    setActiveViewId(view?.id ?? null);
+    applyViewSettings(view ?? { ...DEFAULT_VIEW_SETTINGS, ...getStoredColumnLayout(selectedTable) });
+  };
+
+  // Layout changes made outside a saved view are remembered for the table; inside one, they wait for "Save changes".
+  const handleColumnLayoutChange = (layout: ColumnLayout) => {
+    setColumnLayout(layout);
+    if (!activeViewId) storeColumnLayout(selectedTable, layout);
+  };
+
+  // Saves a view and re-reads the list, since making one view the default changes the others.
+  const persistView = async (view: SavedView, action: string) => {
+    try {
+        await apiService.saveView(view);
+        setSavedViews(await apiService.getSavedViews(view.tableName));
+        return true;
+    } catch (err) {
+        console.error(`Failed to ${action}:`, err);
+        alert(`Failed to ${action}. Please try again.`);
+        return false;
+    }
+  };
+
+  const handleSaveViewAsNew = async (name: string) => {
+    const view: SavedView = { ...viewSettings, id: crypto.randomUUID(), tableName: selectedTable, name, isDefault: false };
+    if (await persistView(view, 'save the view')) {
+        setActiveViewId(view.id);
+    }
+  };
+
+  const handleSaveViewChanges = () => {
+    if (activeView) persistView({ ...activeView, ...viewSettings }, 'save the view');
+  };
+
+  const handleRenameView = (view: SavedView, name: string) => {
+    persistView({ ...view, name }, 'rename the view');
+  };
+
+  const handleToggleDefaultView = (view: SavedView) => {
+    persistView({ ...view, isDefault: !view.isDefault }, 'change the default view');
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"? The records themselves are not affected.`)) return;
+    try {
+        await apiService.deleteSavedView(view);
+        setSavedViews(prev => prev.filter(other => other.id !== view.id));
+        if (activeViewId === view.id) setActiveViewId(null);
+    } catch (err) {
+        console.error("Failed to delete the view:", err);
+        alert("Failed to delete the view. Please try again.");
+    }
+  };
+
+  const handleSelectTable = (table: string) => {
+    if (table === selectedTable) return;
+    setKanbanConfig(null);
+    setChartConfig(null);
+    // Reset the schema and query together so no request pairs the new table with the old schema
+    setSchema(null);
+    setRecords([]);
+    setFilters([]);
+    setSort(undefined);
+    setSearchTerm('');
+    setColumnLayout(getStoredColumnLayout(table));
+    setGrouping(DEFAULT_GROUPING);
+    setSavedViews([]);
+    setActiveViewId(null);
+    setPage(0);
+    setUndoStack([]);
+    setRedoStack([]);
+    setSelectedTable(table);
+  };
+
+  const handleFiltersChange = (newFilters: FilterNode[]) => {
     setFilters(newFilters);
+    setPage(0);
+  };
+
+  const handleSortChange = (newSort: SortSpec) => {
+    setSort(newSort);
+    setPage(0);
+  };
+
+  const handleGroupingChange = (newGrouping: RecordGrouping) => {
+    setGrouping(newGrouping);
+    setPage(0);
+  };
+
+  const handleKanbanConfigChange = (config: KanbanConfig) => {
+    setKanbanConfig(config);
+    storeKanbanConfig(selectedTable, config);
+  };
+
+  const handleSearchTermChange = useCallback((term: string) => {
+    setSearchTerm(term);
+    setPage(0);
+  }, []);
+
+  const handleClearQuery = () => {
+    handleFiltersChange([]);
+    handleSearchTermChange('');
+  };
+
+  const handleSearch = (newFilters: FilterNode[]) => {
+    handleFiltersChange(newFilters);
     setActiveTab('table'); // Switch to table view to show results
   };
 
@@ -125,22 +1017,67 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
     if (!schema) {
         return <div className="text-center p-16 text-slate-400">Could not load table schema.</div>;
     }
+    // The table and gallery keep showing the previous results while the next ones load, so their search box keeps focus.
+    if (activeTab !== 'table' && activeTab !== 'gallery' && loadedQuery !== recordQuery && !recordsError) {
+        return <div className="flex items-center justify-center p-16"><Spinner /></div>;
+    }
 
     switch (activeTab) {
       case 'table':
         return <TableView 
+            tableName={selectedTable}
             schema={schema} 
+            relationLabels={relationLabels}
             records={records}
+            totalCount={totalCount}
+            isLoadingRecords={isLoadingRecords}
             filters={filters}
-            onFiltersChange={setFilters}
+            onFiltersChange={handleFiltersChange}
+            sort={sort}
+            onSortChange={handleSortChange}
+            searchTerm={searchTerm}
+            onSearchTermChange={handleSearchTermChange}
+            columnLayout={columnLayout}
+            onColumnLayoutChange={handleColumnLayoutChange}
+            grouping={grouping}
+            onGroupingChange={handleGroupingChange}
+            page={page}
+            pageSize={apiService.DEFAULT_PAGE_SIZE}
+            onPageChange={setPage}
+            onFetchAllMatching={fetchAllMatchingRecords}
+            remotelyChangedIds={remotelyChangedIds}
             onUpdateRecord={handleUpdateRecord}
+            onUpdateCell={handleUpdateCell}
             onCreateRecord={handleCreateRecord}
             onDeleteRecord={handleDeleteRecord}
+            onBulkUpdate={handleBulkUpdate}
+            onBulkDelete={handleBulkDelete}
+            onBulkDuplicate={handleBulkDuplicate}
+            onImportRecords={handleImportRecords}
         />;
       case 'kanban':
-        return <KanbanView schema={schema} records={records} onUpdateRecord={handleUpdateRecord} />;
+        return <KanbanView schema={schema} records={records} relationLabels={relationLabels} remotelyChangedIds={remotelyChangedIds} onUpdateRecord={handleUpdateRecord} onCreateRecord={handleCreateRecord} config={kanbanConfig} onConfigChange={handleKanbanConfigChange} />;
+      case 'calendar':
+        return <CalendarView tableName={selectedTable} schema={schema} records={records} relationLabels={relationLabels} remotelyChangedIds={remotelyChangedIds} onUpdateRecord={handleUpdateRecord} onCreateRecord={handleCreateRecord} />;
+      case 'timeline':
+        return <TimelineView tableName={selectedTable} schema={schema} records={records} relationLabels={relationLabels} remotelyChangedIds={remotelyChangedIds} onUpdateRecord={handleUpdateRecord} onCreateRecord={handleCreateRecord} />;
+      case 'gallery':
+        return <GalleryView
+            tableName={selectedTable}
+            schema={schema}
+            records={records}
+            isLoadingRecords={isLoadingRecords}
+            relationLabels={relationLabels}
+            remotelyChangedIds={remotelyChangedIds}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            searchTerm={searchTerm}
+            onSearchTermChange={handleSearchTermChange}
+            onUpdateRecord={handleUpdateRecord}
+            onCreateRecord={handleCreateRecord}
+        />;
       case 'analytics':
-        return <AnalyticsView schema={schema} records={records} />;
+        return <AnalyticsView schema={schema} records={records} onConfigChange={setChartConfig} />;
       default:
         return null;
     }
@@ -166,7 +1103,7 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
                      <Menu.Item key={table}>
                       {({ active }) => (
                         <button
-                          onClick={() => setSelectedTable(table)}
+                          onClick={() => handleSelectTable(table)}
                           className={`${
                             active ? 'bg-slate-700 text-white' : 'text-slate-300'
                           } group flex w-full items-center rounded-md px-4 py-2 text-sm`}
@@ -179,16 +1116,87 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
                 </div>
               </Menu.Items>
             </Menu>
-            <p className="text-sm text-slate-400 capitalize">Your AI-powered data workspace.</p>
+            <SavedViewsMenu
+              views={savedViews}
+              activeView={activeView}
+              isModified={isViewModified}
+              onSelectView={handleSelectView}
+              onSaveChanges={handleSaveViewChanges}
+              onSaveAsNew={handleSaveViewAsNew}
+              onRename={handleRenameView}
+              onToggleDefault={handleToggleDefaultView}
+              onDelete={handleDeleteView}
+            />
           </div>
         </div>
         <div className="flex items-center space-x-2">
-           <Button onClick={onLogout} variant="secondary" size="sm">
+           {(isOffline || pendingSyncCount > 0) && (
+             <span
+               className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border ${
+                 isOffline ? 'border-amber-500/40 bg-amber-500/10 text-amber-300' : 'border-emerald-500/40 bg-emerald-500/10 text-emerald-300'
+               }`}
+               role="status"
+             >
+               <span className={`h-2 w-2 rounded-full ${isOffline ? 'bg-amber-400' : 'bg-emerald-400 animate-pulse'}`} />
+               {isOffline ? 'Offline' : isSyncing ? 'Syncing' : 'Online'}
+               {pendingSyncCount > 0 && ` · ${pendingSyncCount} ${pendingSyncCount === 1 ? 'change' : 'changes'} waiting to sync`}
+             </span>
+           )}
+           <Button
+             onClick={() => handleUndo()}
+             variant="secondary"
+             size="sm"
+             disabled={undoStack.length === 0}
+             title={undoStack.length > 0 ? `Undo ${HISTORY_LABELS[undoStack[undoStack.length - 1].kind]} (Ctrl+Z)` : 'Nothing to undo'}
+             aria-label="Undo"
+           >
+             <UndoIcon className="h-4 w-4" />
+           </Button>
+           <Button
+             onClick={handleRedo}
+             variant="secondary"
+             size="sm"
+             disabled={redoStack.length === 0}
+             title={redoStack.length > 0 ? `Redo ${HISTORY_LABELS[redoStack[redoStack.length - 1].kind]} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+             aria-label="Redo"
+           >
+             <RedoIcon className="h-4 w-4" />
+           </Button>
+           <Button onClick={() => setIsSchemaEditorOpen(true)} variant="secondary" size="sm" disabled={!schema}>
+             <TableIcon className="h-4 w-4 mr-2" /> Edit Schema
+           </Button>
+           <Button onClick={() => setIsColumnSettingsOpen(true)} variant="secondary" size="sm" disabled={!schema}>
+             <DiagramIcon className="h-4 w-4 mr-2" /> Columns
+           </Button>
+           <Button onClick={handleLogout} variant="secondary" size="sm">
              <LogoutIcon className="h-4 w-4 mr-2" /> Logout
            </Button>
         </div>
       </header>
 
+      {syncConflicts.length > 0 && (
+        <div className="mb-6 p-4 rounded-lg border border-amber-500/40 bg-amber-500/10 text-sm text-amber-200">
+          <div className="flex items-start justify-between gap-3">
+            <p className="font-semibold">
+              {syncConflicts.length} {syncConflicts.length === 1 ? 'change' : 'changes'} made offline could not be synced:
+            </p>
+            <button onClick={() => setSyncConflicts([])} className="text-slate-400 hover:text-white" aria-label="Dismiss sync conflicts">
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {syncConflicts.map(({ entry, message }) => (
+              <li key={entry.id}>
+                <span className="text-amber-300">
+                  {entry.kind === 'create' ? 'New record' : <>Record <code>{entry.recordKey}</code></>} in <code>{entry.tableName}</code>
+                </span>{' '}
+                ({new Date(entry.queuedAt).toLocaleString()}): {message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="flex items-center border-b border-slate-700 mb-6">
         <TabButton active={activeTab === 'table'} onClick={() => setActiveTab('table')}>
             <TableIcon className="h-5 w-5" /> Table View
@@ -196,6 +1204,15 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
         <TabButton active={activeTab === 'kanban'} onClick={() => setActiveTab('kanban')}>
             <KanbanIcon className="h-5 w-5" /> Kanban View
         </TabButton>
+        <TabButton active={activeTab === 'calendar'} onClick={() => setActiveTab('calendar')}>
+            <CalendarIcon className="h-5 w-5" /> Calendar
+        </TabButton>
+        <TabButton active={activeTab === 'timeline'} onClick={() => setActiveTab('timeline')}>
+            <TimelineIcon className="h-5 w-5" /> Timeline
+        </TabButton>
+        <TabButton active={activeTab === 'gallery'} onClick={() => setActiveTab('gallery')}>
+            <GalleryIcon className="h-5 w-5" /> Gallery
+        </TabButton>
         <TabButton active={activeTab === 'analytics'} onClick={() => setActiveTab('analytics')}>
             <AnalyticsIcon className="h-5 w-5" /> Analytics
         </TabButton>
@@ -207,6 +1224,14 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
                 <div className="absolute inset-0 bg-[conic-gradient(from_90deg_at_50%_50%,#059669_0%,#0284c7_50%,#059669_100%)] opacity-20 animate-spin-slow"></div>
             </div>
             <div className="relative z-10">
+                {recordsError && !isLoading && !error && (
+                    <div className="mb-4 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-sm text-red-300 flex items-center justify-between gap-3">
+                        <span>{recordsError}</span>
+                        {(filters.length > 0 || searchTerm) && (
+                            <Button onClick={handleClearQuery} variant="secondary" size="sm">Clear search and filters</Button>
+                        )}
+                    </div>
+                )}
                 {renderContent()}
             </div>
        </div>
@@ -219,11 +1244,32 @@ const DataWorkspace: React.FC<DataWorkspaceProps> = ({ tables, onLogout }) => {
           onCreateRecord={handleCreateRecord}
           onUpdateRecord={handleUpdateRecord}
           onDeleteRecord={handleDeleteRecord}
+          undoableEntryIds={undoStack.map(entry => entry.id)}
+          onUndo={handleUndo}
           onSearch={handleSearch}
           onGenerateChart={setChartModalData}
         />
        )}
 
+       {schema && (
+        <ColumnSettingsModal
+            isOpen={isColumnSettingsOpen}
+            schema={schema}
+            onClose={() => setIsColumnSettingsOpen(false)}
+            onSave={handleSaveColumnSettings}
+        />
+       )}
+
+       {isSchemaEditorOpen && schema && (
+        <SchemaEditorPanel
+            tableName={selectedTable}
+            schema={schema}
+            dependencies={columnDependencies}
+            onClose={() => setIsSchemaEditorOpen(false)}
+            onApply={handleApplySchemaChanges}
+        />
+       )}
+
        {chartModalData && (
         <ChartModal
             chartData={chartModalData}
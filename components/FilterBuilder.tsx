@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import type { DatabaseSchema, ColumnDefinition, Filter, FilterGroup, FilterNode, FilterOperator } from '../types';
+import { getFilterOperators, getOperatorLabel, needsFilterValue, isFilterGroup, getFilterValues, getBetweenBounds, isCompleteFilter, getFilterError, pruneFilterNodes } from '../services/filters';
+import Button from './common/Button';
+import Input from './common/Input';
+import RelationPicker from './RelationPicker';
+import PlusIcon from './icons/PlusIcon';
+import CloseIcon from './icons/CloseIcon';
+
+interface FilterBuilderProps {
+  schema: DatabaseSchema;
+  filters: FilterNode[];
+  onApply: (filters: FilterNode[]) => void;
+}
+
+const selectClassName = "bg-slate-900 border border-slate-600 rounded-md p-2 text-sm";
+const inputClassName = "!py-2 !px-3 text-sm";
+
+// The applied filters are a list that must all match; a single OR group stands for "match any".
+const toRootGroup = (filters: FilterNode[]): FilterGroup =>
+    filters.length === 1 && isFilterGroup(filters[0]) ? filters[0] : { combinator: 'AND', filters };
+
+const fromRootGroup = (root: FilterGroup, schema: DatabaseSchema): FilterNode[] => {
+    const filters = pruneFilterNodes(root.filters, schema);
+    return root.combinator === 'OR' && filters.length > 1 ? [{ combinator: 'OR', filters }] : filters;
+};
+
+// Why a finished condition can't be applied; unfinished ones are simply left out.
+const getConditionError = (filter: Filter, schema: DatabaseSchema): string | null =>
+    isCompleteFilter(filter) ? getFilterError(filter, schema.find(col => col.id === filter.columnId)) : null;
+
+const hasConditionErrors = (nodes: FilterNode[], schema: DatabaseSchema): boolean =>
+    nodes.some(node => isFilterGroup(node) ? hasConditionErrors(node.filters, schema) : !!getConditionError(node, schema));
+
+const getInitialValue = (operator: FilterOperator, column: ColumnDefinition | undefined): any => {
+    if (operator === 'BETWEEN') return ['', ''];
+    if (operator === 'IN') return [];
+    if (operator === 'IN_LAST_DAYS' || operator === 'IN_NEXT_DAYS') return 7;
+    // The yes/no picker has no empty choice.
+    return column?.type === 'boolean' ? 'true' : '';
+};
+
+const createCondition = (column: ColumnDefinition | undefined): Filter => {
+    const operator = column ? getFilterOperators(column)[0] : 'EQUALS';
+    return { columnId: column?.id || '', operator, value: getInitialValue(operator, column) };
+};
+
+const ConditionValueInput: React.FC<{ filter: Filter; column: ColumnDefinition; onChange: (value: any) => void }> = ({ filter, column, onChange }) => {
+    const inputType = column.type === 'number' ? 'number' : column.type === 'date' ? 'date' : 'text';
+
+    switch (filter.operator) {
+        case 'IN_LAST_DAYS':
+        case 'IN_NEXT_DAYS':
+            return (
+                <div className="flex items-center gap-2">
+                    <Input type="number" min={1} value={filter.value ?? ''} onChange={e => onChange(e.target.value)} className={`${inputClassName} !w-20`} aria-label="Number of days" />
+                    <span className="text-sm text-slate-400">days</span>
+                </div>
+            );
+        case 'BETWEEN': {
+            const [from, to] = getBetweenBounds(filter);
+            return (
+                <div className="flex items-center gap-2">
+                    <Input type={inputType} value={from} onChange={e => onChange([e.target.value, to])} className={inputClassName} aria-label="From" />
+                    <span className="text-sm text-slate-400">and</span>
+                    <Input type={inputType} value={to} onChange={e => onChange([from, e.target.value])} className={inputClassName} aria-label="To" />
+                </div>
+            );
+        }
+        case 'IN': {
+            const values = getFilterValues(filter);
+            if (column.type === 'select' && column.options?.length) {
+                const toggle = (option: string) => onChange(values.includes(option) ? values.filter(v => v !== option) : [...values, option]);
+                return (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {column.options.map(option => (
+                            <label key={option} className="flex items-center gap-1.5 text-sm text-slate-300">
+                                <input
+                                    type="checkbox"
+                                    checked={values.includes(option)}
+                                    onChange={() => toggle(option)}
+                                    className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                />
+                                {option}
+                            </label>
+                        ))}
+                    </div>
+                );
+            }
+            return (
+                <Input
+                    type="text"
+                    placeholder="Values, separated by commas"
+                    value={Array.isArray(filter.value) ? filter.value.join(', ') : filter.value ?? ''}
+                    onChange={e => onChange(e.target.value)}
+                    className={inputClassName}
+                    aria-label="Values"
+                />
+            );
+        }
+        default:
+            break;
+    }
+
+    if (column.type === 'boolean') {
+        return (
+            <select value={String(filter.value) === 'false' ? 'false' : 'true'} onChange={e => onChange(e.target.value)} className={selectClassName} aria-label="Value">
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+            </select>
+        );
+    }
+    if (column.type === 'select' && column.options?.length) {
+        return (
+            <select value={filter.value ?? ''} onChange={e => onChange(e.target.value)} className={selectClassName} aria-label="Value">
+                <option value="" disabled>Choose...</option>
+                {column.options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+        );
+    }
+    if (column.type === 'relation') {
+        return <RelationPicker id={`filter-value-${column.id}`} column={column} value={filter.value} onChange={value => onChange(value ?? '')} />;
+    }
+    return <Input type={inputType} placeholder="Value..." value={filter.value ?? ''} onChange={e => onChange(e.target.value)} className={inputClassName} aria-label="Value" />;
+};
+
+const ConditionEditor: React.FC<{ schema: DatabaseSchema; filter: Filter; onChange: (filter: Filter) => void; onRemove: () => void }> = ({ schema, filter, onChange, onRemove }) => {
+    const column = schema.find(col => col.id === filter.columnId);
+    // Filters from elsewhere, e.g. a saved view, may use an operator the builder wouldn't offer; keep it selectable.
+    const operators = column && !getFilterOperators(column).includes(filter.operator)
+        ? [...getFilterOperators(column), filter.operator]
+        : column ? getFilterOperators(column) : [filter.operator];
+    const error = getConditionError(filter, schema);
+
+    const handleColumnChange = (columnId: string) => {
+        const next = schema.find(col => col.id === columnId);
+        if (!next) return;
+        const operator = getFilterOperators(next).includes(filter.operator) ? filter.operator : getFilterOperators(next)[0];
+        onChange({ columnId, operator, value: getInitialValue(operator, next) });
+    };
+
+    // Single values carry over between operators that take one; lists, ranges and day counts start afresh.
+    const handleOperatorChange = (operator: FilterOperator) => {
+        const takesSingleValue = (op: FilterOperator) => typeof getInitialValue(op, column) === 'string';
+        onChange({ ...filter, operator, value: takesSingleValue(operator) && takesSingleValue(filter.operator) ? filter.value : getInitialValue(operator, column) });
+    };
+
+    return (
+        <div className="flex flex-wrap items-start gap-2">
+            <select value={filter.columnId} onChange={e => handleColumnChange(e.target.value)} className={selectClassName} aria-label="Column">
+                {schema.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+            </select>
+            <select value={filter.operator} onChange={e => handleOperatorChange(e.target.value as FilterOperator)} className={selectClassName} aria-label="Operator">
+                {operators.map(operator => <option key={operator} value={operator}>{getOperatorLabel(operator, column)}</option>)}
+            </select>
+            {column && needsFilterValue(filter.operator) && (
+                <div className="flex-1 min-w-[160px]">
+                    <ConditionValueInput filter={filter} column={column} onChange={value => onChange({ ...filter, value })} />
+                </div>
+            )}
+            <button onClick={onRemove} className="p-2 text-slate-400 hover:text-red-400" aria-label="Remove condition"><CloseIcon className="w-4 h-4" /></button>
+            {error && <p className="w-full text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+const GroupEditor: React.FC<{ schema: DatabaseSchema; group: FilterGroup; isRoot: boolean; onChange: (group: FilterGroup) => void; onRemove?: () => void }> = ({ schema, group, isRoot, onChange, onRemove }) => {
+    const updateNode = (index: number, node: FilterNode) => onChange({ ...group, filters: group.filters.map((other, i) => i === index ? node : other) });
+    const removeNode = (index: number) => onChange({ ...group, filters: group.filters.filter((_, i) => i !== index) });
+    const addNode = (node: FilterNode) => onChange({ ...group, filters: [...group.filters, node] });
+
+    return (
+        <div className={isRoot ? 'space-y-3' : 'space-y-3 p-3 border border-slate-700 rounded-lg bg-slate-900/40'}>
+            <div className="flex items-center justify-between gap-2 text-sm text-slate-300">
+                <span className="flex items-center gap-2">
+                    Match
+                    <select value={group.combinator} onChange={e => onChange({ ...group, combinator: e.target.value as FilterGroup['combinator'] })} className={selectClassName} aria-label="Combine conditions with">
+                        <option value="AND">all</option>
+                        <option value="OR">any</option>
+                    </select>
+                    of these conditions
+                </span>
+                {onRemove && <button onClick={onRemove} className="p-1 text-slate-400 hover:text-red-400" aria-label="Remove group"><CloseIcon className="w-4 h-4" /></button>}
+            </div>
+            {group.filters.map((node, index) => isFilterGroup(node) ? (
+                <GroupEditor key={index} schema={schema} group={node} isRoot={false} onChange={next => updateNode(index, next)} onRemove={() => removeNode(index)} />
+            ) : (
+                <ConditionEditor key={index} schema={schema} filter={node} onChange={next => updateNode(index, next)} onRemove={() => removeNode(index)} />
+            ))}
+            <div className="flex gap-3 text-sm">
+                <button onClick={() => addNode(createCondition(schema[0]))} className="flex items-center gap-1 text-emerald-400 hover:text-emerald-300">
+                    <PlusIcon className="w-4 h-4" /> Add condition
+                </button>
+                {/* One level of nesting covers "this and (that or that)" without the builder becoming hard to read. */}
+                {isRoot && (
+                    <button onClick={() => addNode({ combinator: group.combinator === 'AND' ? 'OR' : 'AND', filters: [createCondition(schema[0])] })} className="flex items-center gap-1 text-emerald-400 hover:text-emerald-300">
+                        <PlusIcon className="w-4 h-4" /> Add group
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Edits a copy of the filters so the table only re-queries when the user applies them.
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ schema, filters, onApply }) => {
+    const [draft, setDraft] = useState<FilterGroup>(() => {
+        const root = toRootGroup(filters);
+        return root.filters.length > 0 ? root : { ...root, filters: [createCondition(schema[0])] };
+    });
+
+    return (
+        <div className="space-y-4">
+            <GroupEditor schema={schema} group={draft} isRoot onChange={setDraft} />
+            <div className="flex justify-end gap-2 pt-3 border-t border-slate-700">
+                <Button onClick={() => setDraft({ combinator: 'AND', filters: [] })} size="sm" variant="secondary">Clear</Button>
+                <Button onClick={() => onApply(fromRootGroup(draft, schema))} size="sm" disabled={hasConditionErrors(draft.filters, schema)}>Apply Filters</Button>
+            </div>
+        </div>
+    );
+};
+
+export default FilterBuilder;
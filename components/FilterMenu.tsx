@@ -0,0 +1,49 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { DatabaseSchema, FilterNode } from '../types';
+import { countFilterConditions } from '../services/filters';
+import Button from './common/Button';
+import FilterBuilder from './FilterBuilder';
+import FilterIcon from './icons/FilterIcon';
+
+interface FilterMenuProps {
+  schema: DatabaseSchema;
+  filters: FilterNode[];
+  onFiltersChange: (filters: FilterNode[]) => void;
+}
+
+// The Filter button and the builder it opens.
+const FilterMenu: React.FC<FilterMenuProps> = ({ schema, filters, onFiltersChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+
+    const handleApply = (newFilters: FilterNode[]) => {
+        onFiltersChange(newFilters);
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <Button onClick={() => setIsOpen(prev => !prev)} variant="secondary" size="sm" className="!py-2">
+                <FilterIcon className="h-4 w-4 mr-2"/> Filter
+                {filters.length > 0 && <span className="ml-1 text-xs text-emerald-300">({countFilterConditions(filters)})</span>}
+            </Button>
+            {isOpen && (
+                <div className="absolute top-full mt-2 w-[36rem] max-w-[90vw] bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 z-20">
+                    <FilterBuilder schema={schema} filters={filters} onApply={handleApply} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FilterMenu;
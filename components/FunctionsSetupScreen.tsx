@@ -3,38 +3,13 @@ import Button from './common/Button';
 import LogoIcon from './icons/LogoIcon';
 import CopyIcon from './icons/CopyIcon';
 import CheckIcon from './icons/CheckIcon';
+import { HELPER_FUNCTIONS_SQL } from '../services/setupSql';
 
 interface FunctionsSetupScreenProps {
   onConfirm: () => void;
   onLogout: () => void;
 }
 
-const HELPER_FUNCTIONS_SQL = `-- Helper 1: Function to execute raw SQL
-CREATE OR REPLACE FUNCTION public.execute_sql(sql_query text)
-RETURNS void LANGUAGE plpgsql AS $$
-BEGIN
-  EXECUTE sql_query;
-END;
-$$;
-
--- Helper 2: Function to list all user-created tables
-CREATE OR REPLACE FUNCTION public.list_all_tables()
-RETURNS TABLE(schema text, name text)
-LANGUAGE sql AS $$
-  SELECT table_schema, table_name
-  FROM information_schema.tables
-  WHERE table_schema NOT IN ('pg_catalog', 'information_schema', 'storage', 'graphql', 'graphql_public', 'realtime') AND table_type = 'BASE TABLE';
-$$;
-
--- Helper 3: Function to get the schema of a specific table
-CREATE OR REPLACE FUNCTION public.get_table_schema(table_name_arg text)
-RETURNS TABLE(column_name text, data_type text)
-LANGUAGE sql AS $$
-  SELECT column_name, data_type
-  FROM information_schema.columns
-  WHERE table_name = table_name_arg;
-$$;`;
-
 const FunctionsSetupScreen: React.FC<FunctionsSetupScreenProps> = ({ onConfirm, onLogout }) => {
     const [copied, setCopied] = useState(false);
 
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Popover } from '@headlessui/react';
+import type { DatabaseSchema, GalleryConfig } from '../types';
+import { getDefaultGalleryConfig } from '../services/galleryConfig';
+import Button from './common/Button';
+import EyeIcon from './icons/EyeIcon';
+
+interface GalleryCardMenuProps {
+  schema: DatabaseSchema;
+  config: GalleryConfig;
+  onChange: (config: GalleryConfig) => void;
+}
+
+const selectClassName = "flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-md p-2 text-sm";
+
+// Picks the columns shown on gallery cards: a title, a subtitle, a cover image and any number of details.
+const GalleryCardMenu: React.FC<GalleryCardMenuProps> = ({ schema, config, onChange }) => {
+    const columnSelect = (label: string, key: 'titleColumnId' | 'subtitleColumnId' | 'coverColumnId', columns: DatabaseSchema) => (
+        <div className="flex items-center gap-2">
+            <label htmlFor={`gallery-${key}`} className="w-20 text-sm text-slate-300">{label}</label>
+            <select
+                id={`gallery-${key}`}
+                value={config[key] ?? ''}
+                onChange={e => onChange({ ...config, [key]: e.target.value || null })}
+                className={selectClassName}
+            >
+                <option value="">None</option>
+                {columns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+            </select>
+        </div>
+    );
+
+    const toggleDetail = (columnId: string) => {
+        const isShown = config.detailColumnIds.includes(columnId);
+        onChange({
+            ...config,
+            detailColumnIds: isShown ? config.detailColumnIds.filter(id => id !== columnId) : [...config.detailColumnIds, columnId],
+        });
+    };
+
+    return (
+        <Popover className="relative">
+            <Popover.Button as={Button} variant="secondary" size="sm" className="!py-2">
+                <EyeIcon className="h-4 w-4 mr-2" /> Card fields
+            </Popover.Button>
+            <Popover.Panel className="absolute top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 z-30 space-y-3">
+                {columnSelect('Title', 'titleColumnId', schema)}
+                {columnSelect('Subtitle', 'subtitleColumnId', schema)}
+                {columnSelect('Cover image', 'coverColumnId', schema.filter(col => col.type === 'string'))}
+                <div>
+                    <p className="text-sm text-slate-300 mb-1">Details</p>
+                    <ul className="max-h-48 overflow-y-auto">
+                        {schema.map(col => (
+                            <li key={col.id} className="flex items-center gap-2 px-1 py-1">
+                                <input
+                                    id={`gallery-detail-${col.id}`}
+                                    type="checkbox"
+                                    checked={config.detailColumnIds.includes(col.id)}
+                                    onChange={() => toggleDetail(col.id)}
+                                    className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                />
+                                <label htmlFor={`gallery-detail-${col.id}`} className="flex-1 text-sm text-slate-200 truncate">{col.name}</label>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <p className="text-xs text-slate-500">The cover column should hold image links (http or https).</p>
+                <button onClick={() => onChange(getDefaultGalleryConfig(schema))} className="w-full pt-2 border-t border-slate-700 text-xs text-slate-400 hover:text-white">
+                    Reset to suggested fields
+                </button>
+            </Popover.Panel>
+        </Popover>
+    );
+};
+
+export default GalleryCardMenu;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import type { DatabaseSchema, Record, RecordKey, ColumnDefinition, FilterNode, GalleryConfig } from '../types';
+import { getRecordKey } from '../services/recordKeys';
+import { formatCellValue } from '../services/cellFormat';
+import type { RelationLabels } from '../services/cellFormat';
+import { getStoredGalleryConfig, storeGalleryConfig, isImageUrl } from '../services/galleryConfig';
+import { useWindowedList } from './common/useWindowedList';
+import SearchBox from './SearchBox';
+import FilterMenu from './FilterMenu';
+import ActiveFilters from './ActiveFilters';
+import GalleryCardMenu from './GalleryCardMenu';
+import RecordEditorModal from './RecordEditorModal';
+
+interface GalleryViewProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  records: Record[]; // Every record matching the filters and search
+  isLoadingRecords: boolean;
+  relationLabels: RelationLabels;
+  remotelyChangedIds: Set<string>; // Cards recently changed by another user
+  filters: FilterNode[];
+  onFiltersChange: (filters: FilterNode[]) => void;
+  searchTerm: string;
+  onSearchTermChange: (searchTerm: string) => void;
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+}
+
+const MIN_CARD_WIDTH = 240;
+const CARD_GAP = 16;
+// A card with a cover, title, subtitle and a few details; the real height is measured once cards render.
+const ESTIMATED_ROW_HEIGHT = 320;
+
+// Shows records as cards in a responsive grid, each with an optional cover image.
+const GalleryView: React.FC<GalleryViewProps> = ({
+    tableName, schema, records, isLoadingRecords, relationLabels, remotelyChangedIds, filters, onFiltersChange, searchTerm, onSearchTermChange, onUpdateRecord, onCreateRecord
+}) => {
+    const [config, setConfig] = useState<GalleryConfig>(() => getStoredGalleryConfig(tableName, schema));
+    const [editingRecord, setEditingRecord] = useState<Record | null>(null);
+    const [columnCount, setColumnCount] = useState(1);
+    const [brokenImages, setBrokenImages] = useState<Set<string>>(new Set());
+    const gridRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setConfig(getStoredGalleryConfig(tableName, schema));
+    }, [tableName, schema]);
+
+    // As many cards per row as fit at their minimum width.
+    useLayoutEffect(() => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setColumnCount(Math.max(1, Math.floor((entry.contentRect.width + CARD_GAP) / (MIN_CARD_WIDTH + CARD_GAP))));
+        });
+        observer.observe(grid);
+        return () => observer.disconnect();
+    }, []);
+
+    // Cards are windowed a row at a time, so catalogs of thousands scroll smoothly.
+    const rowCount = Math.ceil(records.length / columnCount);
+    const rowWindow = useWindowedList(gridRef, rowCount, ESTIMATED_ROW_HEIGHT);
+
+    const handleConfigChange = (newConfig: GalleryConfig) => {
+        setConfig(newConfig);
+        storeGalleryConfig(tableName, newConfig);
+    };
+
+    const findColumn = (columnId: string | null) => schema.find(col => col.id === columnId);
+    const titleColumn = findColumn(config.titleColumnId);
+    const subtitleColumn = findColumn(config.subtitleColumnId);
+    const coverColumn = findColumn(config.coverColumnId);
+    const detailColumns = config.detailColumnIds.map(findColumn).filter(Boolean) as ColumnDefinition[];
+
+    // Empty values are left off the card rather than shown as 'N/A'.
+    const renderValue = (record: Record, column: ColumnDefinition | undefined): string | null => {
+        if (!column) return null;
+        const value = record[column.id];
+        if (value === null || value === undefined || value === '') return null;
+        return formatCellValue(record, column, relationLabels);
+    };
+
+    const renderCard = (record: Record) => {
+        const recordKey = getRecordKey(record, schema);
+        const isRemotelyChanged = remotelyChangedIds.has(recordKey);
+        const cover = coverColumn ? record[coverColumn.id] : null;
+        const hasCover = isImageUrl(cover) && !brokenImages.has(cover);
+        return (
+            <button
+                key={recordKey}
+                onClick={() => setEditingRecord(record)}
+                className={`relative flex flex-col text-left bg-slate-800 rounded-lg shadow-md border overflow-hidden hover:border-emerald-500/60 transition-colors ${isRemotelyChanged ? 'border-sky-500/60' : 'border-slate-700'}`}
+                title={isRemotelyChanged ? 'Updated by someone else' : undefined}
+            >
+                {isRemotelyChanged && (
+                    <span className="absolute top-3 right-3 z-10 h-2 w-2 rounded-full bg-sky-400 animate-pulse" aria-label="Updated by someone else" />
+                )}
+                {coverColumn && (
+                    <div className="h-40 w-full bg-slate-900/60 flex items-center justify-center">
+                        {hasCover ? (
+                            <img
+                                src={cover}
+                                alt=""
+                                loading="lazy"
+                                onError={() => setBrokenImages(prev => new Set(prev).add(cover))}
+                                className="h-full w-full object-cover"
+                            />
+                        ) : (
+                            <span className="text-xs text-slate-600">No image</span>
+                        )}
+                    </div>
+                )}
+                <div className="p-4 w-full min-w-0">
+                    <h4 className="font-bold text-slate-100 truncate">{renderValue(record, titleColumn) ?? 'Untitled'}</h4>
+                    {subtitleColumn && <p className="text-sm text-emerald-300/80 truncate h-5">{renderValue(record, subtitleColumn)}</p>}
+                    <div className="mt-2 space-y-1">
+                        {detailColumns.map(col => (
+                            <div key={col.id} className="text-xs text-slate-400 truncate h-4">
+                                <span className="font-semibold text-slate-500">{col.name}: </span>{renderValue(record, col) ?? '–'}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </button>
+        );
+    };
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between mb-4 gap-4">
+                <div className="flex flex-1 items-center gap-2 min-w-[200px]">
+                    <SearchBox searchTerm={searchTerm} onSearchTermChange={onSearchTermChange} />
+                    <FilterMenu schema={schema} filters={filters} onFiltersChange={onFiltersChange} />
+                    <GalleryCardMenu schema={schema} config={config} onChange={handleConfigChange} />
+                </div>
+                <span className="text-sm text-slate-400">{records.length.toLocaleString()} {records.length === 1 ? 'record' : 'records'}</span>
+            </div>
+            <ActiveFilters schema={schema} filters={filters} onFiltersChange={onFiltersChange} />
+
+            {records.length === 0 && (
+                <div className="text-center py-16 text-slate-400">
+                    {filters.length > 0 || searchTerm ? 'No records match the current filters.' : 'Add some records to see them in the gallery.'}
+                </div>
+            )}
+            <div
+                ref={gridRef}
+                className={`transition-opacity ${isLoadingRecords ? 'opacity-60' : ''}`}
+                style={{ paddingTop: rowWindow.paddingTop, paddingBottom: rowWindow.paddingBottom }}
+            >
+                {Array.from({ length: rowWindow.end - rowWindow.start }, (_, index) => {
+                    const row = rowWindow.start + index;
+                    // The gap is part of each row so that it is measured with the row.
+                    return (
+                        <div
+                            key={row}
+                            ref={rowWindow.measureRef(row)}
+                            className="grid"
+                            style={{ gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`, gap: CARD_GAP, paddingBottom: CARD_GAP }}
+                        >
+                            {records.slice(row * columnCount, (row + 1) * columnCount).map(renderCard)}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <RecordEditorModal
+                isOpen={editingRecord !== null}
+                tableName={tableName}
+                schema={schema}
+                record={editingRecord}
+                recordKey={editingRecord && getRecordKey(editingRecord, schema)}
+                relationLabels={relationLabels}
+                onClose={() => setEditingRecord(null)}
+                onUpdateRecord={onUpdateRecord}
+                onCreateRecord={onCreateRecord}
+            />
+        </div>
+    );
+};
+
+export default GalleryView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Popover } from '@headlessui/react';
+import type { DatabaseSchema, RecordGrouping } from '../types';
+import { getGroupColumns, MAX_GROUP_LEVELS } from '../services/grouping';
+import Button from './common/Button';
+import GroupIcon from './icons/GroupIcon';
+
+interface GroupByMenuProps {
+  schema: DatabaseSchema;
+  grouping: RecordGrouping;
+  onChange: (grouping: RecordGrouping) => void;
+}
+
+const LEVEL_LABELS = ['Group by', 'Then by'];
+
+const selectClassName = "flex-1 bg-slate-900 border border-slate-600 rounded-md p-2 text-sm disabled:opacity-50";
+
+// Picks up to two columns to group the table by, and whether to show totals without grouping.
+const GroupByMenu: React.FC<GroupByMenuProps> = ({ schema, grouping, onChange }) => {
+    const groupColumnIds = getGroupColumns(schema, grouping).map(col => col.id);
+
+    // Clearing a level also clears the ones inside it.
+    const setLevel = (level: number, columnId: string) => {
+        const groupBy = groupColumnIds.slice(0, level);
+        onChange({ ...grouping, groupBy: columnId ? [...groupBy, columnId] : groupBy });
+    };
+
+    return (
+        <Popover className="relative">
+            <Popover.Button as={Button} variant="secondary" size="sm" className="!py-2">
+                <GroupIcon className="h-4 w-4 mr-2" /> Group
+                {groupColumnIds.length > 0 && <span className="ml-1 text-xs text-emerald-300">({groupColumnIds.length})</span>}
+            </Popover.Button>
+            <Popover.Panel className="absolute top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 z-30 space-y-3">
+                {Array.from({ length: MAX_GROUP_LEVELS }, (_, level) => (
+                    <div key={level} className="flex items-center gap-2">
+                        <label htmlFor={`group-by-${level}`} className="w-16 text-sm text-slate-300">{LEVEL_LABELS[level]}</label>
+                        <select
+                            id={`group-by-${level}`}
+                            value={groupColumnIds[level] ?? ''}
+                            onChange={e => setLevel(level, e.target.value)}
+                            disabled={level > groupColumnIds.length}
+                            className={selectClassName}
+                        >
+                            <option value="">None</option>
+                            {schema
+                                .filter(col => !groupColumnIds.slice(0, level).includes(col.id))
+                                .map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                        </select>
+                    </div>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={grouping.showTotals || groupColumnIds.length > 0}
+                        onChange={e => onChange({ ...grouping, showTotals: e.target.checked })}
+                        // Grouped tables always end with a totals row.
+                        disabled={groupColumnIds.length > 0}
+                        className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500 disabled:opacity-50"
+                    />
+                    Show totals for all matching records
+                </label>
+                <p className="text-xs text-slate-500">Grouping and totals load every matching record instead of one page.</p>
+            </Popover.Panel>
+        </Popover>
+    );
+};
+
+export default GroupByMenu;
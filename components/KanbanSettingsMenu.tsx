@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Popover } from '@headlessui/react';
+import type { DatabaseSchema, Record, KanbanConfig } from '../types';
+import { generateKanbanConfig } from '../services/geminiService';
+import { getDefaultKanbanConfig, applyGeneratedConfig, getBoardStatuses, isStatusColumnCandidate, isRankColumnCandidate, UNCATEGORIZED_STATUS } from '../services/kanbanConfig';
+import Button from './common/Button';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import SparklesIcon from './icons/SparklesIcon';
+
+interface KanbanSettingsMenuProps {
+  schema: DatabaseSchema;
+  records: Record[];
+  config: KanbanConfig | null;
+  onChange: (config: KanbanConfig) => void;
+}
+
+const selectClassName = "flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-md p-2 text-sm";
+
+// Edits which column splits the board, what cards show, the order and WIP limits of the board's columns,
+// swimlanes and how cards are ordered. The AI can suggest a configuration, but nothing changes until the user asks for one.
+const KanbanSettingsMenu: React.FC<KanbanSettingsMenuProps> = ({ schema, records, config, onChange }) => {
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestError, setSuggestError] = useState<string | null>(null);
+    const statusColumns = schema.filter(col => isStatusColumnCandidate(col, schema));
+    const statusColumn = config && schema.find(col => col.id === config.statusColumnId);
+    const statuses = config && statusColumn
+        ? getBoardStatuses(config, statusColumn, records).filter(status => status !== UNCATEGORIZED_STATUS)
+        : [];
+
+    // A new status column starts in the order of its options, without WIP limits; everything else carries over.
+    const setStatusColumn = (columnId: string) => {
+        const column = schema.find(col => col.id === columnId);
+        if (!column) return;
+        const base = config ?? getDefaultKanbanConfig(schema);
+        onChange({
+            statusColumnId: column.id,
+            cardTitleColumnId: base?.cardTitleColumnId ?? column.id,
+            cardDetailColumnIds: base?.cardDetailColumnIds ?? [],
+            statusColumnOrder: column.options ?? [],
+            swimlaneColumnId: base?.swimlaneColumnId === column.id ? null : base?.swimlaneColumnId ?? null,
+            rankColumnId: base?.rankColumnId ?? null,
+            wipLimits: {},
+        });
+    };
+
+    // An empty or zero limit removes it.
+    const setWipLimit = (status: string, value: string) => {
+        if (!config) return;
+        const { [status]: _removed, ...wipLimits } = config.wipLimits;
+        const limit = Math.floor(Number(value));
+        onChange({ ...config, wipLimits: limit > 0 ? { ...wipLimits, [status]: limit } : wipLimits });
+    };
+
+    const toggleDetail = (columnId: string) => {
+        if (!config) return;
+        const isShown = config.cardDetailColumnIds.includes(columnId);
+        onChange({
+            ...config,
+            cardDetailColumnIds: isShown ? config.cardDetailColumnIds.filter(id => id !== columnId) : [...config.cardDetailColumnIds, columnId],
+        });
+    };
+
+    // The full order is stored once anything moves.
+    const moveStatus = (from: number, to: number) => {
+        if (!config || to < 0 || to >= statuses.length) return;
+        const statusColumnOrder = [...statuses];
+        const [moved] = statusColumnOrder.splice(from, 1);
+        statusColumnOrder.splice(to, 0, moved);
+        onChange({ ...config, statusColumnOrder });
+    };
+
+    const handleSuggest = async () => {
+        setIsSuggesting(true);
+        setSuggestError(null);
+        try {
+            const suggestion = await generateKanbanConfig(schema, records);
+            const isValid = suggestion && statusColumns.some(col => col.id === suggestion.statusColumnId)
+                && schema.some(col => col.id === suggestion.cardTitleColumnId);
+            if (!isValid) throw new Error("Received invalid configuration from AI.");
+            onChange(applyGeneratedConfig(config, {
+                ...suggestion,
+                cardDetailColumnIds: (suggestion.cardDetailColumnIds || []).filter(id => schema.some(col => col.id === id)),
+                statusColumnOrder: suggestion.statusColumnOrder || [],
+            }));
+        } catch (e) {
+            console.error(e);
+            setSuggestError("The AI couldn't suggest a board for this table.");
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    return (
+        <Popover className="relative">
+            <Popover.Button as={Button} variant="secondary" size="sm" className="!py-2">
+                Board settings <ChevronDownIcon className="h-4 w-4 ml-1" />
+            </Popover.Button>
+            <Popover.Panel className="absolute top-full mt-2 w-96 max-w-[90vw] bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 z-30 space-y-4">
+                <div className="flex items-center gap-2">
+                    <label htmlFor="kanban-status-column" className="w-24 text-sm text-slate-300">Columns by</label>
+                    <select id="kanban-status-column" value={statusColumn?.id ?? ''} onChange={e => setStatusColumn(e.target.value)} className={selectClassName}>
+                        {!statusColumn && <option value="">Choose a column...</option>}
+                        {statusColumns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                    </select>
+                </div>
+                {config && statusColumn && (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="kanban-title-column" className="w-24 text-sm text-slate-300">Card title</label>
+                            <select
+                                id="kanban-title-column"
+                                value={config.cardTitleColumnId}
+                                onChange={e => onChange({ ...config, cardTitleColumnId: e.target.value })}
+                                className={selectClassName}
+                            >
+                                {schema.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="kanban-swimlane-column" className="w-24 text-sm text-slate-300">Swimlanes</label>
+                            <select
+                                id="kanban-swimlane-column"
+                                value={config.swimlaneColumnId ?? ''}
+                                onChange={e => onChange({ ...config, swimlaneColumnId: e.target.value || null })}
+                                className={selectClassName}
+                            >
+                                <option value="">None</option>
+                                {schema.filter(col => col.id !== statusColumn.id).map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="kanban-rank-column" className="w-24 text-sm text-slate-300">Order cards by</label>
+                                <select
+                                    id="kanban-rank-column"
+                                    value={config.rankColumnId ?? ''}
+                                    onChange={e => onChange({ ...config, rankColumnId: e.target.value || null })}
+                                    className={selectClassName}
+                                >
+                                    <option value="">Table order</option>
+                                    {schema.filter(col => isRankColumnCandidate(col, schema)).map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                                </select>
+                            </div>
+                            <p className="mt-1 text-xs text-slate-500">A number column that stores each card's position, so cards can be dragged into order.</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-slate-300 mb-1">Card details</p>
+                            <ul className="max-h-36 overflow-y-auto">
+                                {schema.filter(col => col.id !== config.cardTitleColumnId).map(col => (
+                                    <li key={col.id} className="flex items-center gap-2 px-1 py-1">
+                                        <input
+                                            id={`kanban-detail-${col.id}`}
+                                            type="checkbox"
+                                            checked={config.cardDetailColumnIds.includes(col.id)}
+                                            onChange={() => toggleDetail(col.id)}
+                                            className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                        />
+                                        <label htmlFor={`kanban-detail-${col.id}`} className="flex-1 text-sm text-slate-200 truncate">{col.name}</label>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        <div>
+                            <p className="text-sm text-slate-300 mb-1">Column order and WIP limits</p>
+                            {statuses.length === 0 && <p className="text-xs text-slate-500">No {statusColumn.name} values yet.</p>}
+                            <ul className="max-h-48 overflow-y-auto">
+                                {statuses.map((status, index) => (
+                                    <li key={status} className="flex items-center gap-2 px-1 py-1">
+                                        <span className="flex-1 text-sm text-slate-200 truncate">{status}</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={config.wipLimits[status] ?? ''}
+                                            onChange={e => setWipLimit(status, e.target.value)}
+                                            placeholder="No limit"
+                                            className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                                            aria-label={`WIP limit for ${status}`}
+                                        />
+                                        <button onClick={() => moveStatus(index, index - 1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label={`Move ${status} left`}>
+                                            <ChevronDownIcon className="h-4 w-4 rotate-180" />
+                                        </button>
+                                        <button onClick={() => moveStatus(index, index + 1)} disabled={index === statuses.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label={`Move ${status} right`}>
+                                            <ChevronDownIcon className="h-4 w-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </>
+                )}
+                <div className="pt-3 border-t border-slate-700">
+                    <Button onClick={handleSuggest} variant="secondary" size="sm" fullWidth disabled={isSuggesting || records.length === 0}>
+                        <SparklesIcon className="h-4 w-4 mr-2" /> {isSuggesting ? 'Asking the AI...' : 'Suggest settings with AI'}
+                    </Button>
+                    {suggestError && <p className="mt-2 text-xs text-red-400">{suggestError}</p>}
+                </div>
+            </Popover.Panel>
+        </Popover>
+    );
+};
+
+export default KanbanSettingsMenu;
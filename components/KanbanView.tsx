@@ -1,79 +1,107 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import type { DatabaseSchema, Record, KanbanConfig, ColumnDefinition } from '../types';
-import { generateKanbanConfig } from '../services/geminiService';
-import Spinner from './common/Spinner';
+import React, { useState, useMemo, useRef } from 'react';
+import type { DatabaseSchema, Record, RecordKey, KanbanConfig, ColumnDefinition } from '../types';
+import { getRecordKey, isKeyColumn } from '../services/recordKeys';
+import type { RelationLabels } from '../services/cellFormat';
+import { getBoardStatuses, getCardStatus, sortByRank, placeByRank, UNCATEGORIZED_STATUS } from '../services/kanbanConfig';
+import { groupRecords } from '../services/grouping';
+import { toDayKey, formatDay } from '../services/calendarDates';
+import { useWindowedList } from './common/useWindowedList';
+import KanbanSettingsMenu from './KanbanSettingsMenu';
+import PlusIcon from './icons/PlusIcon';
 
 interface KanbanViewProps {
   schema: DatabaseSchema;
   records: Record[];
-  onUpdateRecord: (recordId: string, updates: Partial<Omit<Record, 'id'>>) => void;
+  relationLabels: RelationLabels;
+  remotelyChangedIds: Set<string>; // Cards recently changed by another user
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+  config: KanbanConfig | null; // Null until a status column is chosen
+  onConfigChange: (config: KanbanConfig) => void;
 }
 
-const KanbanView: React.FC<KanbanViewProps> = ({ schema, records, onUpdateRecord }) => {
-    const [kanbanConfig, setKanbanConfig] = useState<KanbanConfig | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [draggedRecordId, setDraggedRecordId] = useState<string | null>(null);
-    const [dragOverStatus, setDragOverStatus] = useState<string | null>(null);
-
-    useEffect(() => {
-        const fetchKanbanConfig = async () => {
-            if (records.length === 0) {
-                setIsLoading(false);
-                return;
-            }
-            setIsLoading(true);
-            setError(null);
-            try {
-                const config = await generateKanbanConfig(schema, records);
-                // Basic validation
-                if (config && config.statusColumnId && config.cardTitleColumnId && config.statusColumnOrder) {
-                    setKanbanConfig(config);
-                } else {
-                    throw new Error("Received invalid configuration from AI.");
-                }
-            } catch (e) {
-                setError("Could not generate a Kanban board. No suitable status column found in your data.");
-                console.error(e);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-        fetchKanbanConfig();
-    }, [schema, records]);
+// A card with a title and a couple of details; the real height is measured once cards render.
+const ESTIMATED_CARD_HEIGHT = 120;
+
+// One row of the board. Without swimlanes the board is a single lane with no heading.
+interface BoardLane {
+    id: string;
+    label: string | null;
+    value: any; // The swimlane column's value on the lane's cards
+    records: Record[];
+}
+
+// Where a dragged card would land: a lane's status column, and the position in it when cards are ordered by hand.
+interface DropTarget {
+    cellId: string;
+    index: number;
+}
+
+const getCellId = (laneId: string, status: string) => JSON.stringify([laneId, status]);
+
+// One column's cards. Only the ones scrolled into view are rendered, so columns of thousands stay responsive.
+const KanbanCardList: React.FC<{ schema: DatabaseSchema; records: Record[]; renderCard: (record: Record, recordKey: RecordKey, index: number) => React.ReactNode }> = ({ schema, records, renderCard }) => {
+    const listRef = useRef<HTMLDivElement>(null);
+    const cardWindow = useWindowedList(listRef, records.length, ESTIMATED_CARD_HEIGHT);
+    return (
+        <div ref={listRef} style={{ paddingTop: cardWindow.paddingTop, paddingBottom: cardWindow.paddingBottom }}>
+            {records.slice(cardWindow.start, cardWindow.end).map((record, index) => {
+                const recordKey = getRecordKey(record, schema);
+                // The gap is part of each item so that it is measured with the card.
+                return (
+                    <div key={recordKey} ref={cardWindow.measureRef(cardWindow.start + index)} className="pb-4">
+                        {renderCard(record, recordKey, cardWindow.start + index)}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// Marks where a dropped card will go, in the gap above a card or below the last one.
+const DropIndicator: React.FC = () => (
+    <div className="relative">
+        <div className="absolute -top-2.5 inset-x-0 h-0.5 rounded bg-emerald-400" />
+    </div>
+);
 
+const KanbanView: React.FC<KanbanViewProps> = ({ schema, records, relationLabels, remotelyChangedIds, onUpdateRecord, onCreateRecord, config, onConfigChange }) => {
+    const [draggedRecordKey, setDraggedRecordKey] = useState<RecordKey | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+    // The cell whose quick-add input is open, and what has been typed in it.
+    const [quickAdd, setQuickAdd] = useState<{ cellId: string; title: string } | null>(null);
+    // The config outlives schema changes, so the columns it names may have been dropped since.
+    const statusColumn = config ? schema.find(c => c.id === config.statusColumnId) : undefined;
+    const swimlaneColumn = config?.swimlaneColumnId ? schema.find(c => c.id === config.swimlaneColumnId && c !== statusColumn) : undefined;
+    const rankColumn = config?.rankColumnId ? schema.find(c => c.id === config.rankColumnId && c.type === 'number') : undefined;
+
+    // Cards by lane and status, in rank order when cards are ordered by hand. WIP limits count a status across all lanes.
     const boardData = useMemo(() => {
-        if (!kanbanConfig) return null;
-        
-        const { statusColumnId, statusColumnOrder } = kanbanConfig;
-        
-        const columns: { [key:string]: Record[] } = {};
-        const allStatuses = new Set<string>();
-        records.forEach(r => allStatuses.add(r[statusColumnId]?.toString() || 'Uncategorized'));
-
-        // Start with AI-provided order, filter to statuses that actually exist in the data
-        let orderedStatuses = (statusColumnOrder || []).filter(s => allStatuses.has(s));
-
-        // Add any remaining statuses from the data that weren't in the AI's list, and sort them
-        const remainingStatuses = Array.from(allStatuses).filter(s => !orderedStatuses.includes(s)).sort();
-        orderedStatuses = [...orderedStatuses, ...remainingStatuses];
-        
-        // Initialize columns based on the final ordered list
-        for (const status of orderedStatuses) {
-            columns[status] = [];
-        }
-        // Group records into the columns
-        for (const record of records) {
-            const status = record[statusColumnId]?.toString() || 'Uncategorized';
-            // The status should always exist as a key in columns due to the logic above
-            if (columns[status]) {
-                columns[status].push(record);
+        if (!config || !statusColumn) return null;
+        const orderedStatuses = getBoardStatuses(config, statusColumn, records);
+        const ordered = rankColumn ? sortByRank(records, rankColumn) : records;
+        const lanes: BoardLane[] = swimlaneColumn
+            ? groupRecords(ordered, [swimlaneColumn], relationLabels).map(group => ({
+                id: group.id,
+                label: group.label,
+                value: group.records[0][swimlaneColumn.id] ?? null,
+                records: group.records,
+            }))
+            : [{ id: '', label: null, value: null, records: ordered }];
+        const cells = new Map<string, Record[]>();
+        const statusCounts: { [status: string]: number } = Object.fromEntries(orderedStatuses.map(status => [status, 0]));
+        for (const lane of lanes) {
+            for (const status of orderedStatuses) {
+                cells.set(getCellId(lane.id, status), []);
+            }
+            for (const record of lane.records) {
+                const status = getCardStatus(record, statusColumn);
+                cells.get(getCellId(lane.id, status))!.push(record);
+                statusCounts[status]++;
             }
         }
-
-        return { columns, orderedStatuses };
-
-    }, [kanbanConfig, records]);
+        return { orderedStatuses, lanes, cells, statusCounts };
+    }, [config, statusColumn, swimlaneColumn, rankColumn, records, relationLabels]);
 
     const renderCell = (record: Record, column: ColumnDefinition | undefined) => {
         if (!column) return 'N/A';
@@ -82,118 +110,251 @@ const KanbanView: React.FC<KanbanViewProps> = ({ schema, records, onUpdateRecord
         if (column.type === 'boolean') {
           return value ? 'Yes' : 'No';
         }
+        if (column.type === 'relation' && value !== null && value !== undefined) {
+            return relationLabels[column.id]?.[String(value)] ?? String(value);
+        }
         if (column.type === 'date') {
-            if (!value) return null;
-            const date = new Date(value);
-            if (isNaN(date.getTime())) return null;
-            const userTimezoneOffset = date.getTimezoneOffset() * 60000;
-            return new Date(date.getTime() + userTimezoneOffset).toLocaleDateString();
+            const dayKey = toDayKey(value);
+            return dayKey ? formatDay(dayKey, {}) : null;
         }
         return value?.toString() || null;
     }
 
-    const handleDragStart = (e: React.DragEvent<HTMLDivElement>, recordId: string) => {
+    const handleDragStart = (e: React.DragEvent<HTMLDivElement>, recordKey: RecordKey) => {
         e.dataTransfer.effectAllowed = 'move';
-        setDraggedRecordId(recordId);
+        setDraggedRecordKey(recordKey);
     };
-    
+
     const handleDragEnd = () => {
-        setDraggedRecordId(null);
-        setDragOverStatus(null);
+        setDraggedRecordKey(null);
+        setDropTarget(null);
+    };
+
+    // Over a card, the top half drops before it and the bottom half after.
+    const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, cellId: string, index: number) => {
+        if (draggedRecordKey === null) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        const rect = e.currentTarget.getBoundingClientRect();
+        const position = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+        setDropTarget(prev => prev?.cellId === cellId && prev.index === position ? prev : { cellId, index: position });
     };
 
-    const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault(); 
+    // Elsewhere in a column, a card entering it goes to the end; one already over it keeps its place.
+    const handleCellDragOver = (e: React.DragEvent<HTMLDivElement>, cellId: string, cardCount: number) => {
+        if (draggedRecordKey === null) return;
+        e.preventDefault();
         e.dataTransfer.dropEffect = 'move';
+        setDropTarget(prev => prev?.cellId === cellId ? prev : { cellId, index: cardCount });
     };
 
-    const handleDrop = (e: React.DragEvent<HTMLDivElement>, newStatus: string) => {
+    // Changes the card's status and lane to the ones it was dropped in and, when cards are ordered by hand, its rank.
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, lane: BoardLane, status: string) => {
         e.preventDefault();
-        if (!draggedRecordId || !kanbanConfig) return;
+        const target = dropTarget;
+        const record = records.find(r => getRecordKey(r, schema) === draggedRecordKey);
+        handleDragEnd();
+        if (!record || !boardData || !statusColumn) return;
 
-        const originalRecord = records.find(r => r.id === draggedRecordId);
-        if (originalRecord && originalRecord[kanbanConfig.statusColumnId] !== newStatus) {
-            onUpdateRecord(draggedRecordId, { [kanbanConfig.statusColumnId]: newStatus });
+        const cellId = getCellId(lane.id, status);
+        const updates: Partial<Record> = {};
+        if (getCardStatus(record, statusColumn) !== status) {
+            updates[statusColumn.id] = status === UNCATEGORIZED_STATUS ? null : status;
+        }
+        if (swimlaneColumn && !lane.records.includes(record)) {
+            updates[swimlaneColumn.id] = lane.value;
+        }
+        if (rankColumn) {
+            const cards = boardData.cells.get(cellId)!;
+            const currentIndex = cards.indexOf(record);
+            const requestedIndex = target?.cellId === cellId ? target.index : cards.length;
+            // Taking the card out first shifts the cards after it up by one.
+            const index = currentIndex !== -1 && currentIndex < requestedIndex ? requestedIndex - 1 : requestedIndex;
+            if (index !== currentIndex) {
+                const { rank, renumbered } = placeByRank(cards.filter(r => r !== record), index, rankColumn);
+                renumbered.forEach(entry => onUpdateRecord(getRecordKey(entry.record, schema), { [rankColumn.id]: entry.rank }));
+                updates[rankColumn.id] = rank;
+            }
+        }
+        if (Object.keys(updates).length > 0) {
+            onUpdateRecord(getRecordKey(record, schema), updates);
         }
-        handleDragEnd();
     };
 
-    if (records.length === 0) {
-        return <div className="text-center py-16 text-slate-400">Add some records to see your Kanban board.</div>;
-    }
+    const settingsMenu = <KanbanSettingsMenu schema={schema} records={records} config={config} onChange={onConfigChange} />;
 
-    if (isLoading) {
+    if (!config || !statusColumn || !boardData) {
         return (
-            <div className="flex flex-col items-center justify-center h-64">
-                <Spinner />
-                <p className="text-emerald-400 mt-4">AI is analyzing your data to build a board...</p>
+            <div className="text-center py-16 text-slate-400 space-y-4">
+                <p>Choose the column that splits this board, such as a status or stage.</p>
+                <div className="inline-block text-left">{settingsMenu}</div>
             </div>
         );
     }
 
-    if (error) {
-        return <div className="text-center py-16 text-red-400">{error}</div>;
-    }
+    const titleColumn = schema.find(c => c.id === config.cardTitleColumnId);
+    const detailColumns = config.cardDetailColumnIds.map(id => schema.find(c => c.id === id)).filter(Boolean) as ColumnDefinition[];
+    // Quick-add asks for a title when the title column is plain editable text; otherwise cards are added blank.
+    const canTypeTitle = !!titleColumn && titleColumn.type === 'string' && !titleColumn.readOnly && !isKeyColumn(titleColumn.id, schema);
 
-    if (!kanbanConfig || !boardData) {
-        return <div className="text-center py-16 text-slate-400">Could not display Kanban board.</div>;
-    }
+    // New cards take the column's status and lane, and go to the bottom of the column.
+    const addCard = (lane: BoardLane, status: string, title: string) => {
+        const newRecord: Partial<Record> = { [statusColumn.id]: status === UNCATEGORIZED_STATUS ? null : status };
+        if (canTypeTitle) newRecord[titleColumn.id] = title;
+        if (swimlaneColumn) newRecord[swimlaneColumn.id] = lane.value;
+        if (rankColumn) {
+            const cards = boardData.cells.get(getCellId(lane.id, status))!;
+            const { rank, renumbered } = placeByRank(cards, cards.length, rankColumn);
+            renumbered.forEach(entry => onUpdateRecord(getRecordKey(entry.record, schema), { [rankColumn.id]: entry.rank }));
+            newRecord[rankColumn.id] = rank;
+        }
+        onCreateRecord(newRecord);
+    };
 
-    const titleColumn = schema.find(c => c.id === kanbanConfig.cardTitleColumnId);
-    const detailColumns = kanbanConfig.cardDetailColumnIds.map(id => schema.find(c => c.id === id)).filter(Boolean) as ColumnDefinition[];
+    // The input stays open after adding, so several cards can be typed in a row.
+    const renderQuickAdd = (lane: BoardLane, status: string, cellId: string) => {
+        if (quickAdd?.cellId === cellId && canTypeTitle) {
+            return (
+                <form
+                    className="pb-4"
+                    onSubmit={e => {
+                        e.preventDefault();
+                        const title = quickAdd.title.trim();
+                        if (!title) return;
+                        addCard(lane, status, title);
+                        setQuickAdd({ cellId, title: '' });
+                    }}
+                >
+                    <input
+                        autoFocus
+                        value={quickAdd.title}
+                        onChange={e => setQuickAdd({ cellId, title: e.target.value })}
+                        onKeyDown={e => { if (e.key === 'Escape') setQuickAdd(null); }}
+                        onBlur={() => { if (!quickAdd.title.trim()) setQuickAdd(null); }}
+                        placeholder={`${titleColumn.name}, then Enter`}
+                        className="w-full bg-slate-800 border border-emerald-500/60 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none"
+                        aria-label={`New card in ${status}`}
+                    />
+                </form>
+            );
+        }
+        return (
+            <button
+                onClick={() => canTypeTitle ? setQuickAdd({ cellId, title: '' }) : addCard(lane, status, '')}
+                className="flex w-full items-center gap-2 mb-4 px-2 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800/60"
+            >
+                <PlusIcon className="h-4 w-4" /> Add card
+            </button>
+        );
+    };
 
-    return (
-        <div className="flex gap-6 overflow-x-auto pb-4">
-            {boardData.orderedStatuses.map(status => (
-                <div 
-                    key={status}
-                    className={`flex-shrink-0 w-80 bg-slate-900/50 rounded-xl transition-colors ${dragOverStatus === status ? 'bg-emerald-500/10' : ''}`}
-                    onDragOver={handleDragOver}
-                    onDragEnter={() => setDragOverStatus(status)}
-                    onDragLeave={() => setDragOverStatus(null)}
-                    onDrop={(e) => handleDrop(e, status)}
+    const renderCard = (record: Record, recordKey: RecordKey, cellId: string, index: number) => {
+        const isRemotelyChanged = remotelyChangedIds.has(recordKey);
+        return (
+            <div onDragOver={(e) => handleCardDragOver(e, cellId, index)}>
+                {rankColumn && dropTarget?.cellId === cellId && dropTarget.index === index && <DropIndicator />}
+                <div
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, recordKey)}
+                    onDragEnd={handleDragEnd}
+                    className={`relative bg-slate-800 p-4 rounded-lg shadow-md border cursor-grab active:cursor-grabbing transition-all ${isRemotelyChanged ? 'border-sky-500/60' : 'border-slate-700'} ${draggedRecordKey === recordKey ? 'opacity-50' : ''}`}
+                    title={isRemotelyChanged ? 'Updated by someone else' : undefined}
                 >
-                    <div className="p-4 border-b border-slate-700 sticky top-0 bg-slate-900/50 backdrop-blur-sm rounded-t-xl z-10">
-                        <h3 className="font-semibold text-white capitalize flex items-center gap-2">
-                            {status}
-                            <span className="text-sm font-normal bg-slate-700 text-slate-300 rounded-full px-2 py-0.5">
-                                {boardData.columns[status]?.length || 0}
-                            </span>
-                        </h3>
+                    {isRemotelyChanged && (
+                        <span className="absolute top-3 right-3 h-2 w-2 rounded-full bg-sky-400 animate-pulse" aria-label="Updated by someone else" />
+                    )}
+                    <h4 className="font-bold text-slate-100 mb-2 truncate">{renderCell(record, titleColumn)}</h4>
+                    <div className="space-y-1">
+                        {detailColumns.map(col => {
+                            const value = renderCell(record, col);
+                            if (!value) return null;
+                            return (
+                                <div key={col.id} className="text-xs text-slate-400 truncate">
+                                    <span className="font-semibold text-slate-500">{col.name}: </span>{value}
+                                </div>
+                            )
+                        })}
                     </div>
-                    <div className="p-4 space-y-4 h-full">
-                        {boardData.columns[status]?.map(record => (
-                            <div 
-                                key={record.id}
-                                draggable
-                                onDragStart={(e) => handleDragStart(e, record.id)}
-                                onDragEnd={handleDragEnd}
-                                className={`bg-slate-800 p-4 rounded-lg shadow-md border border-slate-700 cursor-grab active:cursor-grabbing transition-opacity ${draggedRecordId === record.id ? 'opacity-50' : ''}`}
-                            >
-                                <h4 className="font-bold text-slate-100 mb-2">{renderCell(record, titleColumn)}</h4>
-                                <div className="space-y-1">
-                                    {detailColumns.map(col => {
-                                        const value = renderCell(record, col);
-                                        if (!value) return null;
-                                        return (
-                                            <div key={col.id} className="text-xs text-slate-400">
-                                                <span className="font-semibold text-slate-500">{col.name}: </span>{value}
-                                            </div>
-                                        )
-                                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const renderBoardCell = (lane: BoardLane, status: string) => {
+        const cellId = getCellId(lane.id, status);
+        const cards = boardData.cells.get(cellId)!;
+        const isDropTarget = dropTarget?.cellId === cellId;
+        return (
+            <div
+                key={status}
+                className={`flex-shrink-0 w-80 bg-slate-900/50 rounded-xl transition-colors ${isDropTarget ? 'bg-emerald-500/10' : ''}`}
+                onDragOver={(e) => handleCellDragOver(e, cellId, cards.length)}
+                onDrop={(e) => handleDrop(e, lane, status)}
+            >
+                {/* Lanes share the page's height, so each one's columns scroll sooner. */}
+                <div className={`p-4 pb-0 overflow-y-auto ${swimlaneColumn ? 'max-h-96' : 'max-h-[calc(100vh-380px)]'}`}>
+                    <KanbanCardList schema={schema} records={cards} renderCard={(record, recordKey, index) => renderCard(record, recordKey, cellId, index)} />
+                    {rankColumn && isDropTarget && cards.length > 0 && dropTarget.index === cards.length && <DropIndicator />}
+                    {cards.length === 0 && (
+                        <div className="h-24 mb-4 border-2 border-dashed border-slate-700 rounded-lg flex items-center justify-center">
+                           <p className="text-slate-600 text-sm">Drop here</p>
+                        </div>
+                    )}
+                    {renderQuickAdd(lane, status, cellId)}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4 gap-4">
+                {settingsMenu}
+                {records.length === 0 && <span className="text-sm text-slate-400">Add some records to fill the board.</span>}
+            </div>
+            <div className="overflow-x-auto pb-4">
+                <div className="inline-flex flex-col gap-4 min-w-full">
+                    <div className="flex gap-6">
+                        {boardData.orderedStatuses.map(status => {
+                            const count = boardData.statusCounts[status];
+                            const limit = config.wipLimits[status];
+                            const isOverLimit = limit !== undefined && count > limit;
+                            const isAtLimit = limit !== undefined && count === limit;
+                            return (
+                                <div
+                                    key={status}
+                                    className={`flex-shrink-0 w-80 p-4 bg-slate-900/50 rounded-xl border ${isOverLimit ? 'border-red-500/60' : 'border-transparent'}`}
+                                    title={isOverLimit ? `Over the WIP limit of ${limit}` : undefined}
+                                >
+                                    <h3 className="font-semibold text-white capitalize flex items-center gap-2">
+                                        {status}
+                                        <span className={`text-sm font-normal rounded-full px-2 py-0.5 ${isOverLimit ? 'bg-red-500/20 text-red-300' : isAtLimit ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-700 text-slate-300'}`}>
+                                            {count}{limit !== undefined && ` / ${limit}`}
+                                        </span>
+                                    </h3>
                                 </div>
-                            </div>
-                        ))}
-                         {(!boardData.columns[status] || boardData.columns[status].length === 0) && (
-                            <div className="h-full border-2 border-dashed border-slate-700 rounded-lg flex items-center justify-center">
-                               <p className="text-slate-600 text-sm">Drop here</p>
-                            </div>
-                        )}
+                            );
+                        })}
                     </div>
+                    {boardData.lanes.map(lane => (
+                        <div key={lane.id} className="space-y-2">
+                            {swimlaneColumn && (
+                                <div className="sticky left-0 flex w-max items-center gap-2 text-sm text-slate-200">
+                                    <span className="text-slate-400">{swimlaneColumn.name}:</span>
+                                    <span className="font-semibold">{lane.label}</span>
+                                    <span className="text-xs bg-slate-700 text-slate-300 rounded-full px-2 py-0.5">{lane.records.length.toLocaleString()}</span>
+                                </div>
+                            )}
+                            <div className="flex gap-6">
+                                {boardData.orderedStatuses.map(status => renderBoardCell(lane, status))}
+                            </div>
+                        </div>
+                    ))}
                 </div>
-            ))}
+            </div>
         </div>
     );
 };
 
-export default KanbanView;
\ No newline at end of file
+export default KanbanView;
@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import type { Record, LinkedRecordGroup } from '../types';
+import * as apiService from '../services/apiService';
+
+interface LinkedRecordsListProps {
+  tableName: string;
+  record: Partial<Record>;
+}
+
+// Lists the records in other tables whose relation columns point at this one.
+const LinkedRecordsList: React.FC<LinkedRecordsListProps> = ({ tableName, record }) => {
+    const [groups, setGroups] = useState<LinkedRecordGroup[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setIsLoading(true);
+        setError(null);
+        apiService.getLinkedRecords(tableName, record)
+            .then(result => { if (isCurrent) setGroups(result); })
+            .catch(err => {
+                console.error(`Failed to load records linked to ${tableName}:`, err);
+                if (isCurrent) setError('Could not load linked records.');
+            })
+            .finally(() => { if (isCurrent) setIsLoading(false); });
+        return () => { isCurrent = false; };
+    }, [tableName, record]);
+
+    if (isLoading) {
+        return <p className="text-xs text-slate-500">Looking for linked records...</p>;
+    }
+    if (error) {
+        return <p className="text-xs text-red-400">{error}</p>;
+    }
+    if (groups.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">Linked from</h4>
+            {groups.map(({ reference, records }) => (
+                <div key={`${reference.table}.${reference.columnId}`}>
+                    <p className="text-xs text-slate-500 mb-1">
+                        <code className="text-emerald-400">{reference.table}</code> via <code>{reference.columnId}</code>
+                        <span className="ml-1">({records.length})</span>
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {records.map(linked => (
+                            <span key={linked.value} className="text-xs bg-slate-700/70 text-slate-200 px-2 py-1 rounded-full">{linked.label}</span>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default LinkedRecordsList;
@@ -5,9 +5,10 @@ import LogoIcon from './icons/LogoIcon';
 
 interface LoginScreenProps {
   onLogin: (supabaseUrl: string, supabaseAnonKey: string) => void;
+  onUseLocalWorkspace: () => void;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onUseLocalWorkspace }) => {
   const [supabaseUrl, setSupabaseUrl] = useState('');
   const [supabaseAnonKey, setSupabaseAnonKey] = useState('');
 
@@ -66,6 +67,15 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
             You can find these values in your Supabase project's API settings.
           </p>
         </div>
+
+        <div className="text-center mt-6">
+          <Button variant="secondary" onClick={onUseLocalWorkspace}>
+            Use a Local Workspace Instead
+          </Button>
+          <p className="text-xs text-slate-500 mt-2">
+            No project needed: your tables are stored in this browser only.
+          </p>
+        </div>
       </div>
     </div>
   );
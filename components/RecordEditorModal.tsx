@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import type { DatabaseSchema, Record, RecordKey, ColumnDefinition } from '../types';
+import { isKeyColumn } from '../services/recordKeys';
+import { isAuditLogAvailable } from '../services/apiService';
+import { formatCellValue } from '../services/cellFormat';
+import type { RelationLabels } from '../services/cellFormat';
+import Modal from './common/Modal';
+import Button from './common/Button';
+import Input from './common/Input';
+import RelationPicker from './RelationPicker';
+import LinkedRecordsList from './LinkedRecordsList';
+import RecordHistoryTimeline from './RecordHistoryTimeline';
+
+interface RecordEditorModalProps {
+  isOpen: boolean;
+  tableName: string;
+  schema: DatabaseSchema;
+  record: Partial<Record> | null; // The row being edited, or the initial values of a new one
+  recordKey: RecordKey | null; // Null while creating
+  relationLabels?: RelationLabels;
+  onClose: () => void;
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+}
+
+const RecordEditorModal: React.FC<RecordEditorModalProps> = ({
+    isOpen, tableName, schema, record, recordKey, relationLabels, onClose, onUpdateRecord, onCreateRecord
+}) => {
+    const [editingRecord, setEditingRecord] = useState<Partial<Record>>({});
+    const isEditing = recordKey !== null;
+
+    useEffect(() => {
+        if (isOpen) setEditingRecord(record || {});
+    }, [isOpen, record]);
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // Read-only columns are managed by the database and are never sent back; an existing row's key stays put.
+        const updates = Object.fromEntries(
+            Object.entries(editingRecord).filter(([columnId]) =>
+                !schema.find(c => c.id === columnId)?.readOnly && !(isEditing && isKeyColumn(columnId, schema))
+            )
+        );
+
+        if (isEditing) { // Editing existing record
+            onUpdateRecord(recordKey, updates);
+        } else { // Creating new record
+            onCreateRecord(updates);
+        }
+        onClose();
+    };
+
+    const renderFormField = (column: ColumnDefinition) => {
+        if (column.readOnly || (isEditing && isKeyColumn(column.id, schema))) {
+            // Database-managed values are shown for reference when editing and left out when creating.
+            if (!isEditing) return null;
+            return (
+                <div key={column.id}>
+                    <label htmlFor={column.id} className="block text-sm font-medium text-slate-300 mb-2">{column.name}</label>
+                    <Input id={column.id} type="text" value={formatCellValue(editingRecord, column, relationLabels)} disabled className="opacity-60" />
+                </div>
+            );
+        }
+
+        const value = editingRecord[column.id] ?? '';
+
+        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+            const { name, value, type } = e.target;
+            let finalValue: any = value;
+
+            if (type === 'checkbox') {
+              finalValue = (e.target as HTMLInputElement).checked;
+            } else if (column.type === 'number') {
+              finalValue = value === '' ? null : Number(value);
+            } else if (column.type === 'date') {
+               finalValue = value === '' ? null : new Date(value).toISOString();
+            }
+
+            setEditingRecord(prev => ({ ...prev, [name]: finalValue }));
+        };
+
+        return (
+            <div key={column.id}>
+                <label htmlFor={column.id} className="block text-sm font-medium text-slate-300 mb-2">
+                    {column.name}
+                    {column.required && <span className="text-red-400 ml-1" aria-hidden="true">*</span>}
+                </label>
+                {column.type === 'relation' ? (
+                    <RelationPicker
+                        id={column.id}
+                        column={column}
+                        value={editingRecord[column.id]}
+                        required={column.required}
+                        onChange={newValue => setEditingRecord(prev => ({ ...prev, [column.id]: newValue }))}
+                    />
+                ) : column.type === 'select' ? (
+                     <select
+                        id={column.id}
+                        name={column.id}
+                        value={value}
+                        onChange={handleChange}
+                        required={column.required}
+                        className="w-full px-4 py-3 bg-slate-900/70 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500"
+                    >
+                        <option value="">Select...</option>
+                        {column.options?.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                    </select>
+                ) : column.type === 'boolean' ? (
+                     <input
+                        id={column.id}
+                        name={column.id}
+                        type="checkbox"
+                        checked={!!value}
+                        onChange={handleChange}
+                        className="h-5 w-5 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                    />
+                ) : (
+                    <Input
+                        id={column.id}
+                        name={column.id}
+                        type={column.type === 'date' ? 'date' : column.type === 'number' ? 'number' : 'text'}
+                        value={column.type === 'date' && value ? (value as string).split('T')[0] : value}
+                        onChange={handleChange}
+                        required={column.required}
+                    />
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={isEditing ? 'Edit Record' : 'Create Record'}>
+            <form onSubmit={handleSave} className="space-y-4">
+                <div className="max-h-[65vh] overflow-y-auto space-y-4 pr-1">
+                    {schema.map(col => renderFormField(col))}
+                    {isEditing && record && <LinkedRecordsList tableName={tableName} record={record} />}
+                    {isEditing && isAuditLogAvailable() && (
+                        <RecordHistoryTimeline
+                            tableName={tableName}
+                            schema={schema}
+                            recordKey={recordKey}
+                            relationLabels={relationLabels}
+                            onRestore={values => { onUpdateRecord(recordKey, values); onClose(); }}
+                        />
+                    )}
+                </div>
+                <div className="pt-4 flex justify-end gap-3">
+                    <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button type="submit">Save Changes</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default RecordEditorModal;
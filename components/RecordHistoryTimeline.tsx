@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { DatabaseSchema, Record, RecordKey, RecordHistoryEntry } from '../types';
+import * as apiService from '../services/apiService';
+import { getFieldChanges } from '../services/auditLog';
+import { isKeyColumn } from '../services/recordKeys';
+import { formatCellValue } from '../services/cellFormat';
+import type { RelationLabels } from '../services/cellFormat';
+import Button from './common/Button';
+
+interface RecordHistoryTimelineProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  recordKey: RecordKey;
+  relationLabels?: RelationLabels;
+  onRestore: (values: Partial<Record>) => void;
+}
+
+const OPERATION_LABELS: { [operation in RecordHistoryEntry['operation']]: string } = {
+  INSERT: 'Created',
+  UPDATE: 'Edited',
+  DELETE: 'Deleted',
+};
+
+// The change history of one record, read from the audit log, with an option to go back to an earlier version.
+const RecordHistoryTimeline: React.FC<RecordHistoryTimelineProps> = ({ tableName, schema, recordKey, relationLabels, onRestore }) => {
+    const [isEnabled, setIsEnabled] = useState<boolean | null>(null);
+    const [entries, setEntries] = useState<RecordHistoryEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isChangingSetting, setIsChangingSetting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadHistory = useCallback(async (isCurrent: () => boolean = () => true) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const enabled = (await apiService.getAuditedTables()).includes(tableName);
+            // History recorded before the log was turned off is still worth showing.
+            const history = await apiService.getRecordHistory(tableName, schema, recordKey).catch(err => {
+                if (enabled) throw err;
+                return [];
+            });
+            if (!isCurrent()) return;
+            setIsEnabled(enabled);
+            setEntries(history);
+        } catch (err) {
+            console.error(`Failed to load the history of ${recordKey} in ${tableName}:`, err);
+            if (isCurrent()) setError('Could not load the change history.');
+        } finally {
+            if (isCurrent()) setIsLoading(false);
+        }
+    }, [tableName, schema, recordKey]);
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadHistory(() => isCurrent);
+        return () => { isCurrent = false; };
+    }, [loadHistory]);
+
+    const handleToggleHistory = async () => {
+        const message = isEnabled
+            ? `Stop recording changes to "${tableName}"? The history recorded so far is kept.`
+            : `Start recording every change to "${tableName}"? This adds a trigger to the table that copies each changed row into an audit log table.\n\n`
+                + `Anyone who can read "${tableName}" through the API can read its whole history, including rows that row-level security hides from them and the email of whoever made each change.`;
+        if (!window.confirm(message)) return;
+        setIsChangingSetting(true);
+        try {
+            if (isEnabled) {
+                await apiService.disableAuditLog(tableName);
+            } else {
+                await apiService.enableAuditLog(tableName);
+            }
+            await loadHistory();
+        } catch (err) {
+            console.error(`Failed to change the audit log setting for ${tableName}:`, err);
+            alert("Failed to change the history setting. Your database user may not be allowed to create triggers.");
+        } finally {
+            setIsChangingSetting(false);
+        }
+    };
+
+    const handleRestore = (entry: RecordHistoryEntry) => {
+        if (!entry.newRecord) return;
+        if (!window.confirm(`Restore this record to how it was on ${new Date(entry.changedAt).toLocaleString()}?`)) return;
+        // Only the values a user could have edited are put back; keys and database-managed columns stay as they are.
+        const version = entry.newRecord;
+        const values = Object.fromEntries(schema
+            .filter(col => !col.readOnly && !isKeyColumn(col.id, schema) && col.id in version)
+            .map(col => [col.id, version[col.id]]));
+        onRestore(values);
+    };
+
+    const formatValue = (columnId: string, value: any) => {
+        const column = schema.find(col => col.id === columnId);
+        return column ? formatCellValue({ [columnId]: value }, column, relationLabels) : String(value);
+    };
+
+    if (isLoading && isEnabled === null) {
+        return <p className="text-xs text-slate-500">Loading history...</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <h4 className="text-sm font-medium text-slate-300">History</h4>
+                {isEnabled !== null && (
+                    <button
+                        type="button"
+                        onClick={handleToggleHistory}
+                        disabled={isChangingSetting}
+                        className="text-xs text-slate-400 hover:text-white hover:underline disabled:opacity-50"
+                    >
+                        {isChangingSetting ? 'Saving...' : isEnabled ? 'Stop recording changes' : 'Record changes'}
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {!error && entries.length === 0 && (
+                <p className="text-xs text-slate-500">
+                    {isEnabled ? 'No changes have been recorded yet.' : `Changes to "${tableName}" aren't being recorded.`}
+                </p>
+            )}
+            {entries.length > 0 && (
+                <ol className="relative border-l border-slate-700 ml-1 space-y-4">
+                    {entries.map((entry, index) => {
+                        const changes = getFieldChanges(entry, schema);
+                        return (
+                            <li key={entry.id} className="ml-4">
+                                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-slate-900 bg-emerald-500" />
+                                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                    <p className="text-xs text-slate-400">
+                                        <span className="font-semibold text-slate-200">{OPERATION_LABELS[entry.operation]}</span>
+                                        {entry.changedBy && <> by {entry.changedBy}</>}
+                                        {' '}&middot; {new Date(entry.changedAt).toLocaleString()}
+                                    </p>
+                                    {/* The newest version is the current one, so there's nothing to restore. */}
+                                    {index > 0 && entry.newRecord && (
+                                        <Button type="button" size="sm" variant="secondary" className="!px-2 !py-0.5 text-xs" onClick={() => handleRestore(entry)}>
+                                            Restore this version
+                                        </Button>
+                                    )}
+                                </div>
+                                {entry.operation === 'UPDATE' && changes.length > 0 && (
+                                    <ul className="mt-1 space-y-0.5 text-xs">
+                                        {changes.map(change => (
+                                            <li key={change.columnId} className="text-slate-400">
+                                                <span className="text-slate-300">{schema.find(col => col.id === change.columnId)?.name || change.columnId}:</span>{' '}
+                                                <span className="line-through text-red-300/80">{formatValue(change.columnId, change.before)}</span>
+                                                {' → '}
+                                                <span className="text-emerald-300">{formatValue(change.columnId, change.after)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default RecordHistoryTimeline;
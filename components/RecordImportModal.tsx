@@ -0,0 +1,334 @@
+import React, { useState, useMemo } from 'react';
+import type { DatabaseSchema, Record, BulkResult, BulkProgressHandler } from '../types';
+import { readImportSource, autoMapHeaders, buildImportRows, getUnmappedRequiredColumns, isImportableColumn, getDayOrderQuestions } from '../services/recordImport';
+import type { ImportSource, DayOrder } from '../services/recordImport';
+import { getPrimaryKeyColumns } from '../services/recordKeys';
+import Button from './common/Button';
+import CloseIcon from './icons/CloseIcon';
+import ImportIcon from './icons/ImportIcon';
+
+interface RecordImportModalProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  onClose: () => void;
+  onImport: (records: Partial<Record>[], upsertOn: string[] | undefined, onProgress: BulkProgressHandler) => Promise<BulkResult<Record>>;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+// Matching on the primary key is offered as one choice even when the key spans several columns.
+const PRIMARY_KEY_MATCH = '__primary_key__';
+const PREVIEW_ROW_LIMIT = 100;
+
+const formatSample = (value: unknown) =>
+    value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const RecordImportModal: React.FC<RecordImportModalProps> = ({ tableName, schema, onClose, onImport }) => {
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [source, setSource] = useState<ImportSource | null>(null);
+    const [mapping, setMapping] = useState<(string | null)[]>([]);
+    const [matchOn, setMatchOn] = useState('');
+    // The day order chosen for each source column whose numeric dates could be read either way.
+    const [dayOrders, setDayOrders] = useState<{ [cellIndex: number]: DayOrder }>({});
+    const [progress, setProgress] = useState({ completed: 0, total: 0 });
+    const [result, setResult] = useState<{ imported: number; failures: { sourceRow: number; message: string }[] } | null>(null);
+
+    const importableColumns = schema.filter(isImportableColumn);
+    const sourceLabel = source?.format === 'json' ? 'field' : 'CSV column';
+    const hasPrimaryKey = schema.some(col => col.isPrimaryKey);
+    const upsertOn = useMemo(
+        () => matchOn === '' ? undefined : matchOn === PRIMARY_KEY_MATCH ? getPrimaryKeyColumns(schema) : [matchOn],
+        [matchOn, schema]
+    );
+
+    const dayOrderQuestions = useMemo(() => source ? getDayOrderQuestions(source, mapping, schema) : [], [source, mapping, schema]);
+    const answeredDayOrders = useMemo(() => {
+        const answered: { [cellIndex: number]: DayOrder } = {};
+        dayOrderQuestions.forEach(question => {
+            const dayOrder = dayOrders[question.cellIndex] ?? question.suggested;
+            if (dayOrder) answered[question.cellIndex] = dayOrder;
+        });
+        return answered;
+    }, [dayOrderQuestions, dayOrders]);
+
+    const importRows = useMemo(() => source && (step === 'preview' || step === 'importing' || step === 'done')
+        ? buildImportRows(source, mapping, schema, answeredDayOrders)
+        : [], [step, source, mapping, schema, answeredDayOrders]);
+    const validRows = importRows.filter(row => Object.keys(row.errors).length === 0);
+    const invalidRowCount = importRows.length - validRows.length;
+
+    const mappingErrors = useMemo(() => {
+        const errors = getUnmappedRequiredColumns(mapping, schema).map(col => `"${col.name}" is required; map a ${sourceLabel} to it.`);
+        if (!mapping.some(Boolean)) errors.push(`Map at least one ${sourceLabel}.`);
+        for (const columnId of upsertOn || []) {
+            if (!mapping.includes(columnId)) errors.push(`Rows are matched on "${columnId}", so a ${sourceLabel} must be mapped to it.`);
+        }
+        for (const question of dayOrderQuestions) {
+            if (!answeredDayOrders[question.cellIndex]) {
+                errors.push(`Choose whether dates in "${source?.headers[question.cellIndex]}" put the month or the day first.`);
+            }
+        }
+        return errors;
+    }, [mapping, schema, upsertOn, sourceLabel, dayOrderQuestions, answeredDayOrders, source]);
+
+    const handleFile = async (file: File) => {
+        setParseError(null);
+        setFileName(file.name);
+        try {
+            const text = await file.text();
+            const imported = readImportSource(file.name, text, schema, tableName);
+            setSource(imported);
+            setMapping(autoMapHeaders(imported.headers, schema));
+            setDayOrders({});
+            setStep('map');
+        } catch (err: any) {
+            console.error("Failed to read import file:", err);
+            setParseError(err?.message || 'The file could not be read.');
+        }
+    };
+
+    const updateMapping = (index: number, columnId: string) => {
+        setMapping(prev => prev.map((current, i) => {
+            if (i === index) return columnId || null;
+            // A column can only be filled from one source column.
+            return current === columnId ? null : current;
+        }));
+    };
+
+    const handleImport = async () => {
+        setStep('importing');
+        setProgress({ completed: 0, total: validRows.length });
+        try {
+            const bulkResult = await onImport(validRows.map(row => row.record), upsertOn, (completed, total) => setProgress({ completed, total }));
+            setResult({
+                imported: bulkResult.succeeded.length,
+                failures: bulkResult.failures.map(failure => ({ sourceRow: validRows[failure.index].sourceRow, message: failure.message })),
+            });
+        } catch (err: any) {
+            console.error("Failed to import records:", err);
+            setResult({ imported: 0, failures: [{ sourceRow: 0, message: err?.message || 'The import failed.' }] });
+        }
+        setStep('done');
+    };
+
+    const renderUpload = () => (
+        <div className="space-y-4">
+            <label
+                className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-slate-600 rounded-xl cursor-pointer hover:border-emerald-500/60 hover:bg-emerald-500/5 transition-colors"
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => {
+                    e.preventDefault();
+                    const file = e.dataTransfer.files[0];
+                    if (file) handleFile(file);
+                }}
+            >
+                <ImportIcon className="h-10 w-10 text-slate-400" />
+                <span className="text-slate-300">Drop a CSV, JSON or NDJSON file here, or click to choose one</span>
+                <span className="text-xs text-slate-500">A CSV file's first row must contain column headers.</span>
+                <input type="file" accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json" className="sr-only" onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])} />
+            </label>
+            {parseError && <p className="text-sm text-red-400">{parseError}</p>}
+        </div>
+    );
+
+    const renderMapping = () => source && (
+        <div className="space-y-4">
+            <p className="text-sm text-slate-400">
+                {source.rows.length.toLocaleString()} rows found in <span className="text-slate-200">{fileName}</span>. Choose which column each {sourceLabel} fills.
+            </p>
+            {source.notes.length > 0 && (
+                <ul className="p-3 rounded-lg border border-amber-500/40 bg-amber-500/10 text-amber-200 text-xs space-y-1">
+                    {source.notes.map(note => <li key={note}>{note}</li>)}
+                </ul>
+            )}
+            <table className="w-full text-sm text-left text-slate-300">
+                <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                    <tr>
+                        <th className="px-4 py-2 capitalize">{sourceLabel}</th>
+                        <th className="px-4 py-2">First value</th>
+                        <th className="px-4 py-2">Imports into</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {source.headers.map((header, index) => (
+                        <tr key={index} className="border-b border-slate-700">
+                            <td className="px-4 py-2 font-medium">{header || <span className="text-slate-500">(no header)</span>}</td>
+                            <td className="px-4 py-2 text-slate-500 truncate max-w-[12rem]">{formatSample(source.rows[0]?.[index])}</td>
+                            <td className="px-4 py-2">
+                                <select
+                                    value={mapping[index] || ''}
+                                    onChange={e => updateMapping(index, e.target.value)}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm"
+                                    aria-label={`Column for ${header}`}
+                                >
+                                    <option value="">Skip</option>
+                                    {importableColumns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+                                </select>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {dayOrderQuestions.map(question => {
+                const separator = question.example.replace(/\d/g, '')[0];
+                return (
+                    <div key={question.cellIndex} className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg space-y-2">
+                        <label htmlFor={`day-order-${question.cellIndex}`} className="block text-sm font-medium text-slate-300">
+                            Dates in "{source.headers[question.cellIndex]}", such as {question.example}, are written
+                        </label>
+                        <select
+                            id={`day-order-${question.cellIndex}`}
+                            value={dayOrders[question.cellIndex] ?? question.suggested ?? ''}
+                            onChange={e => setDayOrders(prev => ({ ...prev, [question.cellIndex]: e.target.value as DayOrder }))}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm"
+                        >
+                            <option value="" disabled>Choose...</option>
+                            <option value="month-first">Month first ({['MM', 'DD', 'YYYY'].join(separator)})</option>
+                            <option value="day-first">Day first ({['DD', 'MM', 'YYYY'].join(separator)})</option>
+                        </select>
+                    </div>
+                );
+            })}
+            <div className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg space-y-2">
+                <label htmlFor="csv-match-on" className="block text-sm font-medium text-slate-300">When a row matches an existing record</label>
+                <select id="csv-match-on" value={matchOn} onChange={e => setMatchOn(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm">
+                    <option value="">Always add it as a new record</option>
+                    {hasPrimaryKey && <option value={PRIMARY_KEY_MATCH}>Update the record with the same primary key ({getPrimaryKeyColumns(schema).join(', ')})</option>}
+                    {importableColumns.filter(col => !col.isPrimaryKey).map(col => (
+                        <option key={col.id} value={col.id}>Update the record with the same {col.name}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-slate-500">Matching on a column other than the primary key needs a unique constraint on it.</p>
+            </div>
+        </div>
+    );
+
+    const renderPreview = () => {
+        const mappedColumns = mapping.filter(Boolean).map(columnId => schema.find(col => col.id === columnId)!);
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-slate-400">
+                    {validRows.length.toLocaleString()} of {importRows.length.toLocaleString()} rows are ready to import.
+                    {invalidRowCount > 0 && <span className="text-amber-300"> {invalidRowCount.toLocaleString()} rows have problems and will be skipped; fix them in the file to include them.</span>}
+                </p>
+                <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                    <table className="w-full text-xs text-left text-slate-300">
+                        <thead className="text-slate-400 uppercase bg-slate-700/50">
+                            <tr>
+                                <th className="px-3 py-2">Row</th>
+                                {mappedColumns.map(col => <th key={col.id} className="px-3 py-2 whitespace-nowrap">{col.name}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {importRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                                <tr key={row.sourceRow} className="border-b border-slate-700/60">
+                                    <td className="px-3 py-1.5 text-slate-500">{row.sourceRow}</td>
+                                    {mappedColumns.map(col => {
+                                        const error = row.errors[col.id];
+                                        const value = row.record[col.id];
+                                        return (
+                                            <td key={col.id} className={`px-3 py-1.5 whitespace-nowrap ${error ? 'bg-red-500/10 text-red-300' : ''}`} title={error}>
+                                                {error ? error : value === null || value === undefined ? <span className="text-slate-600">empty</span> : formatSample(value)}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {importRows.length > PREVIEW_ROW_LIMIT && (
+                    <p className="text-xs text-slate-500">Showing the first {PREVIEW_ROW_LIMIT} rows.</p>
+                )}
+            </div>
+        );
+    };
+
+    const renderImporting = () => (
+        <div className="py-10 space-y-3">
+            <div className="flex justify-between text-sm text-slate-400">
+                <span>Importing into {tableName}...</span>
+                <span>{progress.completed.toLocaleString()} / {progress.total.toLocaleString()}</span>
+            </div>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }} />
+            </div>
+        </div>
+    );
+
+    const renderDone = () => result && (
+        <div className="space-y-3">
+            <p className="text-slate-200">
+                Imported {result.imported.toLocaleString()} of {importRows.length.toLocaleString()} rows into <code className="text-emerald-400">{tableName}</code>.
+            </p>
+            {invalidRowCount > 0 && <p className="text-sm text-amber-300">{invalidRowCount.toLocaleString()} rows were skipped because of invalid values.</p>}
+            {result.failures.length > 0 && (
+                <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-sm text-red-300">
+                    <p className="mb-2">{result.failures.length.toLocaleString()} rows were rejected by the database:</p>
+                    <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                        {result.failures.map((failure, i) => (
+                            <li key={i}>{failure.sourceRow > 0 && <span className="text-red-200">Row {failure.sourceRow}: </span>}{failure.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm" onClick={step === 'importing' ? undefined : onClose} aria-hidden="true" />
+            <div className="relative w-full max-w-4xl max-h-[90vh] bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <div>
+                        <h3 className="font-semibold text-white">Import Records</h3>
+                        <p className="text-xs text-slate-400">Add rows to <code className="text-emerald-400">{tableName}</code> from a spreadsheet or a JSON export.</p>
+                    </div>
+                    {step !== 'importing' && (
+                        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-700 hover:text-white transition-colors" aria-label="Close import">
+                            <CloseIcon className="h-6 w-6" />
+                        </button>
+                    )}
+                </header>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {step === 'upload' && renderUpload()}
+                    {step === 'map' && renderMapping()}
+                    {step === 'preview' && renderPreview()}
+                    {step === 'importing' && renderImporting()}
+                    {step === 'done' && renderDone()}
+                </div>
+
+                <footer className="p-4 border-t border-slate-700 space-y-3">
+                    {step === 'map' && mappingErrors.length > 0 && (
+                        <ul className="text-xs text-red-400 space-y-1">
+                            {mappingErrors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    <div className="flex justify-end gap-3">
+                        {step === 'upload' && <Button variant="secondary" onClick={onClose}>Cancel</Button>}
+                        {step === 'map' && (
+                            <>
+                                <Button variant="secondary" onClick={() => setStep('upload')}>Back</Button>
+                                <Button onClick={() => setStep('preview')} disabled={mappingErrors.length > 0}>Preview</Button>
+                            </>
+                        )}
+                        {step === 'preview' && (
+                            <>
+                                <Button variant="secondary" onClick={() => setStep('map')}>Back</Button>
+                                <Button onClick={handleImport} disabled={validRows.length === 0}>
+                                    {upsertOn ? 'Import or Update' : 'Import'} {validRows.length.toLocaleString()} Rows
+                                </Button>
+                            </>
+                        )}
+                        {step === 'done' && <Button onClick={onClose}>Done</Button>}
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default RecordImportModal;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import type { ColumnDefinition, RelationOption } from '../types';
+import * as apiService from '../services/apiService';
+import Input from './common/Input';
+import CloseIcon from './icons/CloseIcon';
+import SearchIcon from './icons/SearchIcon';
+
+interface RelationPickerProps {
+  id: string;
+  column: ColumnDefinition;
+  value: any;
+  required?: boolean;
+  onChange: (value: string | null) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const RelationPicker: React.FC<RelationPickerProps> = ({ id, column, value, required, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [options, setOptions] = useState<RelationOption[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
+    const [selectedLabel, setSelectedLabel] = useState('');
+    const relation = column.relation;
+    const hasValue = value !== null && value !== undefined && value !== '';
+
+    // Show the linked record's title rather than its raw key.
+    useEffect(() => {
+        if (!relation || !hasValue) {
+            setSelectedLabel('');
+            return;
+        }
+        let isCurrent = true;
+        setSelectedLabel(String(value));
+        apiService.getRelationLabels(relation, [String(value)])
+            .then(labels => { if (isCurrent && labels[String(value)]) setSelectedLabel(labels[String(value)]); })
+            .catch(err => console.error(`Failed to load the linked ${relation.table} record:`, err));
+        return () => { isCurrent = false; };
+    }, [relation, value, hasValue]);
+
+    useEffect(() => {
+        if (!isOpen || !relation) return;
+        let isCurrent = true;
+        const timeout = setTimeout(async () => {
+            setIsSearching(true);
+            setSearchError(null);
+            try {
+                const results = await apiService.searchRelationOptions(relation, query);
+                if (isCurrent) setOptions(results);
+            } catch (err) {
+                console.error(`Failed to search ${relation.table}:`, err);
+                if (isCurrent) setSearchError(`Could not load records from "${relation.table}".`);
+            } finally {
+                if (isCurrent) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeout);
+        };
+    }, [isOpen, query, relation]);
+
+    if (!relation) return null;
+
+    const open = () => {
+        setQuery('');
+        setIsOpen(true);
+    };
+
+    const select = (option: RelationOption) => {
+        onChange(option.value);
+        setSelectedLabel(option.label);
+        setIsOpen(false);
+    };
+
+    return (
+        <div>
+            {/* Carries the value for native required-field validation. */}
+            <input className="sr-only" tabIndex={-1} aria-hidden="true" value={hasValue ? String(value) : ''} required={required} onChange={() => {}} />
+            {isOpen ? (
+                <div className="space-y-2">
+                    <div className="relative">
+                        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                            <SearchIcon className="w-4 h-4 text-slate-400" />
+                        </div>
+                        <Input
+                            id={id}
+                            type="text"
+                            autoFocus
+                            value={query}
+                            onChange={e => setQuery(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Escape') {
+                                    e.stopPropagation();
+                                    setIsOpen(false);
+                                }
+                            }}
+                            placeholder={`Search ${relation.table}...`}
+                            className="pl-9 !py-2 text-sm"
+                        />
+                    </div>
+                    <ul className="max-h-48 overflow-y-auto rounded-lg border border-slate-700 bg-slate-900/70 divide-y divide-slate-800" role="listbox">
+                        {searchError ? (
+                            <li className="px-3 py-2 text-sm text-red-400">{searchError}</li>
+                        ) : options.length === 0 ? (
+                            <li className="px-3 py-2 text-sm text-slate-500">{isSearching ? 'Searching...' : 'No matching records.'}</li>
+                        ) : options.map(option => (
+                            <li key={option.value} role="option" aria-selected={String(value) === option.value}>
+                                <button
+                                    type="button"
+                                    onClick={() => select(option)}
+                                    className={`w-full text-left px-3 py-2 text-sm hover:bg-slate-700/50 ${String(value) === option.value ? 'text-emerald-400' : 'text-slate-200'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button type="button" onClick={() => setIsOpen(false)} className="text-xs text-slate-400 hover:text-white hover:underline">Cancel</button>
+                </div>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <button
+                        id={id}
+                        type="button"
+                        onClick={open}
+                        className="flex-1 text-left px-4 py-3 bg-slate-900/70 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500"
+                    >
+                        {hasValue ? <span className="text-slate-100">{selectedLabel}</span> : <span className="text-slate-500">Link a {relation.table} record...</span>}
+                    </button>
+                    {hasValue && !required && (
+                        <button type="button" onClick={() => onChange(null)} className="p-2 text-slate-400 hover:text-white" aria-label={`Clear ${column.name}`}>
+                            <CloseIcon className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RelationPicker;
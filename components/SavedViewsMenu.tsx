@@ -0,0 +1,110 @@
+import React from 'react';
+import { Menu } from '@headlessui/react';
+import type { SavedView } from '../types';
+import BookmarkIcon from './icons/BookmarkIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import CheckIcon from './icons/CheckIcon';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeView: SavedView | null; // Null while showing the table without a saved view
+  isModified: boolean; // The filters, sort, columns or tab differ from the active view
+  onSelectView: (view: SavedView | null) => void;
+  onSaveChanges: () => void;
+  onSaveAsNew: (name: string) => void;
+  onRename: (view: SavedView, name: string) => void;
+  onToggleDefault: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+}
+
+const itemClassName = (active: boolean) =>
+    `${active ? 'bg-slate-700 text-white' : 'text-slate-300'} group flex w-full items-center gap-2 rounded-md px-4 py-2 text-sm text-left`;
+
+const askForName = (message: string, initialName = ''): string | null => {
+    const name = window.prompt(message, initialName)?.trim();
+    return name ? name : null;
+};
+
+// The header's view switcher, with actions to save, rename, delete and set a table's default view.
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+    views, activeView, isModified, onSelectView, onSaveChanges, onSaveAsNew, onRename, onToggleDefault, onDelete
+}) => {
+    const handleSaveAsNew = () => {
+        const name = askForName('Name this view:', activeView ? `${activeView.name} (copy)` : '');
+        if (name) onSaveAsNew(name);
+    };
+
+    const handleRename = (view: SavedView) => {
+        const name = askForName('Rename this view:', view.name);
+        if (name && name !== view.name) onRename(view, name);
+    };
+
+    return (
+        <Menu as="div" className="relative inline-block text-left">
+            <Menu.Button className="inline-flex items-center gap-1.5 text-sm text-slate-400 hover:text-white focus:outline-none">
+                <BookmarkIcon className="h-4 w-4" />
+                <span>{activeView ? activeView.name : 'All records'}</span>
+                {activeView && isModified && <span className="text-xs text-amber-300">(edited)</span>}
+                <ChevronDownIcon className="h-4 w-4" aria-hidden="true" />
+            </Menu.Button>
+
+            <Menu.Items className="absolute left-0 z-30 mt-2 w-64 origin-top-left rounded-md bg-slate-800 border border-slate-700 shadow-lg focus:outline-none py-1">
+                <Menu.Item>
+                    {({ active }) => (
+                        <button onClick={() => onSelectView(null)} className={itemClassName(active)}>
+                            <CheckIcon className={`h-4 w-4 ${activeView ? 'invisible' : 'text-emerald-400'}`} />
+                            All records
+                        </button>
+                    )}
+                </Menu.Item>
+                {views.map(view => (
+                    <Menu.Item key={view.id}>
+                        {({ active }) => (
+                            <button onClick={() => onSelectView(view)} className={itemClassName(active)}>
+                                <CheckIcon className={`h-4 w-4 ${view.id === activeView?.id ? 'text-emerald-400' : 'invisible'}`} />
+                                <span className="flex-1 truncate">{view.name}</span>
+                                {view.isDefault && <span className="text-xs text-slate-500">Default</span>}
+                            </button>
+                        )}
+                    </Menu.Item>
+                ))}
+                <div className="my-1 border-t border-slate-700" />
+                {activeView && isModified && (
+                    <Menu.Item>
+                        {({ active }) => (
+                            <button onClick={onSaveChanges} className={itemClassName(active)}>Save changes to "{activeView.name}"</button>
+                        )}
+                    </Menu.Item>
+                )}
+                <Menu.Item>
+                    {({ active }) => (
+                        <button onClick={handleSaveAsNew} className={itemClassName(active)}>Save as new view...</button>
+                    )}
+                </Menu.Item>
+                {activeView && (
+                    <>
+                        <Menu.Item>
+                            {({ active }) => (
+                                <button onClick={() => handleRename(activeView)} className={itemClassName(active)}>Rename view...</button>
+                            )}
+                        </Menu.Item>
+                        <Menu.Item>
+                            {({ active }) => (
+                                <button onClick={() => onToggleDefault(activeView)} className={itemClassName(active)}>
+                                    {activeView.isDefault ? 'Stop opening this view by default' : 'Open this view by default'}
+                                </button>
+                            )}
+                        </Menu.Item>
+                        <Menu.Item>
+                            {({ active }) => (
+                                <button onClick={() => onDelete(activeView)} className={`${itemClassName(active)} hover:!text-red-400`}>Delete view</button>
+                            )}
+                        </Menu.Item>
+                    </>
+                )}
+            </Menu.Items>
+        </Menu>
+    );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { DatabaseSchema, ColumnDefinition } from '../types';
+import { diffSchema, generateAlterTableSql, getSchemaChangeWarnings, COLUMN_ID_PATTERN } from '../services/schemaSql';
+import type { SchemaDraftColumn, ColumnDependency } from '../services/schemaSql';
+import Button from './common/Button';
+import Input from './common/Input';
+import CloseIcon from './icons/CloseIcon';
+import PlusIcon from './icons/PlusIcon';
+import DeleteIcon from './icons/DeleteIcon';
+import ResetIcon from './icons/ResetIcon';
+
+interface SchemaEditorPanelProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  dependencies: ColumnDependency[];
+  onClose: () => void;
+  onApply: (sql: string, updatedSchema: DatabaseSchema) => Promise<void>;
+}
+
+const COLUMN_TYPES: { value: ColumnDefinition['type']; label: string }[] = [
+    { value: 'string', label: 'Text' },
+    { value: 'number', label: 'Number' },
+    { value: 'boolean', label: 'Checkbox' },
+    { value: 'date', label: 'Date' },
+    { value: 'select', label: 'Select' },
+];
+
+const prettifyColumnId = (id: string) => id.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const toDraft = (schema: DatabaseSchema): SchemaDraftColumn[] => schema.map(col => ({ ...col, originalId: col.id }));
+
+const SchemaEditorPanel: React.FC<SchemaEditorPanelProps> = ({ tableName, schema, dependencies, onClose, onApply }) => {
+    const [draft, setDraft] = useState<SchemaDraftColumn[]>(() => toDraft(schema));
+    const [isReviewing, setIsReviewing] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [applyError, setApplyError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDraft(toDraft(schema));
+        setIsReviewing(false);
+    }, [schema]);
+
+    const updateColumn = (index: number, changes: Partial<SchemaDraftColumn>) => {
+        setDraft(prev => prev.map((col, i) => i === index ? { ...col, ...changes } : col));
+    };
+
+    const handleAddColumn = () => {
+        setDraft(prev => [...prev, { id: '', name: '', type: 'string' }]);
+    };
+
+    const handleRemoveOrDrop = (index: number) => {
+        const col = draft[index];
+        if (col.originalId) {
+            updateColumn(index, { dropped: !col.dropped });
+        } else {
+            setDraft(prev => prev.filter((_, i) => i !== index));
+        }
+    };
+
+    const validationErrors = useMemo(() => {
+        const errors: string[] = [];
+        const liveIds = draft.filter(col => !col.dropped).map(col => col.id);
+        for (const id of liveIds) {
+            if (!COLUMN_ID_PATTERN.test(id)) {
+                errors.push(id ? `"${id}" is not a valid column name. Use lowercase letters, digits and underscores.` : 'Every column needs a name.');
+            }
+        }
+        const duplicates = liveIds.filter((id, i) => id && liveIds.indexOf(id) !== i);
+        for (const id of new Set(duplicates)) {
+            errors.push(`More than one column is named "${id}".`);
+        }
+        return errors;
+    }, [draft]);
+
+    const changes = useMemo(() => diffSchema(schema, draft), [schema, draft]);
+    const sql = useMemo(() => generateAlterTableSql(tableName, changes), [tableName, changes]);
+    const warnings = useMemo(() => getSchemaChangeWarnings(changes, dependencies), [changes, dependencies]);
+
+    const handleApply = async () => {
+        const updatedSchema: DatabaseSchema = draft
+            .filter(col => !col.dropped)
+            .map(({ originalId, dropped, ...col }) => ({
+                ...col,
+                name: col.name.trim() || prettifyColumnId(col.id),
+                options: col.type === 'select' ? (col.options || []).map(o => o.trim()).filter(Boolean) : undefined,
+            }));
+        setIsApplying(true);
+        setApplyError(null);
+        try {
+            await onApply(sql, updatedSchema);
+            onClose();
+        } catch (err: any) {
+            console.error("Failed to apply schema changes:", err);
+            setApplyError(err?.message || 'The database rejected the changes.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end">
+            <div className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+            <aside className="relative w-full max-w-xl h-full bg-slate-800 border-l border-slate-700 shadow-2xl flex flex-col">
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <div>
+                        <h3 className="font-semibold text-white">Edit Schema</h3>
+                        <p className="text-xs text-slate-400">Changes to <code className="text-emerald-400">{tableName}</code> are applied with ALTER TABLE.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-700 hover:text-white transition-colors" aria-label="Close schema editor">
+                        <CloseIcon className="h-6 w-6" />
+                    </button>
+                </header>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {!isReviewing ? (
+                        <>
+                            {draft.map((col, index) => {
+                                // Keys and database-managed columns can't be restructured from the editor.
+                                const source = schema.find(c => c.id === col.originalId);
+                                const isLocked = !!source && (!!source.isPrimaryKey || !!source.readOnly);
+                                // Relations come from foreign keys, which the editor doesn't manage.
+                                const isRelation = source?.type === 'relation';
+                                return (
+                                    <div key={col.originalId || `new-${index}`} className={`p-3 rounded-lg border space-y-2 ${col.dropped ? 'border-red-500/40 bg-red-500/5' : col.originalId ? 'border-slate-700 bg-slate-900/50' : 'border-emerald-500/40 bg-emerald-500/5'}`}>
+                                        <div className="flex items-center gap-2">
+                                            <Input
+                                                type="text"
+                                                value={col.id}
+                                                onChange={e => updateColumn(index, { id: e.target.value.trim() })}
+                                                placeholder="column_name"
+                                                disabled={isLocked || col.dropped}
+                                                className={`!py-2 text-sm font-mono ${col.dropped ? 'line-through' : ''}`}
+                                                aria-label="Column name"
+                                            />
+                                            <select
+                                                value={col.type}
+                                                onChange={e => updateColumn(index, { type: e.target.value as ColumnDefinition['type'] })}
+                                                disabled={isLocked || isRelation || col.dropped}
+                                                className="bg-slate-900 border border-slate-600 rounded-md p-2 text-sm disabled:opacity-50"
+                                                aria-label="Column type"
+                                            >
+                                                {isRelation && <option value="relation">Relation</option>}
+                                                {COLUMN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                            </select>
+                                            {!isLocked && (
+                                                <button
+                                                    onClick={() => handleRemoveOrDrop(index)}
+                                                    className="p-2 text-slate-400 hover:text-red-400"
+                                                    aria-label={col.dropped ? `Keep column ${col.id}` : `Drop column ${col.id}`}
+                                                    title={col.dropped ? 'Keep column' : 'Drop column'}
+                                                >
+                                                    {col.dropped ? <ResetIcon className="w-4 h-4" /> : <DeleteIcon className="w-4 h-4" />}
+                                                </button>
+                                            )}
+                                        </div>
+                                        {!col.originalId && (
+                                            <Input
+                                                type="text"
+                                                value={col.name}
+                                                onChange={e => updateColumn(index, { name: e.target.value })}
+                                                placeholder={col.id ? prettifyColumnId(col.id) : 'Display name'}
+                                                className="!py-2 text-sm"
+                                                aria-label="Display name"
+                                            />
+                                        )}
+                                        {!col.dropped && col.type === 'select' && (
+                                            <Input
+                                                type="text"
+                                                value={(col.options || []).join(',')}
+                                                onChange={e => updateColumn(index, { options: e.target.value.split(',') })}
+                                                placeholder="Options, separated by commas"
+                                                className="!py-2 text-sm"
+                                                aria-label="Select options"
+                                            />
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            <Button onClick={handleAddColumn} variant="secondary" size="sm" fullWidth>
+                                <PlusIcon className="h-4 w-4 mr-2" /> Add Column
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            {warnings.length > 0 && (
+                                <ul className="space-y-2">
+                                    {warnings.map((warning, i) => (
+                                        <li key={i} className={`text-sm p-3 rounded-lg border ${warning.level === 'danger' ? 'border-red-500/40 bg-red-500/10 text-red-300' : 'border-amber-500/40 bg-amber-500/10 text-amber-200'}`}>
+                                            {warning.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <div className="bg-slate-900 rounded-lg p-4 font-mono text-sm text-slate-300 border border-slate-700">
+                                <pre className="overflow-x-auto whitespace-pre-wrap"><code>{sql || '-- Only display settings change; no SQL needs to run.'}</code></pre>
+                            </div>
+                            {applyError && <p className="text-sm text-red-400">{applyError}</p>}
+                        </>
+                    )}
+                </div>
+
+                <footer className="p-4 border-t border-slate-700 space-y-3">
+                    {!isReviewing && validationErrors.length > 0 && (
+                        <ul className="text-xs text-red-400 space-y-1">
+                            {validationErrors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    <div className="flex justify-end gap-3">
+                        {isReviewing ? (
+                            <>
+                                <Button variant="secondary" onClick={() => setIsReviewing(false)} disabled={isApplying}>Back</Button>
+                                <Button onClick={handleApply} disabled={isApplying}>{isApplying ? 'Applying...' : 'Apply Changes'}</Button>
+                            </>
+                        ) : (
+                            <>
+                                <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                                <Button onClick={() => setIsReviewing(true)} disabled={changes.length === 0 || validationErrors.length > 0}>Review Changes</Button>
+                            </>
+                        )}
+                    </div>
+                </footer>
+            </aside>
+        </div>
+    );
+};
+
+export default SchemaEditorPanel;
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import Input from './common/Input';
+import SearchIcon from './icons/SearchIcon';
+import CloseIcon from './icons/CloseIcon';
+
+interface SearchBoxProps {
+  searchTerm: string;
+  onSearchTermChange: (searchTerm: string) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// The input updates immediately; the server query only follows once typing pauses.
+const SearchBox: React.FC<SearchBoxProps> = ({ searchTerm, onSearchTermChange }) => {
+    const [searchInput, setSearchInput] = useState(searchTerm);
+
+    useEffect(() => {
+        setSearchInput(searchTerm);
+    }, [searchTerm]);
+
+    useEffect(() => {
+        if (searchInput === searchTerm) return;
+        const timeout = setTimeout(() => onSearchTermChange(searchInput), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchInput, searchTerm, onSearchTermChange]);
+
+    return (
+        <div className="relative w-full max-w-xs">
+            <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                <SearchIcon className="w-5 h-5 text-slate-400" />
+            </div>
+            <Input
+                type="text"
+                placeholder="Search records..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10 !py-2"
+            />
+            {searchInput && (
+                <button
+                    onClick={() => { setSearchInput(''); onSearchTermChange(''); }}
+                    className="absolute inset-y-0 right-0 flex items-center pr-3"
+                    aria-label="Clear search"
+                >
+                    <CloseIcon className="w-5 h-5 text-slate-400 hover:text-white" />
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SearchBox;
@@ -7,11 +7,12 @@ import CheckIcon from './icons/CheckIcon';
 interface SchemaSetupScreenProps {
   tableName: string;
   sqlSchema: string;
+  isLocalWorkspace?: boolean; // The app runs the SQL itself, so there's nothing to copy
   onConfirm: () => void;
   onCancel: () => void;
 }
 
-const SchemaSetupScreen: React.FC<SchemaSetupScreenProps> = ({ tableName, sqlSchema, onConfirm, onCancel }) => {
+const SchemaSetupScreen: React.FC<SchemaSetupScreenProps> = ({ tableName, sqlSchema, isLocalWorkspace = false, onConfirm, onCancel }) => {
     const [copied, setCopied] = useState(false);
 
     const handleCopy = () => {
@@ -29,6 +30,28 @@ const SchemaSetupScreen: React.FC<SchemaSetupScreenProps> = ({ tableName, sqlSch
           <p className="text-slate-400 mt-2">The AI has generated the following SQL to structure your data.</p>
         </div>
         
+        {isLocalWorkspace ? (
+        <div className="bg-slate-800/50 border border-slate-700 p-8 rounded-2xl shadow-2xl shadow-emerald-500/10 space-y-6">
+            <p className="text-slate-400 text-sm">
+                This will create the table <code className="bg-slate-900 text-emerald-400 px-1.5 py-0.5 rounded text-xs">{tableName}</code> in your local workspace.
+            </p>
+            <div className="bg-slate-900 rounded-lg p-4 font-mono text-sm text-slate-300 border border-slate-700">
+                <pre className="overflow-x-auto whitespace-pre-wrap">
+                    <code>
+                        {sqlSchema}
+                    </code>
+                </pre>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4 pt-2">
+                <Button onClick={onCancel} variant="secondary" fullWidth>
+                  Cancel & Go Back
+                </Button>
+                <Button onClick={onConfirm} fullWidth>
+                  Create the Table
+                </Button>
+            </div>
+        </div>
+        ) : (
         <div className="bg-slate-800/50 border border-slate-700 p-8 rounded-2xl shadow-2xl shadow-emerald-500/10 space-y-6">
             <div>
                 <h2 className="text-lg font-semibold text-white">1. Go to your Supabase SQL Editor</h2>
@@ -71,6 +94,7 @@ const SchemaSetupScreen: React.FC<SchemaSetupScreenProps> = ({ tableName, sqlSch
                 </Button>
             </div>
         </div>
+        )}
       </div>
     </div>
   );
@@ -1,238 +1,544 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { DatabaseSchema, Record, ColumnDefinition, Filter, FilterOperator } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { DatabaseSchema, Record, RecordKey, ColumnDefinition, FilterNode, SortSpec, BulkResult, BulkProgressHandler, ColumnLayout, RecordGrouping, AggregateKind } from '../types';
 import Button from './common/Button';
-import Modal from './common/Modal';
-import Input from './common/Input';
+import RecordEditorModal from './RecordEditorModal';
+import BulkActionBar from './BulkActionBar';
+import RecordImportModal from './RecordImportModal';
+import ColumnManagerMenu from './ColumnManagerMenu';
+import SearchBox from './SearchBox';
+import FilterMenu from './FilterMenu';
+import ActiveFilters from './ActiveFilters';
+import GroupByMenu from './GroupByMenu';
+import CellEditor from './CellEditor';
+import type { CellMove } from './CellEditor';
+import type { BulkProgress, BulkReport } from './BulkActionBar';
 import PlusIcon from './icons/PlusIcon';
 import EditIcon from './icons/EditIcon';
 import DeleteIcon from './icons/DeleteIcon';
 import SortAscIcon from './icons/SortAscIcon';
 import SortDescIcon from './icons/SortDescIcon';
-import SearchIcon from './icons/SearchIcon';
 import CloseIcon from './icons/CloseIcon';
 import ExportIcon from './icons/ExportIcon';
-import FilterIcon from './icons/FilterIcon';
+import ImportIcon from './icons/ImportIcon';
+import JsonIcon from './icons/JsonIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import { Menu } from '@headlessui/react';
+import { useWindowedList } from './common/useWindowedList';
+import { getRecordKey, getDefaultSort, isKeyColumn } from '../services/recordKeys';
+import { formatCellValue } from '../services/cellFormat';
+import { getVisibleColumns, MIN_COLUMN_WIDTH, DEFAULT_PINNED_COLUMN_WIDTH } from '../services/savedViews';
+import { AGGREGATE_OPTIONS, getAggregateKind, getAggregateLabel, computeAggregate, getGroupColumns, groupRecords, needsAllRecords } from '../services/grouping';
+import type { RecordGroup } from '../services/grouping';
+import type { RelationLabels } from '../services/cellFormat';
+import { createRecordsFileHeader, serializeRecordsJson, serializeRecordsNdjson } from '../services/recordsFile';
 
 interface TableViewProps {
+  tableName: string;
   schema: DatabaseSchema;
-  records: Record[];
-  filters: Filter[];
-  onFiltersChange: (filters: Filter[]) => void;
-  onUpdateRecord: (recordId: string, updates: Partial<Omit<Record, 'id'>>) => void;
-  onCreateRecord: (newRecord: Omit<Record, 'id' | 'created_at'>) => void;
-  onDeleteRecord: (recordId: string) => void;
+  relationLabels: RelationLabels; // Titles of the records that relation columns point at
+  records: Record[]; // The current page, already filtered and sorted by the server
+  totalCount: number;
+  isLoadingRecords: boolean;
+  filters: FilterNode[];
+  onFiltersChange: (filters: FilterNode[]) => void;
+  sort: SortSpec | undefined;
+  onSortChange: (sort: SortSpec) => void;
+  searchTerm: string;
+  onSearchTermChange: (term: string) => void;
+  columnLayout: ColumnLayout;
+  onColumnLayoutChange: (layout: ColumnLayout) => void;
+  grouping: RecordGrouping; // When grouping or totalling, `records` holds every matching record rather than a page
+  onGroupingChange: (grouping: RecordGrouping) => void;
+  page: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  onFetchAllMatching: () => Promise<Record[]>;
+  remotelyChangedIds: Set<string>; // Rows recently changed by another user
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onUpdateCell: (recordKey: RecordKey, updates: Partial<Record>) => Promise<void>; // Rejects if the change wasn't saved
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+  onDeleteRecord: (recordKey: RecordKey) => void;
+  onBulkUpdate: (recordKeys: RecordKey[], updates: Partial<Record>, onProgress: BulkProgressHandler) => Promise<BulkResult<Record>>;
+  onBulkDelete: (recordKeys: RecordKey[], onProgress: BulkProgressHandler) => Promise<BulkResult<RecordKey>>;
+  onBulkDuplicate: (records: Record[], onProgress: BulkProgressHandler) => Promise<BulkResult<Record>>;
+  onImportRecords: (records: Partial<Record>[], upsertOn: string[] | undefined, onProgress: BulkProgressHandler) => Promise<BulkResult<Record>>;
 }
 
-const FilterPill: React.FC<{ filter: Filter, schema: DatabaseSchema, onRemove: () => void }> = ({ filter, schema, onRemove }) => {
-    const column = schema.find(c => c.id === filter.columnId);
-    if (!column) return null;
-    return (
-        <span className="flex items-center gap-1.5 bg-emerald-500/20 text-emerald-300 text-xs font-medium px-2 py-1 rounded-full">
-            {column.name} <span className="text-slate-400">{filter.operator.toLowerCase()}</span> "{filter.value}"
-            <button onClick={onRemove} className="text-emerald-300 hover:text-white"><CloseIcon className="w-3 h-3" /></button>
-        </span>
-    );
+// A cell by its position among the rows and visible columns on screen.
+interface CellPosition {
+    row: number;
+    column: number;
+}
+
+type CellDirection = Exclude<CellMove, 'none'> | 'left' | 'right';
+
+const ARROW_DIRECTIONS: { [key: string]: CellDirection } = {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+};
+
+type CellStatus = { state: 'saving' } | { state: 'error'; message: string };
+
+const getCellId = (recordKey: RecordKey, columnId: string) => JSON.stringify([recordKey, columnId]);
+
+// The selection checkboxes, which pinned columns stack against.
+const SELECT_COLUMN_WIDTH = 40;
+
+// A one-line row; the real height is measured once rows render.
+const ESTIMATED_ROW_HEIGHT = 53;
+
+// The rows of the table body. `row` counts only the record rows shown, which keyboard navigation moves through.
+type TableItem =
+    | { kind: 'group'; group: RecordGroup; isCollapsed: boolean }
+    | { kind: 'record'; record: Record; row: number }
+    | { kind: 'footer'; group: RecordGroup | null; records: Record[] }; // A null group totals every record
+
+// Group headers, the records of expanded groups with a footer each, and a totals row at the end.
+const layoutTableItems = (
+    records: Record[], groups: RecordGroup[], collapsedGroupIds: Set<string>, showGroupFooters: boolean, showTotals: boolean
+): TableItem[] => {
+    const items: TableItem[] = [];
+    let row = 0;
+    const addRecords = (members: Record[]) => members.forEach(record => items.push({ kind: 'record', record, row: row++ }));
+    const addGroups = (nested: RecordGroup[]) => nested.forEach(group => {
+        const isCollapsed = collapsedGroupIds.has(group.id);
+        items.push({ kind: 'group', group, isCollapsed });
+        if (isCollapsed) return;
+        if (group.subgroups.length > 0) {
+            addGroups(group.subgroups);
+        } else {
+            addRecords(group.records);
+        }
+        if (showGroupFooters) items.push({ kind: 'footer', group, records: group.records });
+    });
+    if (groups.length > 0) {
+        addGroups(groups);
+    } else {
+        addRecords(records);
+    }
+    if (showTotals && records.length > 0) items.push({ kind: 'footer', group: null, records });
+    return items;
 };
 
-const TableView: React.FC<TableViewProps> = ({ schema, records, filters, onFiltersChange, onUpdateRecord, onCreateRecord, onDeleteRecord }) => {
+type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+const EXPORT_FORMATS: { format: ExportFormat; visibleColumnsOnly?: boolean; label: string; description: string }[] = [
+    { format: 'csv', label: 'CSV', description: 'Formatted for spreadsheets' },
+    { format: 'csv', visibleColumnsOnly: true, label: 'CSV, visible columns only', description: 'The columns shown, in their current order' },
+    { format: 'json', label: 'JSON', description: 'Raw values and schema, re-importable' },
+    { format: 'ndjson', label: 'NDJSON', description: 'One record per line, re-importable' },
+];
+
+const TableView: React.FC<TableViewProps> = ({
+    tableName, schema, relationLabels, records, totalCount, isLoadingRecords, filters, onFiltersChange, sort, onSortChange,
+    searchTerm, onSearchTermChange, columnLayout, onColumnLayoutChange, grouping, onGroupingChange, page, pageSize, onPageChange, onFetchAllMatching, remotelyChangedIds, onUpdateRecord, onUpdateCell, onCreateRecord, onDeleteRecord,
+    onBulkUpdate, onBulkDelete, onBulkDuplicate, onImportRecords
+}) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingRecord, setEditingRecord] = useState<Partial<Record> | null>(null);
-    const [sortColumn, setSortColumn] = useState<string>('created_at');
-    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-    const [searchTerm, setSearchTerm] = useState('');
-
-    const [isFilterMenuOpen, setIsFilterMenuOpen] = useState(false);
-    const filterMenuRef = useRef<HTMLDivElement>(null);
-    
-    // State for the new filter being built
-    const [newFilterColumn, setNewFilterColumn] = useState<string>(schema[0]?.id || '');
-    const [newFilterOperator, setNewFilterOperator] = useState<FilterOperator>('EQUALS');
-    const [newFilterValue, setNewFilterValue] = useState('');
+    const [editingKey, setEditingKey] = useState<RecordKey | null>(null); // Null while creating
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    // Selected rows by key. Selections can span pages, so the rows themselves are kept for export and duplication.
+    const [selectedRecords, setSelectedRecords] = useState<Map<RecordKey, Record>>(new Map());
+    const [isSelectingAll, setIsSelectingAll] = useState(false);
+    const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+    const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
+    const selectAllCheckboxRef = useRef<HTMLInputElement>(null);
+    const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+    const [isEditingCell, setIsEditingCell] = useState(false);
+    // Inline edits that are saving or failed to save, by record key and column.
+    const [cellStatuses, setCellStatuses] = useState<Map<string, CellStatus>>(new Map());
+    const tableRef = useRef<HTMLTableElement>(null);
+    const tableBodyRef = useRef<HTMLTableSectionElement>(null);
+    // Set when the keyboard moves the active cell, until that cell has been focused.
+    const pendingCellFocus = useRef(false);
+    const [collapsedGroupIds, setCollapsedGroupIds] = useState<Set<string>>(new Set());
+    // The width of a column while its edge is being dragged; the layout only changes once it's let go.
+    const [resizingColumn, setResizingColumn] = useState<{ columnId: string; width: number } | null>(null);
+
+    // A selection only makes sense against the rows it was made from.
+    useEffect(() => {
+        setSelectedRecords(new Map());
+        setBulkReport(null);
+    }, [schema, filters, searchTerm]);
 
+    // Keep the stored copies of selected rows current as they are edited.
     useEffect(() => {
-        const handleClickOutside = (event: MouseEvent) => {
-            if (filterMenuRef.current && !filterMenuRef.current.contains(event.target as Node)) {
-                setIsFilterMenuOpen(false);
+        setSelectedRecords(prev => {
+            if (prev.size === 0) return prev;
+            let next: Map<RecordKey, Record> | null = null;
+            for (const record of records) {
+                const recordKey = getRecordKey(record, schema);
+                if (prev.has(recordKey) && prev.get(recordKey) !== record) {
+                    next = next || new Map(prev);
+                    next.set(recordKey, record);
+                }
             }
-        };
-        document.addEventListener("mousedown", handleClickOutside);
-        return () => document.removeEventListener("mousedown", handleClickOutside);
-    }, []);
+            return next || prev;
+        });
+    }, [records, schema]);
 
-    const handleSort = (columnId: string) => {
-        if (sortColumn === columnId) {
-            setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    // Positions refer to the rows on screen, so they don't carry over to another page or query.
+    useEffect(() => {
+        setActiveCell(null);
+        setIsEditingCell(false);
+        pendingCellFocus.current = false;
+    }, [schema, filters, searchTerm, sort, page, grouping]);
+
+    useEffect(() => {
+        setCollapsedGroupIds(new Set());
+    }, [grouping.groupBy]);
+
+    useEffect(() => {
+        setCellStatuses(new Map());
+    }, [schema]);
+
+    const visibleColumns = getVisibleColumns(schema, columnLayout);
+    const isUnpaged = needsAllRecords(schema, grouping);
+    const hasAggregates = visibleColumns.some(col => getAggregateKind(col, grouping) !== null);
+
+    const tableItems = useMemo(() => {
+        const groups = groupRecords(records, getGroupColumns(schema, grouping), relationLabels);
+        return layoutTableItems(records, groups, collapsedGroupIds, hasAggregates, isUnpaged);
+    }, [records, schema, grouping, relationLabels, collapsedGroupIds, hasAggregates, isUnpaged]);
+
+    // The record rows in display order, with where each sits among the table's rows.
+    const displayedRows = useMemo(
+        () => tableItems.flatMap((item, itemIndex) => item.kind === 'record' ? [{ record: item.record, itemIndex }] : []),
+        [tableItems]
+    );
+
+    // Only the rows on screen are rendered, so large tables scroll smoothly.
+    const rowWindow = useWindowedList(tableBodyRef, tableItems.length, ESTIMATED_ROW_HEIGHT);
+    const firstRenderedRow = tableItems.slice(rowWindow.start, rowWindow.end).find(item => item.kind === 'record');
+
+    // Keyboard focus follows the active cell after a keyboard move, unless the user has moved on to something
+    // outside the table. A cell whose row isn't rendered is scrolled to first, and focused once its row renders.
+    // Scrolling the table otherwise leaves the active cell where it is.
+    const { scrollToIndex } = rowWindow;
+    useEffect(() => {
+        if (!pendingCellFocus.current || !activeCell || isEditingCell) return;
+        const focused = document.activeElement;
+        if (focused && focused !== document.body && !tableRef.current?.contains(focused)) {
+            pendingCellFocus.current = false;
+            return;
+        }
+        const cell = tableRef.current?.querySelector<HTMLElement>(`[data-cell="${activeCell.row}:${activeCell.column}"]`);
+        if (cell) {
+            pendingCellFocus.current = false;
+            cell.focus();
         } else {
-            setSortColumn(columnId);
-            setSortDirection('asc');
+            const target = displayedRows[activeCell.row];
+            if (target) scrollToIndex(target.itemIndex);
+            else pendingCellFocus.current = false;
         }
+    }, [activeCell, isEditingCell, displayedRows, scrollToIndex, rowWindow.start, rowWindow.end]);
+    const pinnedCount = visibleColumns.filter(col => columnLayout.pinnedColumnIds.includes(col.id)).length;
+
+    const getColumnWidth = (column: ColumnDefinition): number | undefined => {
+        if (resizingColumn?.columnId === column.id) return resizingColumn.width;
+        return columnLayout.columnWidths[column.id] ?? (columnLayout.pinnedColumnIds.includes(column.id) ? DEFAULT_PINNED_COLUMN_WIDTH : undefined);
     };
 
-    const sortedRecords = useMemo(() => {
-        return [...records].sort((a, b) => {
-            const aVal = a[sortColumn];
-            const bVal = b[sortColumn];
+    // Pinned columns stick at the combined width of the checkboxes and the pinned columns before them.
+    const pinnedOffsets: number[] = [];
+    visibleColumns.slice(0, pinnedCount).reduce((left, col) => {
+        pinnedOffsets.push(left);
+        return left + (getColumnWidth(col) ?? DEFAULT_PINNED_COLUMN_WIDTH);
+    }, SELECT_COLUMN_WIDTH);
+
+    const getColumnStyle = (column: ColumnDefinition, index: number): React.CSSProperties => {
+        const width = getColumnWidth(column);
+        const sizing = width === undefined ? {} : { width, minWidth: width, maxWidth: width };
+        return index < pinnedCount ? { ...sizing, position: 'sticky', left: pinnedOffsets[index] } : sizing;
+    };
 
-            if (aVal === null || aVal === undefined) return 1;
-            if (bVal === null || bVal === undefined) return -1;
+    const selectColumnStyle: React.CSSProperties | undefined = pinnedCount > 0
+        ? { width: SELECT_COLUMN_WIDTH, minWidth: SELECT_COLUMN_WIDTH, position: 'sticky', left: 0 }
+        : undefined;
 
-            if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
-            if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
-            return 0;
+    const startColumnResize = (e: React.MouseEvent<HTMLElement>, column: ColumnDefinition) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const startX = e.clientX;
+        const startWidth = e.currentTarget.parentElement?.getBoundingClientRect().width ?? MIN_COLUMN_WIDTH;
+        let width: number | null = null; // Stays null for a click, which leaves the width alone
+        const handleMouseMove = (event: MouseEvent) => {
+            width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX));
+            setResizingColumn({ columnId: column.id, width });
+        };
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+            setResizingColumn(null);
+            if (width !== null) onColumnLayoutChange({ ...columnLayout, columnWidths: { ...columnLayout.columnWidths, [column.id]: width } });
+        };
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    // Double-clicking a column's edge lets it size to its content again.
+    const resetColumnWidth = (column: ColumnDefinition) => {
+        const { [column.id]: _removed, ...columnWidths } = columnLayout.columnWidths;
+        onColumnLayoutChange({ ...columnLayout, columnWidths });
+    };
+    const pageKeys = records.map(record => getRecordKey(record, schema));
+    const selectedOnPage = pageKeys.filter(recordKey => selectedRecords.has(recordKey)).length;
+    const isPageSelected = records.length > 0 && selectedOnPage === records.length;
+
+    useEffect(() => {
+        if (selectAllCheckboxRef.current) {
+            selectAllCheckboxRef.current.indeterminate = selectedOnPage > 0 && !isPageSelected;
+        }
+    }, [selectedOnPage, isPageSelected]);
+
+    const toggleRecordSelection = (record: Record) => {
+        const recordKey = getRecordKey(record, schema);
+        setSelectedRecords(prev => {
+            const next = new Map(prev);
+            if (next.has(recordKey)) {
+                next.delete(recordKey);
+            } else {
+                next.set(recordKey, record);
+            }
+            return next;
         });
-    }, [records, sortColumn, sortDirection]);
-
-    const filteredRecords = useMemo(() => {
-        let recordsToFilter = [...sortedRecords];
-
-        // Apply structured filters
-        if (filters.length > 0) {
-            recordsToFilter = recordsToFilter.filter(record => {
-                return filters.every(filter => {
-                    const recordValue = record[filter.columnId];
-                    if (recordValue === null || recordValue === undefined) return false;
-                    const recordValueStr = String(recordValue).toLowerCase();
-                    const filterValueStr = String(filter.value).toLowerCase();
-
-                    switch (filter.operator) {
-                        case 'EQUALS': return recordValueStr === filterValueStr;
-                        case 'NOT_EQUALS': return recordValueStr !== filterValueStr;
-                        case 'CONTAINS': return recordValueStr.includes(filterValueStr);
-                        case 'GREATER_THAN': return Number(recordValue) > Number(filter.value);
-                        case 'LESS_THAN': return Number(recordValue) < Number(filter.value);
-                        default: return true;
-                    }
-                });
-            });
+    };
+
+    const togglePageSelection = () => {
+        setSelectedRecords(prev => {
+            const next = new Map(prev);
+            records.forEach((record, i) => isPageSelected ? next.delete(pageKeys[i]) : next.set(pageKeys[i], record));
+            return next;
+        });
+    };
+
+    const handleSelectAllMatching = async () => {
+        setIsSelectingAll(true);
+        try {
+            const allMatching = await onFetchAllMatching();
+            setSelectedRecords(new Map(allMatching.map(record => [getRecordKey(record, schema), record])));
+        } catch (err) {
+            console.error("Failed to select all matching records:", err);
+            alert("Failed to select all matching records. Please try again.");
+        } finally {
+            setIsSelectingAll(false);
         }
+    };
 
-        // Apply free-text search
-        if (searchTerm) {
-            recordsToFilter = recordsToFilter.filter(record => {
-                return Object.values(record).some(value =>
-                    String(value).toLowerCase().includes(searchTerm.toLowerCase())
-                );
-            });
+    // Runs a bulk action on the selection after one confirmation. Rows that fail stay selected so they can be retried.
+    const runBulkAction = async <T,>(
+        labels: { progress: string; done: string },
+        confirmation: string,
+        run: (recordKeys: RecordKey[], onProgress: BulkProgressHandler) => Promise<BulkResult<T>>
+    ) => {
+        const recordKeys = Array.from(selectedRecords.keys());
+        if (recordKeys.length === 0 || !window.confirm(confirmation)) return;
+        setBulkReport(null);
+        setBulkProgress({ label: labels.progress, completed: 0, total: recordKeys.length });
+        try {
+            const result = await run(recordKeys, (completed, total) => setBulkProgress({ label: labels.progress, completed, total }));
+            const failures = result.failures.map(failure => ({ recordKey: recordKeys[failure.index], message: failure.message }));
+            setBulkReport({ label: labels.done, succeeded: result.succeeded.length, failures });
+            setSelectedRecords(prev => new Map(failures.filter(f => prev.has(f.recordKey)).map(f => [f.recordKey, prev.get(f.recordKey)!])));
+        } catch (err) {
+            console.error(`Bulk action "${labels.progress}" failed:`, err);
+            alert("The bulk action could not be completed. Please try again.");
+        } finally {
+            setBulkProgress(null);
         }
+    };
+
+    const handleBulkSetField = (columnId: string, value: any) => {
+        const column = schema.find(c => c.id === columnId);
+        const count = selectedRecords.size;
+        runBulkAction(
+            { progress: 'Updating', done: 'Updated' },
+            `Set "${column?.name || columnId}" on ${count} record${count === 1 ? '' : 's'}?`,
+            (recordKeys, onProgress) => onBulkUpdate(recordKeys, { [columnId]: value }, onProgress)
+        );
+    };
 
-        return recordsToFilter;
-    }, [sortedRecords, searchTerm, filters]);
+    const handleBulkDelete = () => {
+        const count = selectedRecords.size;
+        runBulkAction(
+            { progress: 'Deleting', done: 'Deleted' },
+            `Are you sure you want to delete ${count} record${count === 1 ? '' : 's'}? This cannot be undone.`,
+            onBulkDelete
+        );
+    };
+
+    const handleBulkDuplicate = () => {
+        const count = selectedRecords.size;
+        runBulkAction(
+            { progress: 'Duplicating', done: 'Duplicated' },
+            `Create a copy of ${count} record${count === 1 ? '' : 's'}?`,
+            (recordKeys, onProgress) => onBulkDuplicate(recordKeys.map(recordKey => selectedRecords.get(recordKey)!), onProgress)
+        );
+    };
 
+    const activeSort = sort ?? getDefaultSort(schema);
+    const sortColumn = activeSort?.columnId ?? null;
+    const sortDirection = activeSort?.direction ?? 'desc';
+
+    const handleSort = (columnId: string) => {
+        if (sortColumn === columnId) {
+            onSortChange({ columnId, direction: sortDirection === 'asc' ? 'desc' : 'asc' });
+        } else {
+            onSortChange({ columnId, direction: 'asc' });
+        }
+    };
+
+    const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+    const firstRowNumber = totalCount === 0 ? 0 : page * pageSize + 1;
+    const lastRowNumber = Math.min(totalCount, page * pageSize + records.length);
 
     const openCreateModal = () => {
-        setEditingRecord({});
+        // Prefill literal column defaults; required checkboxes start unchecked rather than empty.
+        const initialValues: Partial<Record> = {};
+        for (const col of schema) {
+            if (col.readOnly) continue;
+            if (col.defaultValue !== undefined) {
+                initialValues[col.id] = col.defaultValue;
+            } else if (col.type === 'boolean' && col.required) {
+                initialValues[col.id] = false;
+            }
+        }
+        setEditingRecord(initialValues);
+        setEditingKey(null);
         setIsModalOpen(true);
     };
 
     const openEditModal = (record: Record) => {
         setEditingRecord(record);
+        setEditingKey(getRecordKey(record, schema));
         setIsModalOpen(true);
     };
 
     const closeModal = () => {
         setIsModalOpen(false);
         setEditingRecord(null);
+        setEditingKey(null);
     };
 
-    const handleSave = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!editingRecord) return;
+    const renderCell = (record: Record, column: ColumnDefinition): string => formatCellValue(record, column, relationLabels);
+
+    // The same columns the record editor lets you change.
+    const isEditableColumn = (column: ColumnDefinition) => !column.readOnly && !isKeyColumn(column.id, schema);
+
+    // The neighbouring cell, or null at the edge. Tab and Shift+Tab continue onto the next or previous row.
+    const getAdjacentCell = ({ row, column }: CellPosition, direction: CellDirection): CellPosition | null => {
+        const lastColumn = visibleColumns.length - 1;
+        const next = direction === 'up' ? { row: row - 1, column }
+            : direction === 'down' ? { row: row + 1, column }
+            : direction === 'left' ? { row, column: column - 1 }
+            : direction === 'right' ? { row, column: column + 1 }
+            : direction === 'next' ? (column < lastColumn ? { row, column: column + 1 } : { row: row + 1, column: 0 })
+            : (column > 0 ? { row, column: column - 1 } : { row: row - 1, column: lastColumn });
+        const isInside = next.row >= 0 && next.row < displayedRows.length && next.column >= 0 && next.column <= lastColumn;
+        return isInside ? next : null;
+    };
 
-        const { id, created_at, ...updates } = editingRecord;
+    const setCellStatus = (cellId: string, status: CellStatus | null) => {
+        setCellStatuses(prev => {
+            const next = new Map(prev);
+            if (status) {
+                next.set(cellId, status);
+            } else {
+                next.delete(cellId);
+            }
+            return next;
+        });
+    };
 
-        if (id) { // Editing existing record
-            onUpdateRecord(id, updates);
-        } else { // Creating new record
-            onCreateRecord(updates);
+    // Relations need the record picker, so those cells open the full editor instead.
+    const startEditingCell = (record: Record, column: ColumnDefinition) => {
+        if (isEditingCell || !isEditableColumn(column)) return;
+        if (column.type === 'relation') {
+            openEditModal(record);
+            return;
         }
-        closeModal();
+        setCellStatus(getCellId(getRecordKey(record, schema), column.id), null);
+        setIsEditingCell(true);
     };
 
-    const renderCell = (record: Record, column: ColumnDefinition): string => {
-        const value = record[column.id];
-
-        if (value === null || value === undefined) {
-            return 'N/A';
-        }
-        if (column.type === 'boolean') {
-          return value ? 'Yes' : 'No';
+    // Inline edits are saved one cell at a time, and a failure is shown on the cell rather than in an alert.
+    const handleSaveCell = async (record: Record, column: ColumnDefinition, value: any) => {
+        const recordKey = getRecordKey(record, schema);
+        const cellId = getCellId(recordKey, column.id);
+        setCellStatus(cellId, { state: 'saving' });
+        try {
+            await onUpdateCell(recordKey, { [column.id]: value });
+            setCellStatus(cellId, null);
+        } catch (err) {
+            setCellStatus(cellId, { state: 'error', message: (err as { message?: string })?.message || 'Unknown error' });
         }
-        if (column.type === 'date') {
-            if (!value) return 'N/A';
-            try {
-                const date = new Date(value);
-                const userTimezoneOffset = date.getTimezoneOffset() * 60000;
-                return new Date(date.getTime() + userTimezoneOffset).toLocaleDateString();
-            } catch {
-                return 'Invalid Date';
-            }
-        }
-        return value.toString();
-    }
-    
-    const renderFormField = (column: ColumnDefinition) => {
-        if (column.id === 'id' || column.id === 'created_at') return null;
-
-        const value = editingRecord?.[column.id] || '';
-
-        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-            const { name, value, type } = e.target;
-            let finalValue: any = value;
+    };
 
-            if (type === 'checkbox') {
-              finalValue = (e.target as HTMLInputElement).checked;
-            } else if (column.type === 'number') {
-              finalValue = value === '' ? null : Number(value);
-            } else if (column.type === 'date') {
-               finalValue = value === '' ? null : new Date(value).toISOString();
-            }
+    const handleCloseCellEditor = (move: CellMove) => {
+        setIsEditingCell(false);
+        pendingCellFocus.current = true;
+        if (move !== 'none') setActiveCell(prev => prev && (getAdjacentCell(prev, move) ?? prev));
+    };
 
-            setEditingRecord(prev => ({ ...prev, [name]: finalValue }));
-        };
+    const handleCellKeyDown = (e: React.KeyboardEvent, position: CellPosition, record: Record, column: ColumnDefinition) => {
+        const direction = ARROW_DIRECTIONS[e.key] ?? (e.key === 'Tab' ? (e.shiftKey ? 'previous' : 'next') : null);
+        if (direction) {
+            const next = getAdjacentCell(position, direction);
+            if (!next) return; // Tabbing past either end leaves the table
+            e.preventDefault();
+            pendingCellFocus.current = true;
+            setActiveCell(next);
+        } else if (e.key === 'Enter' || e.key === 'F2') {
+            e.preventDefault();
+            startEditingCell(record, column);
+        }
+    };
 
-        return (
-            <div key={column.id}>
-                <label htmlFor={column.id} className="block text-sm font-medium text-slate-300 mb-2">{column.name}</label>
-                {column.type === 'select' ? (
-                     <select
-                        id={column.id}
-                        name={column.id}
-                        value={value}
-                        onChange={handleChange}
-                        className="w-full px-4 py-3 bg-slate-900/70 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500"
-                    >
-                        <option value="">Select...</option>
-                        {column.options?.map(opt => <option key={opt} value={opt}>{opt}</option>)}
-                    </select>
-                ) : column.type === 'boolean' ? (
-                     <input
-                        id={column.id}
-                        name={column.id}
-                        type="checkbox"
-                        checked={!!value}
-                        onChange={handleChange}
-                        className="h-5 w-5 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
-                    />
-                ) : (
-                    <Input
-                        id={column.id}
-                        name={column.id}
-                        type={column.type === 'date' ? 'date' : column.type === 'number' ? 'number' : 'text'}
-                        value={column.type === 'date' && value ? (value as string).split('T')[0] : value}
-                        onChange={handleChange}
-                    />
-                )}
-            </div>
-        )
-    }
+    const handleExport = async (format: ExportFormat, visibleColumnsOnly = false) => {
+        if (totalCount === 0) return;
+
+        // The table only holds the current page, so the export re-reads every matching row.
+        let recordsToExport: Record[];
+        setIsExporting(true);
+        try {
+            recordsToExport = await onFetchAllMatching();
+        } catch (err) {
+            console.error("Failed to fetch records for export:", err);
+            alert("Failed to export records. Please try again.");
+            return;
+        } finally {
+            setIsExporting(false);
+        }
+        if (format === 'csv') {
+            downloadCsv(recordsToExport, visibleColumnsOnly ? visibleColumns : schema);
+        } else {
+            downloadRecordsFile(recordsToExport, format);
+        }
+    };
 
-    const handleExportCsv = () => {
-        if (filteredRecords.length === 0) return;
+    // Raw values and the schema, so that the file can be imported back without loss.
+    const downloadRecordsFile = (recordsToExport: Record[], format: 'json' | 'ndjson') => {
+        const header = createRecordsFileHeader(tableName, schema);
+        const content = format === 'json' ? serializeRecordsJson(header, recordsToExport) : serializeRecordsNdjson(header, recordsToExport);
+        const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'application/x-ndjson' }));
+        const link = document.createElement("a");
+        link.setAttribute("href", url);
+        link.setAttribute("download", `${tableName}_${new Date().toISOString().split('T')[0]}.${format}`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
 
-        const headers = schema.map(col => col.name).join(',');
+    const downloadCsv = (recordsToExport: Record[], columns: ColumnDefinition[] = schema) => {
+        const headers = columns.map(col => col.name).join(',');
         
-        const rows = filteredRecords.map(record => {
-            return schema.map(col => {
+        const rows = recordsToExport.map(record => {
+            return columns.map(col => {
                 let cellData = renderCell(record, col);
                 // Escape commas and quotes
                 if (cellData.includes('"')) {
@@ -255,97 +561,243 @@ const TableView: React.FC<TableViewProps> = ({ schema, records, filters, onFilte
         document.body.removeChild(link);
     };
     
-    const handleAddFilter = () => {
-        if (!newFilterValue.trim()) return;
-        const newFilter: Filter = {
-            columnId: newFilterColumn,
-            operator: newFilterOperator,
-            value: newFilterValue,
-        };
-        onFiltersChange([...filters, newFilter]);
-        setNewFilterValue('');
-        setIsFilterMenuOpen(false);
+    const toggleGroup = (groupId: string) => {
+        setCollapsedGroupIds(prev => {
+            const next = new Set(prev);
+            if (next.has(groupId)) {
+                next.delete(groupId);
+            } else {
+                next.add(groupId);
+            }
+            return next;
+        });
     };
-    
-    const handleRemoveFilter = (index: number) => {
-        onFiltersChange(filters.filter((_, i) => i !== index));
+
+    const handleAggregateChange = (columnId: string, kind: AggregateKind | 'none') => {
+        onGroupingChange({ ...grouping, aggregates: { ...grouping.aggregates, [columnId]: kind } });
+    };
+
+    const renderGroupRow = (group: RecordGroup, isCollapsed: boolean, rowRef?: (element: HTMLElement | null) => void) => (
+        <tr key={`group:${group.id}`} ref={rowRef} className="border-b border-slate-700 bg-slate-900/60">
+            <td colSpan={visibleColumns.length + 2} className="px-4 py-3">
+                {/* Sticky so the heading stays readable when the table is scrolled sideways. */}
+                <button
+                    onClick={() => toggleGroup(group.id)}
+                    className="sticky left-4 inline-flex items-center gap-2 text-sm text-slate-200 hover:text-white"
+                    style={{ paddingLeft: group.level * 24 }}
+                    aria-expanded={!isCollapsed}
+                >
+                    <ChevronDownIcon className={`h-4 w-4 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                    <span className="text-slate-400">{group.column.name}:</span>
+                    <span className="font-semibold">{group.label}</span>
+                    <span className="text-xs bg-slate-700 text-slate-300 rounded-full px-2 py-0.5">{group.records.length.toLocaleString()}</span>
+                </button>
+            </td>
+        </tr>
+    );
+
+    // Group footers show each column's aggregate; the totals row at the end is also where it's chosen.
+    const renderFooterRow = (group: RecordGroup | null, footerRecords: Record[], rowRef?: (element: HTMLElement | null) => void) => (
+        <tr
+            key={group ? `footer:${group.id}` : 'footer'}
+            ref={rowRef}
+            className={`border-b border-slate-700 text-xs ${group ? 'bg-slate-900/30 text-slate-400' : 'bg-slate-700/40 text-slate-300'}`}
+        >
+            <td className={`pl-4 py-3 w-4 ${pinnedCount > 0 ? 'z-10 bg-slate-800' : ''}`} style={selectColumnStyle} />
+            {visibleColumns.map((col, colIndex) => {
+                const kind = getAggregateKind(col, grouping);
+                const options = AGGREGATE_OPTIONS[col.type];
+                return (
+                    <td
+                        key={col.id}
+                        style={getColumnStyle(col, colIndex)}
+                        className={`px-6 py-3 whitespace-nowrap ${colIndex < pinnedCount ? 'z-10 bg-slate-800' : ''} ${colIndex === pinnedCount - 1 ? 'border-r border-slate-700' : ''}`}
+                    >
+                        {!group && options.length > 0 ? (
+                            <span className="flex items-center gap-2">
+                                <select
+                                    value={kind ?? 'none'}
+                                    onChange={e => handleAggregateChange(col.id, e.target.value as AggregateKind | 'none')}
+                                    className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs"
+                                    aria-label={`Summary of ${col.name}`}
+                                >
+                                    <option value="none">None</option>
+                                    {options.map(option => <option key={option} value={option}>{getAggregateLabel(option)}</option>)}
+                                </select>
+                                {kind && <span className="font-semibold text-slate-100">{computeAggregate(footerRecords, col, kind)}</span>}
+                            </span>
+                        ) : kind && (
+                            <span>
+                                <span className="text-slate-500">{getAggregateLabel(kind)} </span>
+                                <span className="font-semibold text-slate-200">{computeAggregate(footerRecords, col, kind)}</span>
+                            </span>
+                        )}
+                    </td>
+                );
+            })}
+            <td className="px-6 py-3 text-right whitespace-nowrap font-semibold">{group ? `${group.label} total` : 'Total'}</td>
+        </tr>
+    );
+
+    const renderRecordRow = (record: Record, rowIndex: number, firstRenderedRow: number | undefined, rowRef?: (element: HTMLElement | null) => void) => {
+        const recordKey = getRecordKey(record, schema);
+        const isRemotelyChanged = remotelyChangedIds.has(recordKey);
+        const isSelected = selectedRecords.has(recordKey);
+        return (
+            <tr
+                key={recordKey}
+                ref={rowRef}
+                className={`border-b border-slate-700 hover:bg-slate-700/30 transition-colors duration-1000 ${isRemotelyChanged ? 'bg-sky-500/10' : isSelected ? 'bg-emerald-500/5' : ''}`}
+                title={isRemotelyChanged ? 'Updated by someone else' : undefined}
+            >
+                <td className={`pl-4 py-4 w-4 ${pinnedCount > 0 ? 'z-10 bg-slate-800' : ''}`} style={selectColumnStyle}>
+                    <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleRecordSelection(record)}
+                        disabled={!!bulkProgress}
+                        className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                        aria-label={`Select record ${recordKey}`}
+                    />
+                </td>
+                {visibleColumns.map((col, colIndex) => {
+                    const cellValue = renderCell(record, col);
+                    const position = { row: rowIndex, column: colIndex };
+                    // Without an active cell, the first one on screen is where tabbing into the table lands.
+                    const isActive = activeCell ? activeCell.row === rowIndex && activeCell.column === colIndex : rowIndex === firstRenderedRow && colIndex === 0;
+                    const status = cellStatuses.get(getCellId(recordKey, col.id));
+                    const isEditing = isEditingCell && isActive;
+                    // Sized columns cut long values short rather than growing.
+                    const isTruncated = getColumnWidth(col) !== undefined && !isEditing;
+                    return (
+                        <td
+                            key={col.id}
+                            data-cell={`${rowIndex}:${colIndex}`}
+                            tabIndex={isActive ? 0 : -1}
+                            onFocus={() => setActiveCell(prev => prev?.row === rowIndex && prev.column === colIndex ? prev : position)}
+                            onKeyDown={e => handleCellKeyDown(e, position, record, col)}
+                            onDoubleClick={() => startEditingCell(record, col)}
+                            style={getColumnStyle(col, colIndex)}
+                            className={`px-6 py-4 relative focus:outline-none ${colIndex < pinnedCount ? 'z-10 bg-slate-800' : ''} ${colIndex === pinnedCount - 1 ? 'border-r border-slate-700' : ''} ${isTruncated ? 'overflow-hidden text-ellipsis whitespace-nowrap' : ''} ${activeCell && isActive ? 'ring-2 ring-inset ring-emerald-500/60' : ''} ${status?.state === 'error' ? 'bg-red-500/10' : ''}`}
+                            title={status?.state === 'error' ? `Not saved: ${status.message}` : undefined}
+                        >
+                            {colIndex === 0 && isRemotelyChanged && (
+                                <span className="absolute left-2 top-1/2 -translate-y-1/2 h-2 w-2 rounded-full bg-sky-400 animate-pulse" aria-label="Updated by someone else" />
+                            )}
+                            {status && (
+                                <span
+                                    className={`absolute right-1.5 top-1.5 h-1.5 w-1.5 rounded-full ${status.state === 'saving' ? 'bg-amber-400 animate-pulse' : 'bg-red-500'}`}
+                                    aria-label={status.state === 'saving' ? 'Saving' : `Not saved: ${status.message}`}
+                                />
+                            )}
+                            {isEditing ? (
+                                <CellEditor
+                                    column={col}
+                                    value={record[col.id]}
+                                    onSave={value => handleSaveCell(record, col, value)}
+                                    onClose={handleCloseCellEditor}
+                                />
+                            ) : col.type === 'boolean' ? (
+                                cellValue === 'Yes' ? <span className="text-emerald-400">{cellValue}</span> : <span className="text-slate-500">{cellValue}</span>
+                            ) : cellValue === 'N/A' ? (
+                                <span className="text-slate-500">{cellValue}</span>
+                            ) : cellValue === 'Invalid Date' ? (
+                                <span className="text-red-400">{cellValue}</span>
+                            ) : (
+                                cellValue
+                            )}
+                        </td>
+                    )
+                })}
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                    <button onClick={() => openEditModal(record)} className="p-1 text-slate-400 hover:text-white mr-2" aria-label={`Edit record ${recordKey}`}><EditIcon className="w-4 h-4" /></button>
+                    <button onClick={() => window.confirm("Are you sure you want to delete this record?") && onDeleteRecord(recordKey)} className="p-1 text-slate-400 hover:text-red-400" aria-label={`Delete record ${recordKey}`}><DeleteIcon className="w-4 h-4" /></button>
+                </td>
+            </tr>
+        );
     };
 
     return (
         <div>
             <div className="flex flex-wrap items-center justify-between mb-4 gap-4">
                 <div className="flex flex-1 items-center gap-2 min-w-[200px]">
-                    {/* Search Input */}
-                    <div className="relative w-full max-w-xs">
-                        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                            <SearchIcon className="w-5 h-5 text-slate-400" />
-                        </div>
-                        <Input
-                            type="text"
-                            placeholder="Search records..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
-                            className="pl-10 !py-2"
-                        />
-                        {searchTerm && (
-                            <button
-                                onClick={() => setSearchTerm('')}
-                                className="absolute inset-y-0 right-0 flex items-center pr-3"
-                                aria-label="Clear search"
-                            >
-                                <CloseIcon className="w-5 h-5 text-slate-400 hover:text-white" />
-                            </button>
-                        )}
-                    </div>
-                    {/* Filter Button & Menu */}
-                    <div className="relative" ref={filterMenuRef}>
-                        <Button onClick={() => setIsFilterMenuOpen(prev => !prev)} variant="secondary" size="sm" className="!py-2">
-                            <FilterIcon className="h-4 w-4 mr-2"/> Filter
-                        </Button>
-                        {isFilterMenuOpen && (
-                            <div className="absolute top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-4 z-20 space-y-3">
-                                <h4 className="font-semibold text-white">Add a filter</h4>
-                                <select value={newFilterColumn} onChange={e => setNewFilterColumn(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm">
-                                    {schema.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
-                                </select>
-                                <select value={newFilterOperator} onChange={e => setNewFilterOperator(e.target.value as FilterOperator)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm">
-                                    <option value="EQUALS">Equals</option>
-                                    <option value="NOT_EQUALS">Not Equals</option>
-                                    <option value="CONTAINS">Contains</option>
-                                    <option value="GREATER_THAN">Greater Than</option>
-                                    <option value="LESS_THAN">Less Than</option>
-                                </select>
-                                <Input type="text" placeholder="Value..." value={newFilterValue} onChange={e => setNewFilterValue(e.target.value)} className="!py-2 text-sm" />
-                                <Button onClick={handleAddFilter} size="sm" fullWidth>Apply Filter</Button>
-                            </div>
-                        )}
-                    </div>
+                    <SearchBox searchTerm={searchTerm} onSearchTermChange={onSearchTermChange} />
+                    <FilterMenu schema={schema} filters={filters} onFiltersChange={onFiltersChange} />
+                    <ColumnManagerMenu schema={schema} layout={columnLayout} onChange={onColumnLayoutChange} />
+                    <GroupByMenu schema={schema} grouping={grouping} onChange={onGroupingChange} />
                 </div>
                 <div className="flex items-center gap-2">
-                    <Button onClick={handleExportCsv} size="sm" variant="secondary" disabled={filteredRecords.length === 0}>
-                        <ExportIcon className="h-4 w-4 mr-2"/> Export
+                    <Button onClick={() => setIsImportOpen(true)} size="sm" variant="secondary">
+                        <ImportIcon className="h-4 w-4 mr-2"/> Import
                     </Button>
+                    <Menu as="div" className="relative">
+                        <Menu.Button as={Button} size="sm" variant="secondary" disabled={totalCount === 0 || isExporting}>
+                            <ExportIcon className="h-4 w-4 mr-2"/> Export <ChevronDownIcon className="h-4 w-4 ml-1" />
+                        </Menu.Button>
+                        <Menu.Items className="absolute right-0 z-20 mt-2 w-64 origin-top-right rounded-md bg-slate-800 border border-slate-700 shadow-lg focus:outline-none py-1">
+                            {EXPORT_FORMATS.map(({ format, visibleColumnsOnly, label, description }) => (
+                                <Menu.Item key={label}>
+                                    {({ active }) => (
+                                        <button
+                                            onClick={() => handleExport(format, visibleColumnsOnly)}
+                                            className={`${active ? 'bg-slate-700 text-white' : 'text-slate-300'} flex w-full items-start gap-3 px-4 py-2 text-sm text-left`}
+                                        >
+                                            {format === 'csv' ? <ExportIcon className="h-4 w-4 mt-0.5" /> : <JsonIcon className="h-4 w-4 mt-0.5" />}
+                                            <span>
+                                                <span className="block font-medium">{label}</span>
+                                                <span className="block text-xs text-slate-400">{description}</span>
+                                            </span>
+                                        </button>
+                                    )}
+                                </Menu.Item>
+                            ))}
+                        </Menu.Items>
+                    </Menu>
                     <Button onClick={openCreateModal} size="sm">
                         <PlusIcon className="h-4 w-4 mr-2"/> Add Record
                     </Button>
                 </div>
             </div>
-             {/* Active Filters Display */}
-            {filters.length > 0 && (
-                <div className="flex items-center gap-2 flex-wrap mb-4">
-                    {filters.map((filter, index) => (
-                        <FilterPill key={index} filter={filter} schema={schema} onRemove={() => handleRemoveFilter(index)} />
-                    ))}
-                    <button onClick={() => onFiltersChange([])} className="text-xs text-slate-400 hover:text-white hover:underline">Clear all</button>
-                </div>
-            )}
-            <div className="overflow-x-auto">
-                <table className="w-full text-sm text-left text-slate-300">
+            <BulkActionBar
+                schema={schema}
+                selectedCount={selectedRecords.size}
+                totalCount={totalCount}
+                canSelectAllMatching={isPageSelected && selectedRecords.size < totalCount}
+                isSelectingAll={isSelectingAll}
+                progress={bulkProgress}
+                report={bulkReport}
+                onSelectAllMatching={handleSelectAllMatching}
+                onClearSelection={() => setSelectedRecords(new Map())}
+                onSetField={handleBulkSetField}
+                onDelete={handleBulkDelete}
+                onDuplicate={handleBulkDuplicate}
+                onExport={() => downloadCsv(Array.from(selectedRecords.values()))}
+                onDismissReport={() => setBulkReport(null)}
+            />
+            <ActiveFilters schema={schema} filters={filters} onFiltersChange={onFiltersChange} />
+            <div className={`overflow-x-auto transition-opacity ${isLoadingRecords ? 'opacity-60' : ''}`}>
+                <table ref={tableRef} className="w-full text-sm text-left text-slate-300">
                     <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
                         <tr>
-                             {schema.map(col => (
-                                <th key={col.id} scope="col" className="px-6 py-3">
-                                    <button onClick={() => handleSort(col.id)} className="flex items-center gap-2 group whitespace-nowrap">
+                            <th scope="col" className={`pl-4 py-3 w-4 ${pinnedCount > 0 ? 'z-10 bg-slate-700' : ''}`} style={selectColumnStyle}>
+                                <input
+                                    ref={selectAllCheckboxRef}
+                                    type="checkbox"
+                                    checked={isPageSelected}
+                                    onChange={togglePageSelection}
+                                    disabled={records.length === 0 || !!bulkProgress}
+                                    className="h-4 w-4 rounded bg-slate-700 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                    aria-label="Select all records on this page"
+                                />
+                            </th>
+                             {visibleColumns.map((col, colIndex) => (
+                                <th
+                                    key={col.id}
+                                    scope="col"
+                                    className={`px-6 py-3 relative ${colIndex < pinnedCount ? 'z-10 bg-slate-700' : ''} ${colIndex === pinnedCount - 1 ? 'border-r border-slate-600' : ''}`}
+                                    style={getColumnStyle(col, colIndex)}
+                                >
+                                    <button onClick={() => handleSort(col.id)} className="flex items-center gap-2 group whitespace-nowrap max-w-full overflow-hidden">
                                         {col.name}
                                         {sortColumn === col.id ? (
                                             sortDirection === 'asc' ? <SortAscIcon className="w-3 h-3"/> : <SortDescIcon className="w-3 h-3"/>
@@ -353,57 +805,84 @@ const TableView: React.FC<TableViewProps> = ({ schema, records, filters, onFilte
                                             <SortDescIcon className="w-3 h-3 opacity-0 group-hover:opacity-50 transition-opacity" />
                                         )}
                                     </button>
+                                    <span
+                                        role="separator"
+                                        aria-orientation="vertical"
+                                        aria-label={`Resize ${col.name}`}
+                                        onMouseDown={e => startColumnResize(e, col)}
+                                        onDoubleClick={() => resetColumnWidth(col)}
+                                        className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-emerald-500/50 ${resizingColumn?.columnId === col.id ? 'bg-emerald-500/70' : ''}`}
+                                    />
                                 </th>
                             ))}
                             <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
                         </tr>
                     </thead>
-                    <tbody>
-                        {filteredRecords.map(record => (
-                            <tr key={record.id} className="border-b border-slate-700 hover:bg-slate-700/30">
-                                {schema.map(col => {
-                                    const cellValue = renderCell(record, col);
-                                    return (
-                                        <td key={`${record.id}-${col.id}`} className="px-6 py-4">
-                                            {col.type === 'boolean' ? (
-                                                cellValue === 'Yes' ? <span className="text-emerald-400">{cellValue}</span> : <span className="text-slate-500">{cellValue}</span>
-                                            ) : cellValue === 'N/A' ? (
-                                                <span className="text-slate-500">{cellValue}</span>
-                                            ) : cellValue === 'Invalid Date' ? (
-                                                <span className="text-red-400">{cellValue}</span>
-                                            ) : (
-                                                cellValue
-                                            )}
-                                        </td>
-                                    )
-                                })}
-                                <td className="px-6 py-4 text-right whitespace-nowrap">
-                                    <button onClick={() => openEditModal(record)} className="p-1 text-slate-400 hover:text-white mr-2" aria-label={`Edit record ${record.id}`}><EditIcon className="w-4 h-4" /></button>
-                                    <button onClick={() => onDeleteRecord(record.id)} className="p-1 text-slate-400 hover:text-red-400" aria-label={`Delete record ${record.id}`}><DeleteIcon className="w-4 h-4" /></button>
-                                </td>
-                            </tr>
-                        ))}
+                    <tbody ref={tableBodyRef}>
+                        {rowWindow.paddingTop > 0 && <tr aria-hidden="true" style={{ height: rowWindow.paddingTop }} />}
+                        {tableItems.slice(rowWindow.start, rowWindow.end).map((item, windowIndex) => {
+                            const rowRef = rowWindow.measureRef(rowWindow.start + windowIndex);
+                            switch (item.kind) {
+                                case 'group':
+                                    return renderGroupRow(item.group, item.isCollapsed, rowRef);
+                                case 'footer':
+                                    return renderFooterRow(item.group, item.records, rowRef);
+                                default:
+                                    return renderRecordRow(item.record, item.row, firstRenderedRow?.kind === 'record' ? firstRenderedRow.row : undefined, rowRef);
+                            }
+                        })}
+                        {rowWindow.paddingBottom > 0 && <tr aria-hidden="true" style={{ height: rowWindow.paddingBottom }} />}
                     </tbody>
                 </table>
-                 {filteredRecords.length === 0 && (
+                 {records.length === 0 && (
                     <p className="text-center py-8 text-slate-500">
-                        {records.length > 0
+                        {filters.length > 0 || searchTerm
                             ? `No records match your search criteria.`
                             : 'No records found. Click "Add Record" to get started.'
                         }
                     </p>
                 )}
             </div>
-
-            <Modal isOpen={isModalOpen} onClose={closeModal} title={editingRecord?.id ? 'Edit Record' : 'Create Record'}>
-                <form onSubmit={handleSave} className="space-y-4">
-                    {schema.map(col => renderFormField(col))}
-                    <div className="pt-4 flex justify-end gap-3">
-                        <Button type="button" variant="secondary" onClick={closeModal}>Cancel</Button>
-                        <Button type="submit">Save Changes</Button>
+            {totalCount > 0 && isUnpaged && (
+                <div className="mt-4 text-sm text-slate-400">
+                    {totalCount.toLocaleString()} {totalCount === 1 ? 'record' : 'records'}
+                </div>
+            )}
+            {totalCount > 0 && !isUnpaged && (
+                <div className="flex items-center justify-between mt-4 text-sm text-slate-400">
+                    <span>Showing {firstRowNumber.toLocaleString()}–{lastRowNumber.toLocaleString()} of {totalCount.toLocaleString()}</span>
+                    <div className="flex items-center gap-2">
+                        <Button onClick={() => onPageChange(page - 1)} size="sm" variant="secondary" disabled={page === 0 || isLoadingRecords}>
+                            Previous
+                        </Button>
+                        <span>Page {page + 1} of {pageCount}</span>
+                        <Button onClick={() => onPageChange(page + 1)} size="sm" variant="secondary" disabled={page + 1 >= pageCount || isLoadingRecords}>
+                            Next
+                        </Button>
                     </div>
-                </form>
-            </Modal>
+                </div>
+            )}
+
+            <RecordEditorModal
+                isOpen={isModalOpen}
+                tableName={tableName}
+                schema={schema}
+                record={editingRecord}
+                recordKey={editingKey}
+                relationLabels={relationLabels}
+                onClose={closeModal}
+                onUpdateRecord={onUpdateRecord}
+                onCreateRecord={onCreateRecord}
+            />
+
+            {isImportOpen && (
+                <RecordImportModal
+                    tableName={tableName}
+                    schema={schema}
+                    onClose={() => setIsImportOpen(false)}
+                    onImport={onImportRecords}
+                />
+            )}
         </div>
     );
 };
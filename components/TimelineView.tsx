@@ -0,0 +1,376 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { DatabaseSchema, Record, RecordKey, ColumnDefinition } from '../types';
+import { getRecordKey, getTitleColumn } from '../services/recordKeys';
+import { formatCellValue } from '../services/cellFormat';
+import type { RelationLabels } from '../services/cellFormat';
+import { groupRecords } from '../services/grouping';
+import { toDayKey, getTodayKey, addDays, daysBetween, getWeekStart, getDayRange, moveToDay, formatDay } from '../services/calendarDates';
+import RecordEditorModal from './RecordEditorModal';
+
+interface TimelineViewProps {
+  tableName: string;
+  schema: DatabaseSchema;
+  records: Record[];
+  relationLabels: RelationLabels;
+  remotelyChangedIds: Set<string>; // Records recently changed by another user
+  onUpdateRecord: (recordKey: RecordKey, updates: Partial<Record>) => void;
+  onCreateRecord: (newRecord: Partial<Record>) => void;
+}
+
+type TimelineZoom = 'day' | 'week' | 'month';
+
+const ZOOMS: { zoom: TimelineZoom; label: string; dayWidth: number }[] = [
+    { zoom: 'day', label: 'Days', dayWidth: 40 },
+    { zoom: 'week', label: 'Weeks', dayWidth: 16 },
+    { zoom: 'month', label: 'Months', dayWidth: 4 },
+];
+
+const LABEL_WIDTH = 224;
+const ROW_HEIGHT = 36;
+// Room either side of the scheduled records, so bars can be dragged past the current ends.
+const AXIS_MARGIN_DAYS = 14;
+
+// Which part of a bar is being dragged: the whole bar, or one of its ends.
+type BarDragMode = 'move' | 'start' | 'end';
+
+interface DaySpan {
+    start: string;
+    end: string;
+}
+
+interface BarDrag {
+    recordKey: RecordKey;
+    mode: BarDragMode;
+    days: number; // How far the pointer has moved, in whole days
+}
+
+const getSpan = (record: Record, startColumn: ColumnDefinition, endColumn: ColumnDefinition): DaySpan | null => {
+    const start = toDayKey(record[startColumn.id]);
+    const end = toDayKey(record[endColumn.id]);
+    if (!start || !end) return null;
+    // A record that ends before it starts is drawn across the same days rather than hidden.
+    return start <= end ? { start, end } : { start: end, end: start };
+};
+
+// Moves a span, or one end of it without letting it pass the other.
+const shiftSpan = (span: DaySpan, mode: BarDragMode, days: number): DaySpan => {
+    if (mode === 'move') return { start: addDays(span.start, days), end: addDays(span.end, days) };
+    if (mode === 'start') {
+        const start = addDays(span.start, days);
+        return { start: start < span.end ? start : span.end, end: span.end };
+    }
+    const end = addDays(span.end, days);
+    return { start: span.start, end: end > span.start ? end : span.start };
+};
+
+// Guesses the start and end columns from their names, falling back to the first two date columns.
+const getDefaultColumns = (dateColumns: ColumnDefinition[]): { start?: ColumnDefinition; end?: ColumnDefinition } => {
+    const start = dateColumns.find(col => /start|begin/i.test(col.id)) || dateColumns.find(col => !col.readOnly) || dateColumns[0];
+    const end = dateColumns.find(col => col !== start && /end|due|finish|deadline/i.test(col.id))
+        || dateColumns.find(col => col !== start && !col.readOnly)
+        || start;
+    return { start, end };
+};
+
+// Draws records as bars between a start and an end date, optionally in lanes by another column.
+const TimelineView: React.FC<TimelineViewProps> = ({ tableName, schema, records, relationLabels, remotelyChangedIds, onUpdateRecord, onCreateRecord }) => {
+    const [startColumnId, setStartColumnId] = useState<string | null>(null);
+    const [endColumnId, setEndColumnId] = useState<string | null>(null);
+    const [groupColumnId, setGroupColumnId] = useState('');
+    const [zoom, setZoom] = useState<TimelineZoom>('week');
+    const [barDrag, setBarDrag] = useState<BarDrag | null>(null);
+    const [draggedUnscheduledKey, setDraggedUnscheduledKey] = useState<RecordKey | null>(null);
+    const [editingRecord, setEditingRecord] = useState<Record | null>(null);
+    const chartRef = useRef<HTMLDivElement>(null);
+
+    const dateColumns = schema.filter(col => col.type === 'date');
+    const defaults = getDefaultColumns(dateColumns);
+    const startColumn = dateColumns.find(col => col.id === startColumnId) || defaults.start;
+    const endColumn = dateColumns.find(col => col.id === endColumnId) || defaults.end;
+    const groupColumn = schema.find(col => col.id === groupColumnId && col.type !== 'date');
+    const titleColumn = schema.find(col => col.id === getTitleColumn(schema));
+    const canEdit = !!startColumn && !!endColumn && !startColumn.readOnly && !endColumn.readOnly;
+    // With the same column for both ends every bar is a single day, so there is nothing to resize.
+    const canResize = canEdit && startColumn !== endColumn;
+    const dayWidth = ZOOMS.find(option => option.zoom === zoom)!.dayWidth;
+    const todayKey = getTodayKey();
+
+    const { scheduled, unscheduled } = useMemo(() => {
+        if (!startColumn || !endColumn) return { scheduled: [], unscheduled: [] };
+        const withSpans = records.map(record => ({ record, span: getSpan(record, startColumn, endColumn) }));
+        return {
+            scheduled: withSpans
+                .filter((entry): entry is { record: Record; span: DaySpan } => entry.span !== null)
+                .sort((a, b) => a.span.start.localeCompare(b.span.start) || a.span.end.localeCompare(b.span.end)),
+            unscheduled: withSpans.filter(entry => entry.span === null).map(entry => entry.record),
+        };
+    }, [records, startColumn, endColumn]);
+
+    const spans = useMemo(() => new Map(scheduled.map(({ record, span }) => [getRecordKey(record, schema), span])), [scheduled, schema]);
+
+    // Lanes by the grouping column, each in start order; without one, a single unnamed lane.
+    const lanes = useMemo(() => {
+        const sortedRecords = scheduled.map(entry => entry.record);
+        if (!groupColumn) return [{ id: '', label: null as string | null, records: sortedRecords }];
+        return groupRecords(sortedRecords, [groupColumn], relationLabels).map(group => ({ id: group.id, label: group.label, records: group.records }));
+    }, [scheduled, groupColumn, relationLabels]);
+
+    if (!startColumn || !endColumn) {
+        return <div className="text-center py-16 text-slate-400">Add a date column to this table to see its records on a timeline.</div>;
+    }
+
+    // The axis covers every bar and today, with a margin, starting on a Sunday so week ticks line up.
+    const allDays = [todayKey, ...Array.from(spans.values()).flatMap(span => [span.start, span.end])].sort();
+    const axisStart = getWeekStart(addDays(allDays[0], -AXIS_MARGIN_DAYS));
+    const axisEnd = addDays(allDays[allDays.length - 1], AXIS_MARGIN_DAYS);
+    const axisDays = getDayRange(axisStart, axisEnd);
+    const chartWidth = axisDays.length * dayWidth;
+    const ticks = axisDays.filter(day =>
+        zoom === 'day' ? true : zoom === 'week' ? day === getWeekStart(day) : day.endsWith('-01')
+    );
+
+    const getTickLabel = (day: string) => {
+        if (zoom === 'month') return formatDay(day, { month: 'short', year: 'numeric' });
+        if (zoom === 'week') return formatDay(day, { month: 'short', day: 'numeric' });
+        return formatDay(day, { day: 'numeric' });
+    };
+
+    const getTitle = (record: Record) => titleColumn && record[titleColumn.id] !== null && record[titleColumn.id] !== undefined
+        ? formatCellValue(record, titleColumn, relationLabels)
+        : 'Untitled';
+
+    // Only the columns whose day actually changes are written, keeping any time of day they hold.
+    const saveSpan = (record: Record, span: DaySpan) => {
+        const updates: Partial<Record> = {};
+        if (toDayKey(record[startColumn.id]) !== span.start) updates[startColumn.id] = moveToDay(record[startColumn.id], span.start);
+        if (startColumn !== endColumn && toDayKey(record[endColumn.id]) !== span.end) updates[endColumn.id] = moveToDay(record[endColumn.id], span.end);
+        if (Object.keys(updates).length > 0) onUpdateRecord(getRecordKey(record, schema), updates);
+    };
+
+    // A drag shows its preview until the mouse is released and then saves; a click without movement opens the record.
+    const startBarDrag = (e: React.MouseEvent<HTMLElement>, record: Record, mode: BarDragMode) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const recordKey = getRecordKey(record, schema);
+        const span = spans.get(recordKey);
+        if (!span) return;
+        if (!canEdit) {
+            setEditingRecord(record);
+            return;
+        }
+        const startX = e.clientX;
+        let days = 0;
+        const handleMouseMove = (event: MouseEvent) => {
+            days = Math.round((event.clientX - startX) / dayWidth);
+            setBarDrag({ recordKey, mode, days });
+        };
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+            setBarDrag(null);
+            if (days !== 0) {
+                saveSpan(record, shiftSpan(span, mode, days));
+            } else if (mode === 'move') {
+                setEditingRecord(record);
+            }
+        };
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    // Dropping an unscheduled record on the chart schedules it for the day under the pointer.
+    const getDropDay = (e: React.DragEvent): string | null => {
+        const chart = chartRef.current;
+        if (!chart) return null;
+        const offset = e.clientX - chart.getBoundingClientRect().left - LABEL_WIDTH;
+        return offset < 0 ? null : addDays(axisStart, Math.floor(offset / dayWidth));
+    };
+
+    const handleChartDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const day = getDropDay(e);
+        const record = unscheduled.find(r => getRecordKey(r, schema) === draggedUnscheduledKey);
+        setDraggedUnscheduledKey(null);
+        if (day && record) saveSpan(record, { start: day, end: day });
+    };
+
+    const renderBar = (record: Record) => {
+        const recordKey = getRecordKey(record, schema);
+        const savedSpan = spans.get(recordKey)!;
+        const span = barDrag?.recordKey === recordKey ? shiftSpan(savedSpan, barDrag.mode, barDrag.days) : savedSpan;
+        const isRemotelyChanged = remotelyChangedIds.has(recordKey);
+        const title = getTitle(record);
+        const dates = span.start === span.end
+            ? formatDay(span.start, { dateStyle: 'medium' })
+            : `${formatDay(span.start, { dateStyle: 'medium' })} – ${formatDay(span.end, { dateStyle: 'medium' })}`;
+        return (
+            <div
+                onMouseDown={e => startBarDrag(e, record, 'move')}
+                className={`group/bar absolute top-1.5 bottom-1.5 flex items-center rounded-md bg-emerald-600/80 hover:bg-emerald-500 text-xs text-white shadow ${canEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${isRemotelyChanged ? 'ring-2 ring-sky-400/70' : ''} ${barDrag?.recordKey === recordKey ? 'opacity-80' : ''}`}
+                style={{ left: daysBetween(axisStart, span.start) * dayWidth, width: (daysBetween(span.start, span.end) + 1) * dayWidth }}
+                title={`${title}: ${dates}${isRemotelyChanged ? ' (updated by someone else)' : ''}`}
+            >
+                {canResize && (
+                    <span onMouseDown={e => startBarDrag(e, record, 'start')} className="absolute left-0 top-0 h-full w-1.5 rounded-l-md cursor-ew-resize opacity-0 group-hover/bar:opacity-100 bg-white/40" />
+                )}
+                <span className="px-2 truncate pointer-events-none">{title}</span>
+                {canResize && (
+                    <span onMouseDown={e => startBarDrag(e, record, 'end')} className="absolute right-0 top-0 h-full w-1.5 rounded-r-md cursor-ew-resize opacity-0 group-hover/bar:opacity-100 bg-white/40" />
+                )}
+            </div>
+        );
+    };
+
+    const columnSelect = (label: string, value: string, onChange: (value: string) => void, options: ColumnDefinition[], noneLabel?: string) => (
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+            {label}
+            <select value={value} onChange={e => onChange(e.target.value)} className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm">
+                {noneLabel && <option value="">{noneLabel}</option>}
+                {options.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+            </select>
+        </label>
+    );
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    {columnSelect('Start', startColumn.id, setStartColumnId, dateColumns)}
+                    {columnSelect('End', endColumn.id, setEndColumnId, dateColumns)}
+                    {columnSelect('Lanes', groupColumn?.id ?? '', setGroupColumnId, schema.filter(col => col.type !== 'date'), 'None')}
+                </div>
+                <div className="flex rounded-lg border border-slate-600 overflow-hidden" role="group" aria-label="Timeline zoom">
+                    {ZOOMS.map(option => (
+                        <button
+                            key={option.zoom}
+                            onClick={() => setZoom(option.zoom)}
+                            className={`px-3 py-1.5 text-sm ${zoom === option.zoom ? 'bg-emerald-500/20 text-emerald-300' : 'text-slate-300 hover:bg-slate-700/50'}`}
+                            aria-pressed={zoom === option.zoom}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                <div
+                    ref={chartRef}
+                    className="relative"
+                    style={{ width: LABEL_WIDTH + chartWidth }}
+                    onDragOver={e => { if (draggedUnscheduledKey !== null && getDropDay(e)) e.preventDefault(); }}
+                    onDrop={handleChartDrop}
+                >
+                    {/* Tick lines and today's marker run behind every row. */}
+                    <div className="absolute inset-y-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+                        {ticks.map(day => (
+                            <div key={day} className="absolute inset-y-0 border-l border-slate-700/60" style={{ left: daysBetween(axisStart, day) * dayWidth }} />
+                        ))}
+                        <div className="absolute inset-y-0 border-l-2 border-amber-400/70" style={{ left: (daysBetween(axisStart, todayKey) + 0.5) * dayWidth }} />
+                    </div>
+
+                    <div className="flex border-b border-slate-700 bg-slate-900/50 text-xs text-slate-400">
+                        <div className="sticky left-0 z-20 flex-shrink-0 px-4 py-2 font-medium uppercase bg-slate-900" style={{ width: LABEL_WIDTH }}>
+                            {titleColumn?.name ?? 'Record'}
+                        </div>
+                        <div className="relative h-8" style={{ width: chartWidth }}>
+                            {ticks.map(day => (
+                                <span
+                                    key={day}
+                                    className={`absolute top-2 pl-1 whitespace-nowrap ${day === todayKey ? 'text-amber-300 font-semibold' : ''}`}
+                                    style={{ left: daysBetween(axisStart, day) * dayWidth }}
+                                >
+                                    {getTickLabel(day)}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+
+                    {scheduled.length === 0 && (
+                        <div className="sticky left-0 px-4 py-8 text-sm text-slate-400" style={{ width: 'min(100%, 40rem)' }}>
+                            No records have both a {startColumn.name} and a {endColumn.name} yet.
+                        </div>
+                    )}
+
+                    {lanes.map(lane => (
+                        <React.Fragment key={lane.id}>
+                            {lane.label !== null && (
+                                <div className="flex border-b border-slate-700 bg-slate-900/60">
+                                    <div className="sticky left-0 z-10 flex items-center gap-2 px-4 py-2 text-sm text-slate-200 bg-slate-900">
+                                        <span className="text-slate-400">{groupColumn?.name}:</span>
+                                        <span className="font-semibold">{lane.label}</span>
+                                        <span className="text-xs bg-slate-700 text-slate-300 rounded-full px-2 py-0.5">{lane.records.length.toLocaleString()}</span>
+                                    </div>
+                                </div>
+                            )}
+                            {lane.records.map(record => (
+                                <div key={getRecordKey(record, schema)} className="flex border-b border-slate-700/50 hover:bg-slate-800/40">
+                                    <button
+                                        onClick={() => setEditingRecord(record)}
+                                        className="sticky left-0 z-10 flex-shrink-0 px-4 text-left text-sm text-slate-200 truncate bg-slate-800 hover:text-white"
+                                        style={{ width: LABEL_WIDTH, height: ROW_HEIGHT }}
+                                    >
+                                        {getTitle(record)}
+                                    </button>
+                                    <div className="relative" style={{ width: chartWidth, height: ROW_HEIGHT }}>
+                                        {renderBar(record)}
+                                    </div>
+                                </div>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+
+            {unscheduled.length > 0 && (
+                <div className="mt-4 p-4 rounded-lg border border-dashed border-slate-600">
+                    <h3 className="text-sm font-semibold text-slate-300 mb-1">
+                        Unscheduled <span className="text-xs font-normal bg-slate-700 text-slate-300 rounded-full px-2 py-0.5">{unscheduled.length.toLocaleString()}</span>
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-3">
+                        Missing a {startColumn.name}{startColumn !== endColumn && ` or ${endColumn.name}`}.
+                        {canEdit && ' Drag one onto the timeline to schedule it for that day.'}
+                    </p>
+                    <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                        {unscheduled.map(record => {
+                            const recordKey = getRecordKey(record, schema);
+                            return (
+                                <button
+                                    key={recordKey}
+                                    draggable={canEdit}
+                                    onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDraggedUnscheduledKey(recordKey); }}
+                                    onDragEnd={() => setDraggedUnscheduledKey(null)}
+                                    onClick={() => setEditingRecord(record)}
+                                    className={`max-w-56 truncate text-xs px-2 py-1 rounded border bg-slate-800 text-slate-200 hover:bg-slate-700 ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''} ${remotelyChangedIds.has(recordKey) ? 'border-sky-500/60' : 'border-slate-700'}`}
+                                >
+                                    {getTitle(record)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            <p className="mt-4 text-xs text-slate-500">
+                {canEdit
+                    ? `Drag a bar to move it${canResize ? ', or drag its ends to change the dates' : ''}. Click a record to edit it.`
+                    : 'One of the chosen date columns is set by the database, so bars can\'t be moved.'}
+            </p>
+
+            <RecordEditorModal
+                isOpen={editingRecord !== null}
+                tableName={tableName}
+                schema={schema}
+                record={editingRecord}
+                recordKey={editingRecord && getRecordKey(editingRecord, schema)}
+                relationLabels={relationLabels}
+                onClose={() => setEditingRecord(null)}
+                onUpdateRecord={onUpdateRecord}
+                onCreateRecord={onCreateRecord}
+            />
+        </div>
+    );
+};
+
+export default TimelineView;
@@ -0,0 +1,157 @@
+import { useState, useLayoutEffect, useCallback, useRef, useMemo } from 'react';
+import type { RefObject } from 'react';
+
+// Renders only the items of a long list that are on screen, plus a margin either side.
+// Each rendered item is measured, and kept measured as it resizes; items not yet rendered count at the estimated height.
+
+export interface WindowedList {
+    start: number; // First rendered index
+    end: number; // One past the last rendered index
+    paddingTop: number; // Space standing in for the items before `start`
+    paddingBottom: number; // And for those from `end` on
+    measureRef: (index: number) => (element: HTMLElement | null) => void; // Attach to each rendered item, by its index
+    scrollToIndex: (index: number) => void; // Scrolls just enough to bring an item into view
+}
+
+const OVERSCAN = 8;
+
+// The nearest element that scrolls vertically. Ones that only scroll sideways report an overflow too, but never overflow in height.
+const getScrollParent = (element: HTMLElement): HTMLElement | null => {
+    for (let node: HTMLElement | null = element; node; node = node.parentElement) {
+        if (/(auto|scroll)/.test(getComputedStyle(node).overflowY) && node.scrollHeight > node.clientHeight) return node;
+    }
+    return null; // The page itself scrolls
+};
+
+// The part of the viewport, or of the scrolling element, that the user can see.
+const getViewport = (scrollParent: HTMLElement | null) => {
+    if (!scrollParent) return { top: 0, bottom: window.innerHeight };
+    const rect = scrollParent.getBoundingClientRect();
+    return { top: rect.top, bottom: rect.bottom };
+};
+
+// The index of the item at `position` from the top of the list, given each item's top offset and the total at the end.
+const findIndexAt = (offsets: number[], position: number): number => {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (offsets[middle] <= position) low = middle;
+        else high = middle - 1;
+    }
+    return low;
+};
+
+export const useWindowedList = (containerRef: RefObject<HTMLElement>, count: number, estimatedItemHeight: number): WindowedList => {
+    // Measured heights by index, and a counter that changes whenever one of them does.
+    const heightsRef = useRef(new Map<number, number>());
+    const [measuredVersion, setMeasuredVersion] = useState(0);
+    const [range, setRange] = useState({ start: 0, end: Math.min(count, OVERSCAN * 2) });
+    const scrollParentRef = useRef<HTMLElement | null>(null);
+
+    // offsets[i] is the top of item i; offsets[count] is the height of the whole list.
+    const offsets = useMemo(() => {
+        const tops = [0];
+        for (let index = 0; index < count; index++) {
+            tops.push(tops[index] + (heightsRef.current.get(index) ?? estimatedItemHeight));
+        }
+        return tops;
+    }, [count, estimatedItemHeight, measuredVersion]);
+
+    const updateRange = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const viewport = getViewport(scrollParentRef.current);
+        const top = container.getBoundingClientRect().top;
+        const start = Math.max(0, Math.min(count, findIndexAt(offsets, viewport.top - top) - OVERSCAN));
+        const end = Math.max(start, Math.min(count, findIndexAt(offsets, viewport.bottom - top) + 1 + OVERSCAN));
+        setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+    }, [containerRef, count, offsets]);
+
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        scrollParentRef.current = getScrollParent(container.parentElement ?? container);
+        const scrollTarget: HTMLElement | Window = scrollParentRef.current ?? window;
+        updateRange();
+        scrollTarget.addEventListener('scroll', updateRange, { passive: true });
+        window.addEventListener('resize', updateRange);
+        return () => {
+            scrollTarget.removeEventListener('scroll', updateRange);
+            window.removeEventListener('resize', updateRange);
+        };
+    }, [containerRef, updateRange]);
+
+    // One observer follows every rendered item, so rows that wrap or grow after they render are remeasured too.
+    const indexesRef = useRef(new Map<Element, number>());
+    const observerRef = useRef<ResizeObserver | null>(null);
+    const getObserver = () => {
+        observerRef.current ??= new ResizeObserver(entries => {
+            let changed = false;
+            entries.forEach(entry => {
+                const index = indexesRef.current.get(entry.target);
+                const height = entry.target.getBoundingClientRect().height;
+                if (index === undefined || height <= 0) return;
+                if (Math.abs((heightsRef.current.get(index) ?? -1) - height) > 0.5) {
+                    heightsRef.current.set(index, height);
+                    changed = true;
+                }
+            });
+            if (changed) setMeasuredVersion(version => version + 1);
+        });
+        return observerRef.current;
+    };
+    useLayoutEffect(() => () => observerRef.current?.disconnect(), []);
+
+    // Ref callbacks are kept per index so that React doesn't detach and reattach them on every render.
+    const measureRefs = useRef(new Map<number, (element: HTMLElement | null) => void>());
+    const elementsRef = useRef(new Map<number, HTMLElement>());
+    const measureRef = useCallback((index: number) => {
+        let ref = measureRefs.current.get(index);
+        if (!ref) {
+            ref = (element: HTMLElement | null) => {
+                const previous = elementsRef.current.get(index);
+                if (previous && previous !== element) {
+                    getObserver().unobserve(previous);
+                    indexesRef.current.delete(previous);
+                    elementsRef.current.delete(index);
+                }
+                if (!element) return;
+                elementsRef.current.set(index, element);
+                indexesRef.current.set(element, index);
+                getObserver().observe(element);
+            };
+            measureRefs.current.set(index, ref);
+        }
+        return ref;
+    }, []);
+
+    const scrollToIndex = useCallback((index: number) => {
+        const container = containerRef.current;
+        if (!container || index < 0 || index >= count) return;
+        const scrollParent = scrollParentRef.current;
+        const viewport = getViewport(scrollParent);
+        const itemTop = container.getBoundingClientRect().top + offsets[index];
+        const itemBottom = container.getBoundingClientRect().top + offsets[index + 1];
+        const offset = itemTop < viewport.top ? itemTop - viewport.top
+            : itemBottom > viewport.bottom ? itemBottom - viewport.bottom
+            : 0;
+        if (offset === 0) return;
+        if (scrollParent) {
+            scrollParent.scrollTop += offset;
+        } else {
+            window.scrollBy(0, offset);
+        }
+    }, [containerRef, count, offsets]);
+
+    const end = Math.min(range.end, count);
+    const start = Math.min(range.start, end);
+    return {
+        start,
+        end,
+        paddingTop: offsets[start],
+        paddingBottom: offsets[count] - offsets[end],
+        measureRef,
+        scrollToIndex,
+    };
+};
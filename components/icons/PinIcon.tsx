@@ -0,0 +1,9 @@
+import React from 'react';
+
+const PinIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9 3.75h6M10.5 3.75v5.25L7.5 13.5h9l-3-4.5V3.75M12 13.5v6.75" />
+    </svg>
+);
+
+export default PinIcon;
@@ -0,0 +1,9 @@
+import React from 'react';
+
+const TimelineIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6h9M7.5 12h10.5M10.5 18h9.75M3.75 3v18" />
+    </svg>
+);
+
+export default TimelineIcon;
@@ -1,119 +1,196 @@
-import { getSupabaseClient } from './supabaseClient';
-import type { Record, DatabaseSchema, ColumnDefinition } from '../types';
+import { getTitleColumn, getRecordKey } from './recordKeys';
+import { runBulkWrite } from './bulkWrite';
+import { getStoredViews, storeView, removeStoredView } from './savedViews';
+import { supabaseDataSource } from './supabaseDataSource';
+import { localDataSource } from './localDataSource';
+import { getSupabaseUrl } from './supabaseClient';
+import { MAX_RELATION_OPTIONS, toRelationOption } from './dataSource';
+import type { DataSource, DataSourceKind } from './dataSource';
+import type { Record, RecordKey, DatabaseSchema, ColumnDefinition, RecordQuery, RecordPage, RecordChangeEvent, RelationOption, TableReference, LinkedRecordGroup, BulkResult, BulkProgressHandler, RecordHistoryEntry, SavedView } from '../types';
 
-const EXCLUDED_SCHEMAS = ['pg_catalog', 'information_schema', 'storage', 'graphql', 'graphql_public', 'realtime'];
+export { DEFAULT_PAGE_SIZE } from './dataSource';
 
-export const listTables = async (): Promise<string[]> => {
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase.rpc('list_all_tables');
+// Every call goes to the backend chosen at login: a Supabase project or the browser-only local workspace.
+const DATA_SOURCE_STORAGE_KEY = 'emerald-dataSource';
 
-    if (error) {
-        console.error("Supabase listTables error:", error);
-        throw error;
-    }
-    return data
-        .filter((t: { schema: string }) => !EXCLUDED_SCHEMAS.includes(t.schema))
-        .map((t: { name: string }) => t.name);
+const DATA_SOURCES: { [kind in DataSourceKind]: DataSource } = {
+    supabase: supabaseDataSource,
+    local: localDataSource,
 };
 
+export const setDataSourceKind = (kind: DataSourceKind) => {
+    localStorage.setItem(DATA_SOURCE_STORAGE_KEY, kind);
+};
 
-export const getTableSchema = async (tableName: string): Promise<DatabaseSchema> => {
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase.rpc('get_table_schema', { table_name_arg: tableName });
+export const getDataSourceKind = (): DataSourceKind =>
+    localStorage.getItem(DATA_SOURCE_STORAGE_KEY) === 'local' ? 'local' : 'supabase';
 
-    if (error) {
-        console.error("Supabase getTableSchema error:", error);
-        throw error;
-    }
-    
-    // Map the RPC result to our ColumnDefinition type
-    return data.map((col: any): ColumnDefinition => ({
-        id: col.column_name,
-        name: col.column_name.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()), // Prettify name
-        type: mapPostgresTypeToAppType(col.data_type),
+export const clearDataSourceKind = () => {
+    localStorage.removeItem(DATA_SOURCE_STORAGE_KEY);
+};
+
+// Identifies the backend in use, down to the Supabase project, so data kept in the browser for one is never used with another.
+export const getDataSourceScope = (): string =>
+    getDataSourceKind() === 'local' ? 'local' : `supabase:${getSupabaseUrl() ?? ''}`;
+
+const getDataSource = (): DataSource => DATA_SOURCES[getDataSourceKind()];
+
+export const listTables = (): Promise<string[]> => getDataSource().listTables();
+
+export const getTableSchema = (tableName: string): Promise<DatabaseSchema> => getDataSource().getTableSchema(tableName);
+
+export const saveColumnMetadata = (tableName: string, schema: DatabaseSchema): Promise<void> =>
+    getDataSource().saveColumnMetadata(tableName, schema);
+
+export const getRecords = (tableName: string, schema: DatabaseSchema, query: RecordQuery = {}): Promise<RecordPage> =>
+    getDataSource().getRecords(tableName, schema, query);
+
+export const getRecord = (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<Record | null> =>
+    getDataSource().getRecord(tableName, schema, recordKey);
+
+export const createRecord = (tableName: string, newRecord: Partial<Record>): Promise<Record> =>
+    getDataSource().createRecord(tableName, newRecord);
+
+export const updateRecord = (tableName: string, schema: DatabaseSchema, recordKey: RecordKey, updates: Partial<Record>): Promise<Record> =>
+    getDataSource().updateRecord(tableName, schema, recordKey, updates);
+
+export const deleteRecord = (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<void> =>
+    getDataSource().deleteRecord(tableName, schema, recordKey);
+
+export const subscribeToRecords = (tableName: string, onChange: (event: RecordChangeEvent) => void): (() => void) =>
+    getDataSource().subscribeToRecords(tableName, onChange);
+
+export const runRawSql = (sql: string): Promise<void> => getDataSource().runRawSql(sql);
+
+// Inserts rows in batches. With `upsertOn`, rows whose values in those columns match an existing row update it
+// instead; in Postgres the columns need a unique constraint.
+export const bulkCreateRecords = (
+    tableName: string, newRecords: Partial<Record>[], onProgress?: BulkProgressHandler, upsertOn?: string[]
+): Promise<BulkResult<Record>> => {
+    const source = getDataSource();
+    if (source.bulkCreateRecords) return source.bulkCreateRecords(tableName, newRecords, onProgress, upsertOn);
+    if (upsertOn?.length) throw new Error('Updating existing records on import is not supported here.');
+    return runBulkWrite(newRecords, null, record => source.createRecord(tableName, record), onProgress);
+};
+
+export const bulkUpdateRecords = (
+    tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], updates: Partial<Record>, onProgress?: BulkProgressHandler
+): Promise<BulkResult<Record>> => {
+    const source = getDataSource();
+    if (source.bulkUpdateRecords) return source.bulkUpdateRecords(tableName, schema, recordKeys, updates, onProgress);
+    return runBulkWrite(recordKeys, null, recordKey => source.updateRecord(tableName, schema, recordKey, updates), onProgress);
+};
+
+export const bulkDeleteRecords = (
+    tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], onProgress?: BulkProgressHandler
+): Promise<BulkResult<RecordKey>> => {
+    const source = getDataSource();
+    if (source.bulkDeleteRecords) return source.bulkDeleteRecords(tableName, schema, recordKeys, onProgress);
+    return runBulkWrite(recordKeys, null, async recordKey => {
+        await source.deleteRecord(tableName, schema, recordKey);
+        return recordKey;
+    }, onProgress);
+};
+
+
+// Records a relation column can point at, optionally narrowed by a search term.
+export const searchRelationOptions = async (relation: NonNullable<ColumnDefinition['relation']>, search = ''): Promise<RelationOption[]> => {
+    const source = getDataSource();
+    if (source.searchRelationOptions) return source.searchRelationOptions(relation, search);
+    const schema = await source.getTableSchema(relation.table);
+    const titleColumn = getTitleColumn(schema);
+    const { records } = await source.getRecords(relation.table, schema, {
+        search,
+        sort: titleColumn ? { columnId: titleColumn, direction: 'asc' } : undefined,
+        page: 0,
+        pageSize: MAX_RELATION_OPTIONS,
+    });
+    return records.map(record => toRelationOption(record, String(record[relation.columnId]), titleColumn));
+};
+
+// Resolves relation values to the titles of the records they point at. Values without a match are left out.
+export const getRelationLabels = async (relation: NonNullable<ColumnDefinition['relation']>, values: string[]): Promise<{ [value: string]: string }> => {
+    const source = getDataSource();
+    if (source.getRelationLabels) return source.getRelationLabels(relation, values);
+    const wanted = new Set(values);
+    if (wanted.size === 0) return {};
+    const schema = await source.getTableSchema(relation.table);
+    const titleColumn = getTitleColumn(schema);
+    const { records } = await source.getRecords(relation.table, schema);
+    return Object.fromEntries(records
+        .filter(record => wanted.has(String(record[relation.columnId])))
+        .map(record => {
+            const option = toRelationOption(record, String(record[relation.columnId]), titleColumn);
+            return [option.value, option.label];
+        }));
+};
+
+// Relation columns in other tables that point at this one.
+export const getTableReferences = (tableName: string): Promise<TableReference[]> => getDataSource().getTableReferences(tableName);
+
+// Records in other tables whose relation columns point at the given record, grouped by table and column.
+export const getLinkedRecords = async (tableName: string, record: Partial<Record>): Promise<LinkedRecordGroup[]> => {
+    const source = getDataSource();
+    if (source.getLinkedRecords) return source.getLinkedRecords(tableName, record);
+    const references = await source.getTableReferences(tableName);
+    const groups = await Promise.all(references.map(async (reference): Promise<LinkedRecordGroup | null> => {
+        const value = record[reference.referencedColumnId];
+        if (value === null || value === undefined) return null;
+        const schema = await source.getTableSchema(reference.table);
+        const titleColumn = getTitleColumn(schema);
+        const { records } = await source.getRecords(reference.table, schema);
+        const linked = records.filter(candidate => String(candidate[reference.columnId]) === String(value)).slice(0, MAX_RELATION_OPTIONS);
+        return { reference, records: linked.map(candidate => toRelationOption(candidate, getRecordKey(candidate, schema), titleColumn)) };
     }));
+    return groups.filter((group): group is LinkedRecordGroup => group !== null && group.records.length > 0);
 };
 
-const mapPostgresTypeToAppType = (postgresType: string): ColumnDefinition['type'] => {
-    switch(postgresType) {
-        case 'text':
-        case 'character varying':
-            return 'string';
-        case 'integer':
-        case 'bigint':
-        case 'numeric':
-            return 'number';
-        case 'boolean':
-            return 'boolean';
-        case 'timestamp with time zone':
-        case 'date':
-            return 'date';
-        default:
-            return 'string';
-    }
-}
+// The audit log relies on database triggers, so it's only there when the backend provides it.
+export const isAuditLogAvailable = (): boolean => !!getDataSource().enableAuditLog;
 
+export const getAuditedTables = async (): Promise<string[]> => {
+    const source = getDataSource();
+    return source.getAuditedTables ? source.getAuditedTables() : [];
+};
 
-export const getRecords = async (tableName: string): Promise<Record[]> => {
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-        .from(tableName)
-        .select('*')
-        .order('created_at', { ascending: false });
+export const enableAuditLog = async (tableName: string): Promise<void> => {
+    const source = getDataSource();
+    if (!source.enableAuditLog) throw new Error('Change history is not available for this workspace.');
+    await source.enableAuditLog(tableName);
+};
 
-    if (error) {
-        console.error(`Supabase getRecords for ${tableName} error:`, error);
-        throw error;
-    }
-    return data;
-};
-
-export const createRecord = async (tableName: string, newRecord: Omit<Record, 'id' | 'created_at'>): Promise<Record> => {
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-        .from(tableName)
-        .insert(newRecord)
-        .select()
-        .single();
-    if (error) {
-        console.error(`Supabase createRecord for ${tableName} error:`, error);
-        throw error;
-    }
-    return data;
-}
-
-export const updateRecord = async (tableName: string, recordId: string, updates: Partial<Omit<Record, 'id'>>): Promise<Record> => {
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-        .from(tableName)
-        .update(updates)
-        .eq('id', recordId)
-        .select()
-        .single();
-    if (error) {
-        console.error(`Supabase updateRecord for ${tableName} error:`, error);
-        throw error;
-    }
-    return data;
-};
-
-export const deleteRecord = async (tableName: string, recordId: string): Promise<void> => {
-    const supabase = getSupabaseClient();
-    const { error } = await supabase
-        .from(tableName)
-        .delete()
-        .eq('id', recordId);
-    if (error) {
-        console.error(`Supabase deleteRecord for ${tableName} error:`, error);
-        throw error;
+export const disableAuditLog = async (tableName: string): Promise<void> => {
+    await getDataSource().disableAuditLog?.(tableName);
+};
+
+// A record's changes, newest first.
+export const getRecordHistory = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<RecordHistoryEntry[]> => {
+    const source = getDataSource();
+    return source.getRecordHistory ? source.getRecordHistory(tableName, schema, recordKey) : [];
+};
+
+export const getSavedViews = async (tableName: string): Promise<SavedView[]> => {
+    const source = getDataSource();
+    const views = source.getSavedViews ? await source.getSavedViews(tableName) : getStoredViews(tableName);
+    return views.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Creates or replaces a view. Making a view the default takes that role away from the table's other views.
+export const saveView = async (view: SavedView): Promise<SavedView> => {
+    const source = getDataSource();
+    const save = (toSave: SavedView) => source.saveView ? source.saveView(toSave) : Promise.resolve(storeView(toSave));
+    if (view.isDefault) {
+        const previousDefaults = (await getSavedViews(view.tableName)).filter(other => other.isDefault && other.id !== view.id);
+        await Promise.all(previousDefaults.map(other => save({ ...other, isDefault: false })));
     }
+    return save(view);
 };
 
-export const runRawSql = async (sql: string): Promise<void> => {
-    const supabase = getSupabaseClient();
-    const { error } = await supabase.rpc('execute_sql', { sql_query: sql });
-    if (error) {
-        console.error("Supabase runRawSql error:", error);
-        throw error;
+export const deleteSavedView = async (view: SavedView): Promise<void> => {
+    const source = getDataSource();
+    if (source.deleteSavedView) {
+        await source.deleteSavedView(view);
+    } else {
+        removeStoredView(view.id);
     }
-}
\ No newline at end of file
+};
@@ -0,0 +1,93 @@
+import type { DatabaseSchema, Record, RecordHistoryEntry } from '../types';
+import { quoteIdentifier } from './schemaSql';
+
+// Every audited table writes into this one log. It's an app table, so it's hidden from the table picker.
+export const AUDIT_LOG_TABLE = 'emerald_audit_log';
+const AUDIT_TRIGGER = 'emerald_audit';
+
+// A field that differs between two versions of a record.
+export interface FieldChange {
+    columnId: string;
+    before: any;
+    after: any;
+}
+
+// The log table, the trigger function and the function that reports which tables are audited.
+// Safe to run repeatedly.
+const AUDIT_LOG_SETUP_SQL = `
+CREATE TABLE IF NOT EXISTS public.${AUDIT_LOG_TABLE} (
+  id bigserial PRIMARY KEY,
+  table_name text NOT NULL,
+  operation text NOT NULL,
+  old_row jsonb,
+  new_row jsonb,
+  changed_by text,
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS ${AUDIT_LOG_TABLE}_table_idx ON public.${AUDIT_LOG_TABLE} (table_name, changed_at DESC);
+ALTER TABLE public.${AUDIT_LOG_TABLE} ENABLE ROW LEVEL SECURITY;
+
+-- Whether the caller may read the audited table itself. Runs as the caller, so its grants are the ones checked.
+-- Row-level policies can't be checked against a logged copy of a row, so they don't carry over to the log.
+CREATE OR REPLACE FUNCTION public.emerald_can_read_audited_table(table_name_arg text)
+RETURNS boolean LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public AS $$
+  SELECT coalesce(has_table_privilege(to_regclass(format('public.%I', table_name_arg)), 'SELECT'), false);
+$$;
+
+DROP POLICY IF EXISTS "Enable read access for anon users" ON public.${AUDIT_LOG_TABLE};
+DROP POLICY IF EXISTS "Enable read access for readers of the audited table" ON public.${AUDIT_LOG_TABLE};
+CREATE POLICY "Enable read access for readers of the audited table" ON public.${AUDIT_LOG_TABLE}
+  FOR SELECT USING (public.emerald_can_read_audited_table(table_name));
+
+-- Runs as its owner so writes to the log don't need an insert policy, which would let clients forge entries.
+CREATE OR REPLACE FUNCTION public.emerald_audit_row()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+  INSERT INTO public.${AUDIT_LOG_TABLE} (table_name, operation, old_row, new_row, changed_by)
+  VALUES (
+    TG_TABLE_NAME,
+    TG_OP,
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END,
+    coalesce(claims ->> 'email', claims ->> 'role', session_user)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.emerald_audited_tables()
+RETURNS SETOF text LANGUAGE sql AS $$
+  SELECT c.relname::text
+  FROM pg_trigger t
+  JOIN pg_class c ON c.oid = t.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE t.tgname = '${AUDIT_TRIGGER}' AND n.nspname = 'public';
+$$;
+`;
+
+// Installs the audit log (if needed) and starts recording every insert, update and delete on the table.
+export const buildEnableAuditSql = (tableName: string): string => {
+    const table = `public.${quoteIdentifier(tableName)}`;
+    return `${AUDIT_LOG_SETUP_SQL}
+DROP TRIGGER IF EXISTS ${AUDIT_TRIGGER} ON ${table};
+CREATE TRIGGER ${AUDIT_TRIGGER} AFTER INSERT OR UPDATE OR DELETE ON ${table}
+  FOR EACH ROW EXECUTE FUNCTION public.emerald_audit_row();
+NOTIFY pgrst, 'reload schema';
+`;
+};
+
+// Stops recording changes to the table. The history recorded so far is kept.
+export const buildDisableAuditSql = (tableName: string): string =>
+    `DROP TRIGGER IF EXISTS ${AUDIT_TRIGGER} ON public.${quoteIdentifier(tableName)};`;
+
+// The columns whose values differ between an entry's old and new row. Inserts and deletes compare
+// against an empty row, so every field with a value shows up.
+export const getFieldChanges = (entry: RecordHistoryEntry, schema: DatabaseSchema): FieldChange[] => {
+    const before: Partial<Record> = entry.oldRecord || {};
+    const after: Partial<Record> = entry.newRecord || {};
+    return schema
+        .filter(col => JSON.stringify(before[col.id] ?? null) !== JSON.stringify(after[col.id] ?? null))
+        .map(col => ({ columnId: col.id, before: before[col.id] ?? null, after: after[col.id] ?? null }));
+};
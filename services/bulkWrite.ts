@@ -0,0 +1,40 @@
+import type { BulkResult, BulkProgressHandler } from '../types';
+
+// Bulk writes are sent in chunks of this many rows.
+const BULK_CHUNK_SIZE = 100;
+
+// Runs a bulk write chunk by chunk. When the database rejects a chunk as a whole, its rows are retried one at a
+// time so that a bad row only fails itself. Without `writeChunk` every row is written on its own.
+export const runBulkWrite = async <T, R>(
+    items: T[],
+    writeChunk: ((chunk: T[]) => Promise<R[]>) | null,
+    writeOne: (item: T) => Promise<R>,
+    onProgress?: BulkProgressHandler
+): Promise<BulkResult<R>> => {
+    const result: BulkResult<R> = { succeeded: [], failures: [] };
+    for (let start = 0; start < items.length; start += BULK_CHUNK_SIZE) {
+        const chunk = items.slice(start, start + BULK_CHUNK_SIZE);
+        let chunkResult: R[] | null = null;
+        if (writeChunk) {
+            try {
+                chunkResult = await writeChunk(chunk);
+            } catch (err) {
+                console.warn(`Bulk write of rows ${start}-${start + chunk.length - 1} failed; retrying them one by one.`, err);
+            }
+        }
+        if (chunkResult) {
+            result.succeeded.push(...chunkResult);
+        } else {
+            const outcomes = await Promise.allSettled(chunk.map(writeOne));
+            outcomes.forEach((outcome, i) => {
+                if (outcome.status === 'fulfilled') {
+                    result.succeeded.push(outcome.value);
+                } else {
+                    result.failures.push({ index: start + i, message: outcome.reason?.message || String(outcome.reason) });
+                }
+            });
+        }
+        onProgress?.(start + chunk.length, items.length);
+    }
+    return result;
+};
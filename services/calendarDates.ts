@@ -0,0 +1,61 @@
+// Day arithmetic for the date-based views. Days are 'YYYY-MM-DD' keys taken from the UTC date of a stored
+// value, which is the day the table shows for it.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDayKey = (dayKey: string): Date => new Date(`${dayKey}T00:00:00Z`);
+
+const formatDayKey = (date: Date): string => date.toISOString().split('T')[0];
+
+// The day a stored date falls on, or null if it is empty or unparseable.
+export const toDayKey = (value: any): string | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : formatDayKey(date);
+};
+
+// Today in the user's own time zone.
+export const getTodayKey = (): string => {
+    const now = new Date();
+    return formatDayKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+export const addDays = (dayKey: string, days: number): string => formatDayKey(new Date(parseDayKey(dayKey).getTime() + days * DAY_MS));
+
+// Whole days from one day to another; negative if `to` comes first.
+export const daysBetween = (from: string, to: string): number => Math.round((parseDayKey(to).getTime() - parseDayKey(from).getTime()) / DAY_MS);
+
+// The same day of the month `months` away, pulled back to the month's last day where it has fewer days.
+export const addMonths = (dayKey: string, months: number): string => {
+    const date = parseDayKey(dayKey);
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return formatDayKey(target);
+};
+
+// Weeks start on Sunday.
+export const getWeekStart = (dayKey: string): string => addDays(dayKey, -parseDayKey(dayKey).getUTCDay());
+
+export const getMonthStart = (dayKey: string): string => `${dayKey.slice(0, 7)}-01`;
+
+export const getMonthEnd = (dayKey: string): string => addDays(addMonths(getMonthStart(dayKey), 1), -1);
+
+// Every day from `start` to `end`, inclusive.
+export const getDayRange = (start: string, end: string): string[] =>
+    Array.from({ length: Math.max(0, daysBetween(start, end) + 1) }, (_, index) => addDays(start, index));
+
+// The whole weeks that cover a month, as shown in a month grid.
+export const getMonthGridDays = (dayKey: string): string[] =>
+    getDayRange(getWeekStart(getMonthStart(dayKey)), addDays(getWeekStart(getMonthEnd(dayKey)), 6));
+
+// Moves a stored date to another day, keeping its time of day.
+export const moveToDay = (value: any, dayKey: string): string => {
+    const target = parseDayKey(dayKey);
+    const date = toDayKey(value) ? new Date(value) : target;
+    date.setUTCFullYear(target.getUTCFullYear(), target.getUTCMonth(), target.getUTCDate());
+    return date.toISOString();
+};
+
+export const formatDay = (dayKey: string, options: Intl.DateTimeFormatOptions): string =>
+    parseDayKey(dayKey).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
@@ -0,0 +1,26 @@
+import type { ColumnDefinition, Record } from '../types';
+import { toDayKey, formatDay } from './calendarDates';
+
+// Titles of linked records, per relation column and then per stored value.
+export type RelationLabels = { [columnId: string]: { [value: string]: string } };
+
+// Formats a cell for display. Empty values read as 'N/A' and unparseable dates as 'Invalid Date'.
+export const formatCellValue = (record: Partial<Record>, column: ColumnDefinition, relationLabels: RelationLabels = {}): string => {
+    const value = record[column.id];
+
+    if (value === null || value === undefined) {
+        return 'N/A';
+    }
+    if (column.type === 'boolean') {
+        return value ? 'Yes' : 'No';
+    }
+    if (column.type === 'relation') {
+        return relationLabels[column.id]?.[String(value)] ?? String(value);
+    }
+    if (column.type === 'date') {
+        if (!value) return 'N/A';
+        const dayKey = toDayKey(value);
+        return dayKey ? formatDay(dayKey, {}) : 'Invalid Date';
+    }
+    return value.toString();
+};
@@ -0,0 +1,41 @@
+import type { ColumnDefinition } from '../types';
+import { isIntegerDataType, isTextDataType } from './schemaSql';
+import { toDayKey } from './calendarDates';
+
+// Checks values people type against the column's Postgres type, so that the database is never sent one it rejects.
+
+// Plain decimal notation only: `Number()` would also take hex, `Infinity` and blank text.
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isIntegerColumn = (column: ColumnDefinition) => !!column.dataType && isIntegerDataType(column.dataType);
+
+const isUuidColumn = (column: ColumnDefinition) => column.dataType?.trim().toLowerCase() === 'uuid';
+
+// Enum columns only take one of their labels, exactly as written.
+const isEnumColumn = (column: ColumnDefinition) =>
+    column.type === 'select' && !!column.dataType && !isTextDataType(column.dataType) && !!column.options?.length;
+
+// Why the column can't hold or be compared with a typed value, or null if it can.
+export const getValueError = (text: string, column: ColumnDefinition): string | null => {
+    const trimmed = text.trim();
+    if (isIntegerColumn(column) && !INTEGER_PATTERN.test(trimmed)) return `"${trimmed}" is not a whole number.`;
+    if (column.type === 'number' && !NUMBER_PATTERN.test(trimmed)) return `"${trimmed}" is not a number.`;
+    if (column.type === 'date' && !toDayKey(trimmed)) return `"${trimmed}" is not a date.`;
+    if (isUuidColumn(column) && !UUID_PATTERN.test(trimmed)) return `"${trimmed}" is not a valid ID.`;
+    if (isEnumColumn(column) && !column.options!.includes(trimmed)) return `"${trimmed}" is not one of: ${column.options!.join(', ')}.`;
+    return null;
+};
+
+// Turns what was typed into an editor into the value stored for the column. Empty input clears the value, or
+// leaves empty text in text columns.
+export const toStoredValue = (column: ColumnDefinition, input: any): { value: any } | { error: string } => {
+    if (column.type === 'boolean') return { value: input === true || input === 'true' };
+    if (input === '' || input === null || input === undefined) return { value: column.type === 'string' ? '' : null };
+    const error = getValueError(String(input), column);
+    if (error) return { error };
+    if (column.type === 'number') return { value: Number(String(input).trim()) };
+    if (column.type === 'date') return { value: new Date(input).toISOString() };
+    return { value: input };
+};
@@ -0,0 +1,69 @@
+// Parses CSV text as described by RFC 4180: quoted fields may contain commas, doubled quotes and line breaks.
+// Accepts CRLF or LF line endings and ignores a leading byte order mark and a trailing newline.
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endField = () => {
+        row.push(field);
+        field = '';
+    };
+    const endRow = () => {
+        endField();
+        rows.push(row);
+        row = [];
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            endField();
+        } else if (char === '\r' && text[i + 1] === '\n') {
+            endRow();
+            i++;
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+        } else {
+            field += char;
+        }
+        i++;
+    }
+
+    if (inQuotes) {
+        throw new Error('The file ends inside a quoted field; check for an unmatched quote.');
+    }
+    // The last line only counts if it has content; a trailing newline doesn't start a new row.
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+};
+
+// Picks the delimiter spreadsheets most likely used, judging by the first line.
+export const detectDelimiter = (text: string): string => {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const candidates = [',', ';', '\t'];
+    return candidates.reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+};
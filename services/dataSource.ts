@@ -0,0 +1,53 @@
+import type {
+    DatabaseSchema, Record, RecordKey, RecordQuery, RecordPage, RecordChangeEvent, ColumnDefinition, RelationOption,
+    TableReference, LinkedRecordGroup, BulkResult, BulkProgressHandler, RecordHistoryEntry, SavedView
+} from '../types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// How many records a relation picker or a linked-records list shows at once.
+export const MAX_RELATION_OPTIONS = 50;
+
+// A record as a relation choice: the value stored to point at it, labelled with its title where it has one.
+export const toRelationOption = (record: Record, value: string, titleColumn: string | undefined): RelationOption => {
+    const title = titleColumn ? record[titleColumn] : null;
+    return { value, label: title === null || title === undefined || title === '' ? value : String(title) };
+};
+
+export type DataSourceKind = 'supabase' | 'local';
+
+// A backend the app stores its tables in. `apiService` forwards every call to the active one.
+// The optional methods are faster or richer versions of things `apiService` can otherwise do with the
+// required ones; the audit log is only available where the backend implements it, and saved views are kept
+// in the browser where it doesn't store them.
+export interface DataSource {
+    kind: DataSourceKind;
+    listTables(): Promise<string[]>;
+    getTableSchema(tableName: string): Promise<DatabaseSchema>;
+    // Stores display names, presentation types and select options; the schema is the table's complete column list.
+    saveColumnMetadata(tableName: string, schema: DatabaseSchema): Promise<void>;
+    getRecords(tableName: string, schema: DatabaseSchema, query?: RecordQuery): Promise<RecordPage>;
+    getRecord(tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<Record | null>;
+    createRecord(tableName: string, newRecord: Partial<Record>): Promise<Record>;
+    updateRecord(tableName: string, schema: DatabaseSchema, recordKey: RecordKey, updates: Partial<Record>): Promise<Record>;
+    deleteRecord(tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<void>;
+    // Reports changes made elsewhere, e.g. by other users or in other tabs. Returns an unsubscribe function.
+    subscribeToRecords(tableName: string, onChange: (event: RecordChangeEvent) => void): () => void;
+    // Runs PostgreSQL DDL, such as the setup script and the schema editor's ALTER TABLE statements.
+    runRawSql(sql: string): Promise<void>;
+
+    bulkCreateRecords?(tableName: string, newRecords: Partial<Record>[], onProgress?: BulkProgressHandler, upsertOn?: string[]): Promise<BulkResult<Record>>;
+    bulkUpdateRecords?(tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], updates: Partial<Record>, onProgress?: BulkProgressHandler): Promise<BulkResult<Record>>;
+    bulkDeleteRecords?(tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], onProgress?: BulkProgressHandler): Promise<BulkResult<RecordKey>>;
+    searchRelationOptions?(relation: NonNullable<ColumnDefinition['relation']>, search: string): Promise<RelationOption[]>;
+    getRelationLabels?(relation: NonNullable<ColumnDefinition['relation']>, values: string[]): Promise<{ [value: string]: string }>;
+    getTableReferences(tableName: string): Promise<TableReference[]>;
+    getLinkedRecords?(tableName: string, record: Partial<Record>): Promise<LinkedRecordGroup[]>;
+    getAuditedTables?(): Promise<string[]>;
+    enableAuditLog?(tableName: string): Promise<void>;
+    disableAuditLog?(tableName: string): Promise<void>;
+    getRecordHistory?(tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<RecordHistoryEntry[]>;
+    getSavedViews?(tableName: string): Promise<SavedView[]>;
+    saveView?(view: SavedView): Promise<SavedView>;
+    deleteSavedView?(view: SavedView): Promise<void>;
+}
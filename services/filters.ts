@@ -0,0 +1,216 @@
+import type { ColumnDefinition, DatabaseSchema, Filter, FilterGroup, FilterNode, FilterOperator } from '../types';
+import { toDayKey, getTodayKey, addDays, formatDay } from './calendarDates';
+import { isTextDataType } from './schemaSql';
+import { getValueError } from './columnValues';
+
+// What each operator means for each column type, shared by the filter builder, both backends and the AI.
+
+export const FILTER_OPERATORS: { [type in ColumnDefinition['type']]: FilterOperator[] } = {
+    string: ['CONTAINS', 'EQUALS', 'NOT_EQUALS', 'STARTS_WITH', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+    select: ['EQUALS', 'NOT_EQUALS', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+    relation: ['EQUALS', 'NOT_EQUALS', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+    number: ['EQUALS', 'NOT_EQUALS', 'GREATER_THAN', 'LESS_THAN', 'BETWEEN', 'IN', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+    boolean: ['EQUALS', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+    date: ['EQUALS', 'LESS_THAN', 'GREATER_THAN', 'BETWEEN', 'TODAY', 'IN_LAST_DAYS', 'IN_NEXT_DAYS', 'OVERDUE', 'IS_EMPTY', 'IS_NOT_EMPTY'],
+};
+
+const OPERATOR_LABELS: { [operator in FilterOperator]: string } = {
+    EQUALS: 'is',
+    NOT_EQUALS: 'is not',
+    CONTAINS: 'contains',
+    STARTS_WITH: 'starts with',
+    GREATER_THAN: 'is greater than',
+    LESS_THAN: 'is less than',
+    BETWEEN: 'is between',
+    IN: 'is any of',
+    IS_EMPTY: 'is empty',
+    IS_NOT_EMPTY: 'is not empty',
+    TODAY: 'is today',
+    IN_LAST_DAYS: 'is in the last',
+    IN_NEXT_DAYS: 'is in the next',
+    OVERDUE: 'is overdue',
+};
+
+const DATE_OPERATOR_LABELS: { [operator in FilterOperator]?: string } = {
+    EQUALS: 'is on',
+    NOT_EQUALS: 'is not on',
+    GREATER_THAN: 'is after',
+    LESS_THAN: 'is before',
+};
+
+const VALUELESS_OPERATORS: FilterOperator[] = ['IS_EMPTY', 'IS_NOT_EMPTY', 'TODAY', 'OVERDUE'];
+
+// Text and select columns hold text unless their Postgres type says otherwise, e.g. a uuid key or an enum.
+export const isTextColumn = (column: ColumnDefinition): boolean =>
+    (column.type === 'string' || column.type === 'select') && (!column.dataType || isTextDataType(column.dataType));
+
+// Partial matches need text; other columns can only be compared whole.
+export const getFilterOperators = (column: ColumnDefinition): FilterOperator[] =>
+    FILTER_OPERATORS[column.type].filter(operator => isTextColumn(column) || (operator !== 'CONTAINS' && operator !== 'STARTS_WITH'));
+
+export const getOperatorLabel = (operator: FilterOperator, column?: ColumnDefinition): string =>
+    (column?.type === 'date' && DATE_OPERATOR_LABELS[operator]) || OPERATOR_LABELS[operator];
+
+export const needsFilterValue = (operator: FilterOperator): boolean => !VALUELESS_OPERATORS.includes(operator);
+
+export const isFilterGroup = (node: FilterNode): node is FilterGroup => 'combinator' in node;
+
+// IN takes a list or, as people and the AI tend to type it, a comma-separated string.
+export const getFilterValues = (filter: Filter): string[] =>
+    (Array.isArray(filter.value) ? filter.value : String(filter.value ?? '').split(','))
+        .map(value => String(value ?? '').trim())
+        .filter(value => value !== '');
+
+export const getBetweenBounds = (filter: Filter): [string, string] =>
+    Array.isArray(filter.value) ? [String(filter.value[0] ?? '').trim(), String(filter.value[1] ?? '').trim()] : ['', ''];
+
+export const isCompleteFilter = (filter: Filter): boolean => {
+    switch (filter.operator) {
+        case 'IN':
+            return getFilterValues(filter).length > 0;
+        case 'BETWEEN':
+            return getBetweenBounds(filter).every(bound => bound !== '');
+        case 'IN_LAST_DAYS':
+        case 'IN_NEXT_DAYS':
+            return Number(filter.value) > 0;
+        default:
+            return !needsFilterValue(filter.operator) || (filter.value !== null && filter.value !== undefined && String(filter.value).trim() !== '');
+    }
+};
+
+// Why a finished condition can't be run against the column, or null if it can.
+export const getFilterError = (filter: Filter, column: ColumnDefinition | undefined): string | null => {
+    if (!column) return `There is no "${filter.columnId}" column.`;
+    if (!getFilterOperators(column).includes(filter.operator)) {
+        return `"${getOperatorLabel(filter.operator, column)}" doesn't apply to ${column.name}.`;
+    }
+    switch (filter.operator) {
+        case 'IN_LAST_DAYS':
+        case 'IN_NEXT_DAYS':
+            return /^\d+$/.test(String(filter.value).trim()) ? null : 'The number of days must be a whole number.';
+        case 'BETWEEN':
+            return getBetweenBounds(filter).map(bound => getValueError(bound, column)).find(Boolean) ?? null;
+        case 'IN':
+            return getFilterValues(filter).map(value => getValueError(value, column)).find(Boolean) ?? null;
+        case 'EQUALS':
+        case 'NOT_EQUALS':
+        case 'GREATER_THAN':
+        case 'LESS_THAN':
+            return column.type === 'boolean' ? null : getValueError(String(filter.value), column);
+        default:
+            return null;
+    }
+};
+
+// Drops unfinished and invalid conditions and empty groups, and unwraps groups left with a single node.
+export const pruneFilterNodes = (nodes: FilterNode[], schema: DatabaseSchema): FilterNode[] => nodes.flatMap((node): FilterNode[] => {
+    if (!isFilterGroup(node)) {
+        return isCompleteFilter(node) && !getFilterError(node, schema.find(col => col.id === node.columnId)) ? [node] : [];
+    }
+    const filters = pruneFilterNodes(node.filters, schema);
+    if (filters.length <= 1) return filters;
+    return [{ ...node, filters }];
+});
+
+export const countFilterConditions = (nodes: FilterNode[]): number =>
+    nodes.reduce((count, node) => count + (isFilterGroup(node) ? countFilterConditions(node.filters) : 1), 0);
+
+// Date filters work on whole days, using the same day for a stored value as the table and calendar show: its
+// UTC date. "Today" is the user's own calendar day.
+
+// The days a date filter covers, as 'YYYY-MM-DD' keys: from `from` (inclusive) up to `before` (exclusive).
+// Plain days compare correctly against both date and timestamp columns.
+export interface DateRange {
+    from?: string;
+    before?: string;
+}
+
+export const getDateRange = (filter: Filter, today = getTodayKey()): DateRange | null => {
+    switch (filter.operator) {
+        // NOT_EQUALS covers the same day; callers match outside it.
+        case 'EQUALS':
+        case 'NOT_EQUALS': {
+            const date = toDayKey(filter.value);
+            return date ? { from: date, before: addDays(date, 1) } : null;
+        }
+        case 'GREATER_THAN': {
+            const date = toDayKey(filter.value);
+            return date ? { from: addDays(date, 1) } : null;
+        }
+        case 'LESS_THAN': {
+            const date = toDayKey(filter.value);
+            return date ? { before: date } : null;
+        }
+        case 'BETWEEN': {
+            const [from, to] = getBetweenBounds(filter).map(toDayKey);
+            return from && to ? { from, before: addDays(to, 1) } : null;
+        }
+        case 'TODAY':
+            return { from: today, before: addDays(today, 1) };
+        // The last and next N days both include today.
+        case 'IN_LAST_DAYS':
+            return { from: addDays(today, 1 - Number(filter.value)), before: addDays(today, 1) };
+        case 'IN_NEXT_DAYS':
+            return { from: today, before: addDays(today, Number(filter.value)) };
+        case 'OVERDUE':
+            return { before: today };
+        default:
+            return null;
+    }
+};
+
+// Operators on date columns that are answered with a date range rather than by comparing values.
+export const isDateRangeFilter = (filter: Filter, column: ColumnDefinition | undefined): boolean =>
+    column?.type === 'date' && !['IN', 'IS_EMPTY', 'IS_NOT_EMPTY'].includes(filter.operator);
+
+const formatFilterValue = (value: any, column: ColumnDefinition | undefined): string => {
+    if (column?.type === 'boolean') return String(value) === 'true' ? 'Yes' : 'No';
+    if (column?.type === 'date') {
+        const dayKey = toDayKey(value);
+        return dayKey ? formatDay(dayKey, {}) : String(value);
+    }
+    return `"${value}"`;
+};
+
+export const describeFilter = (filter: Filter, schema: DatabaseSchema): string => {
+    const column = schema.find(col => col.id === filter.columnId);
+    const subject = `${column?.name ?? filter.columnId} ${getOperatorLabel(filter.operator, column)}`;
+    switch (filter.operator) {
+        case 'BETWEEN': {
+            const [from, to] = getBetweenBounds(filter);
+            return `${subject} ${formatFilterValue(from, column)} and ${formatFilterValue(to, column)}`;
+        }
+        case 'IN':
+            return `${subject} ${getFilterValues(filter).map(value => formatFilterValue(value, column)).join(', ')}`;
+        case 'IN_LAST_DAYS':
+        case 'IN_NEXT_DAYS':
+            return `${subject} ${filter.value} ${Number(filter.value) === 1 ? 'day' : 'days'}`;
+        default:
+            return needsFilterValue(filter.operator) ? `${subject} ${formatFilterValue(filter.value, column)}` : subject;
+    }
+};
+
+export const describeFilterNode = (node: FilterNode, schema: DatabaseSchema): string => {
+    if (!isFilterGroup(node)) return describeFilter(node, schema);
+    const parts = node.filters.map(child => describeFilterNode(child, schema));
+    return parts.length > 1 ? `(${parts.join(node.combinator === 'OR' ? ' or ' : ' and ')})` : parts.join('');
+};
+
+// Turns filters written by the AI into filter nodes. BETWEEN bounds and IN lists may come as `values`;
+// conditions on unknown columns, with operators their column type doesn't support or with invalid values are dropped.
+export const normalizeFilterNodes = (raw: unknown, schema: DatabaseSchema): FilterNode[] => {
+    if (!Array.isArray(raw)) return [];
+    return pruneFilterNodes(raw.flatMap((item): FilterNode[] => {
+        if (!item || typeof item !== 'object') return [];
+        if (Array.isArray(item.filters)) {
+            return [{ combinator: item.combinator === 'OR' ? 'OR' : 'AND', filters: normalizeFilterNodes(item.filters, schema) }];
+        }
+        const operator = String(item.operator ?? '').toUpperCase() as FilterOperator;
+        const column = schema.find(col => col.id === item.columnId);
+        if (!column || !getFilterOperators(column).includes(operator)) return [];
+        const values = Array.isArray(item.values) ? item.values
+            : typeof item.value === 'string' && (operator === 'BETWEEN' || operator === 'IN') ? item.value.split(',') : undefined;
+        const value = operator === 'BETWEEN' || operator === 'IN' ? values ?? item.value : item.value ?? values?.[0];
+        return [{ columnId: item.columnId, operator, value }];
+    }), schema);
+};
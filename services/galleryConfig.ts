@@ -0,0 +1,43 @@
+import type { DatabaseSchema, GalleryConfig } from '../types';
+import { getTitleColumn, isKeyColumn } from './recordKeys';
+
+// Each table's gallery card layout, kept in this browser.
+const GALLERY_CONFIGS_STORAGE_KEY = 'emerald-galleryConfigs';
+
+const DEFAULT_DETAIL_COUNT = 3;
+
+const COVER_COLUMN_PATTERN = /image|photo|picture|cover|thumbnail|avatar|logo/i;
+
+// Only web and inline image addresses are loaded as covers.
+export const isImageUrl = (value: any): value is string =>
+    typeof value === 'string' && /^(https?:\/\/|data:image\/)/i.test(value.trim());
+
+// A first guess: the record's title, its first select column as the subtitle, an image-like text column
+// as the cover, and a few of the remaining columns as details.
+export const getDefaultGalleryConfig = (schema: DatabaseSchema): GalleryConfig => {
+    const titleColumnId = getTitleColumn(schema) ?? null;
+    const subtitleColumnId = schema.find(col => col.type === 'select' && col.id !== titleColumnId)?.id ?? null;
+    const coverColumnId = schema.find(col => col.type === 'string' && COVER_COLUMN_PATTERN.test(col.id))?.id ?? null;
+    const used = [titleColumnId, subtitleColumnId, coverColumnId];
+    const detailColumnIds = schema
+        .filter(col => !used.includes(col.id) && !isKeyColumn(col.id, schema) && !col.readOnly)
+        .slice(0, DEFAULT_DETAIL_COUNT)
+        .map(col => col.id);
+    return { titleColumnId, subtitleColumnId, detailColumnIds, coverColumnId };
+};
+
+const readStoredGalleryConfigs = (): { [tableName: string]: GalleryConfig } => {
+    try {
+        return JSON.parse(localStorage.getItem(GALLERY_CONFIGS_STORAGE_KEY) || '{}');
+    } catch (err) {
+        console.error("Failed to read gallery layouts:", err);
+        return {};
+    }
+};
+
+export const getStoredGalleryConfig = (tableName: string, schema: DatabaseSchema): GalleryConfig =>
+    readStoredGalleryConfigs()[tableName] ?? getDefaultGalleryConfig(schema);
+
+export const storeGalleryConfig = (tableName: string, config: GalleryConfig) => {
+    localStorage.setItem(GALLERY_CONFIGS_STORAGE_KEY, JSON.stringify({ ...readStoredGalleryConfigs(), [tableName]: config }));
+};
@@ -1,4 +1,4 @@
-import type { ChatMessage, ToolCallPayload, DatabaseSchema, Record, ChartConfig, KanbanConfig, GeneratedSchema } from '../types';
+import type { ChatMessage, ToolCallPayload, DatabaseSchema, Record, ChartConfig, GeneratedKanbanConfig, GeneratedSchema } from '../types';
 
 interface ApiRequestBody {
     action: 'getAiResponse' | 'generateDatabaseSchema' | 'generateChartAnalytics' | 'generateKanbanConfig';
@@ -43,6 +43,6 @@ export const generateChartAnalytics = async (schema: DatabaseSchema, records: Re
     return fetchFromApi('generateChartAnalytics', { schema, records });
 };
 
-export const generateKanbanConfig = async (schema: DatabaseSchema, records: Record[]): Promise<KanbanConfig> => {
+export const generateKanbanConfig = async (schema: DatabaseSchema, records: Record[]): Promise<GeneratedKanbanConfig> => {
     return fetchFromApi('generateKanbanConfig', { schema, records });
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import type { AggregateKind, ColumnDefinition, DatabaseSchema, Record, RecordGrouping } from '../types';
+import { formatCellValue } from './cellFormat';
+import type { RelationLabels } from './cellFormat';
+
+// Grouping and footer aggregates for the table view, worked out over the records loaded in the browser.
+
+export const MAX_GROUP_LEVELS = 2;
+
+export const DEFAULT_GROUPING: RecordGrouping = {
+    groupBy: [],
+    showTotals: false,
+    aggregates: {},
+};
+
+export const AGGREGATE_OPTIONS: { [type in ColumnDefinition['type']]: AggregateKind[] } = {
+    number: ['sum', 'average', 'min', 'max'],
+    boolean: ['checked'],
+    date: ['earliest', 'latest'],
+    string: [],
+    select: [],
+    relation: [],
+};
+
+const AGGREGATE_LABELS: { [kind in AggregateKind]: string } = {
+    sum: 'Sum',
+    average: 'Average',
+    min: 'Min',
+    max: 'Max',
+    checked: 'Checked',
+    earliest: 'Earliest',
+    latest: 'Latest',
+};
+
+export const getAggregateLabel = (kind: AggregateKind): string => AGGREGATE_LABELS[kind];
+
+// Numbers are summed and checkboxes counted unless the user picks otherwise; dates show nothing until asked.
+export const getAggregateKind = (column: ColumnDefinition, grouping: RecordGrouping): AggregateKind | null => {
+    const chosen = grouping.aggregates[column.id];
+    if (chosen === 'none') return null;
+    if (chosen && AGGREGATE_OPTIONS[column.type].includes(chosen)) return chosen;
+    return column.type === 'number' ? 'sum' : column.type === 'boolean' ? 'checked' : null;
+};
+
+// Group columns that still exist, as far as the supported depth goes.
+export const getGroupColumns = (schema: DatabaseSchema, grouping: RecordGrouping): ColumnDefinition[] =>
+    grouping.groupBy
+        .map(columnId => schema.find(col => col.id === columnId))
+        .filter((col): col is ColumnDefinition => !!col)
+        .slice(0, MAX_GROUP_LEVELS);
+
+// Grouped and totalled tables work on every matching record rather than a page of them.
+export const needsAllRecords = (schema: DatabaseSchema, grouping: RecordGrouping): boolean =>
+    grouping.showTotals || getGroupColumns(schema, grouping).length > 0;
+
+const isEmptyValue = (value: any) => value === null || value === undefined || value === '';
+
+export const computeAggregate = (records: Record[], column: ColumnDefinition, kind: AggregateKind): string => {
+    const values = records.map(record => record[column.id]).filter(value => !isEmptyValue(value));
+    if (kind === 'checked') {
+        return `${values.filter(value => value === true).length.toLocaleString()} of ${records.length.toLocaleString()}`;
+    }
+    if (kind === 'earliest' || kind === 'latest') {
+        const times = values.map(value => new Date(value).getTime()).filter(time => !isNaN(time));
+        if (times.length === 0) return '–';
+        const time = times.reduce((a, b) => kind === 'earliest' ? Math.min(a, b) : Math.max(a, b));
+        return formatCellValue({ [column.id]: new Date(time).toISOString() }, column);
+    }
+    const numbers = values.map(Number).filter(number => !isNaN(number));
+    if (numbers.length === 0) return '–';
+    const sum = numbers.reduce((a, b) => a + b, 0);
+    const result = kind === 'sum' ? sum
+        : kind === 'average' ? sum / numbers.length
+        : numbers.reduce((a, b) => kind === 'min' ? Math.min(a, b) : Math.max(a, b));
+    return result.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+export interface RecordGroup {
+    id: string; // The group values from the outermost level down, unique within the table
+    level: number; // 0 for the outermost level
+    column: ColumnDefinition;
+    label: string;
+    records: Record[]; // Every record in the group, including those in subgroups
+    subgroups: RecordGroup[]; // Empty at the innermost level
+}
+
+// The value records are grouped on: dates by day, everything else as stored.
+const getGroupValue = (record: Record, column: ColumnDefinition): string | null => {
+    const value = record[column.id];
+    if (isEmptyValue(value)) return null;
+    return column.type === 'date' ? String(value).split('T')[0] : String(value);
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// Select groups follow the order of the options; the rest sort by value. Records without a value come last.
+const compareGroupValues = (a: string | null, b: string | null, column: ColumnDefinition): number => {
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+    if (column.type === 'select' && column.options) {
+        const positions = [a, b].map(value => {
+            const index = column.options!.indexOf(value);
+            return index === -1 ? column.options!.length : index;
+        });
+        if (positions[0] !== positions[1]) return positions[0] - positions[1];
+    }
+    if (column.type === 'number') return Number(a) - Number(b);
+    return collator.compare(a, b);
+};
+
+// Splits records into groups, and each group into subgroups by the next column. Records keep their order within a group.
+export const groupRecords = (
+    records: Record[], groupColumns: ColumnDefinition[], relationLabels: RelationLabels = {}, parentPath: (string | null)[] = []
+): RecordGroup[] => {
+    const [column, ...innerColumns] = groupColumns;
+    if (!column) return [];
+    const buckets = new Map<string | null, Record[]>();
+    for (const record of records) {
+        const value = getGroupValue(record, column);
+        const bucket = buckets.get(value);
+        if (bucket) {
+            bucket.push(record);
+        } else {
+            buckets.set(value, [record]);
+        }
+    }
+    return Array.from(buckets.entries())
+        .sort(([a], [b]) => compareGroupValues(a, b, column))
+        .map(([value, members]) => {
+            const path = [...parentPath, value];
+            return {
+                id: JSON.stringify(path),
+                level: parentPath.length,
+                column,
+                label: value === null ? '(Empty)' : formatCellValue(members[0], column, relationLabels),
+                records: members,
+                subgroups: groupRecords(members, innerColumns, relationLabels, path),
+            };
+        });
+};
@@ -0,0 +1,31 @@
+// Small promise wrappers over IndexedDB, shared by the offline cache and the local workspace.
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+// Opens (once per page) a database whose object stores are created by `upgrade` on first use.
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+    let database = openDatabases.get(name);
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        openDatabases.set(name, database);
+        database.catch(() => openDatabases.delete(name));
+    }
+    return database;
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Resolves once a read-write transaction has been committed.
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
@@ -0,0 +1,157 @@
+import type { ColumnDefinition, DatabaseSchema, GeneratedKanbanConfig, KanbanConfig, Record } from '../types';
+import { getTitleColumn, isKeyColumn } from './recordKeys';
+
+// Each table's board settings, kept in this browser.
+const KANBAN_CONFIGS_STORAGE_KEY = 'emerald-kanbanConfigs';
+
+const DEFAULT_DETAIL_COUNT = 2;
+
+const STATUS_COLUMN_PATTERN = /status|stage|state|phase/i;
+const RANK_COLUMN_PATTERN = /rank|order|position|sort/i;
+
+// Ranks leave gaps so that a card can usually be placed between two others by changing only its own rank.
+// They stay whole numbers, since the rank column may be an integer one.
+const RANK_STEP = 1024;
+
+// Board options beyond the ones the AI suggests, also filled in for boards saved before they existed.
+const DEFAULT_BOARD_OPTIONS: Pick<KanbanConfig, 'swimlaneColumnId' | 'rankColumnId' | 'wipLimits'> = {
+    swimlaneColumnId: null,
+    rankColumnId: null,
+    wipLimits: {},
+};
+
+// The heading for cards whose status is empty. Dropping a card there clears its status.
+export const UNCATEGORIZED_STATUS = 'Uncategorized';
+
+// A card moves between board columns by changing this column, so it has to be editable text or a select.
+export const isStatusColumnCandidate = (column: ColumnDefinition, schema: DatabaseSchema): boolean =>
+    (column.type === 'select' || column.type === 'string') && !column.readOnly && !isKeyColumn(column.id, schema);
+
+// Cards are ordered by hand through an editable number column.
+export const isRankColumnCandidate = (column: ColumnDefinition, schema: DatabaseSchema): boolean =>
+    column.type === 'number' && !column.readOnly && !isKeyColumn(column.id, schema);
+
+// A first guess without asking the AI: a status-like select column, in the order of its options,
+// and a rank-like number column for ordering cards if there is one.
+export const getDefaultKanbanConfig = (schema: DatabaseSchema): KanbanConfig | null => {
+    const candidates = schema.filter(col => isStatusColumnCandidate(col, schema));
+    const statusColumn = candidates.find(col => col.type === 'select' && STATUS_COLUMN_PATTERN.test(col.id))
+        || candidates.find(col => col.type === 'select')
+        || candidates.find(col => STATUS_COLUMN_PATTERN.test(col.id));
+    if (!statusColumn) return null;
+    const titleColumnId = schema.find(col => col.type === 'string' && col.id !== statusColumn.id && !isKeyColumn(col.id, schema))?.id
+        ?? getTitleColumn(schema)
+        ?? statusColumn.id;
+    return {
+        statusColumnId: statusColumn.id,
+        cardTitleColumnId: titleColumnId,
+        cardDetailColumnIds: schema
+            .filter(col => col.id !== statusColumn.id && col.id !== titleColumnId && !isKeyColumn(col.id, schema) && !col.readOnly)
+            .slice(0, DEFAULT_DETAIL_COUNT)
+            .map(col => col.id),
+        statusColumnOrder: statusColumn.options ?? [],
+        ...DEFAULT_BOARD_OPTIONS,
+        rankColumnId: schema.find(col => isRankColumnCandidate(col, schema) && RANK_COLUMN_PATTERN.test(col.id))?.id ?? null,
+    };
+};
+
+// Applies an AI suggestion, keeping the options it doesn't cover. WIP limits belong to the old statuses, so they go.
+export const applyGeneratedConfig = (config: KanbanConfig | null, generated: GeneratedKanbanConfig): KanbanConfig => ({
+    ...DEFAULT_BOARD_OPTIONS,
+    ...config,
+    ...generated,
+    wipLimits: config?.statusColumnId === generated.statusColumnId ? config.wipLimits : {},
+});
+
+const readStoredKanbanConfigs = (): { [tableName: string]: KanbanConfig } => {
+    try {
+        return JSON.parse(localStorage.getItem(KANBAN_CONFIGS_STORAGE_KEY) || '{}');
+    } catch (err) {
+        console.error("Failed to read board settings:", err);
+        return {};
+    }
+};
+
+export const getStoredKanbanConfig = (tableName: string, schema: DatabaseSchema): KanbanConfig | null => {
+    const stored = readStoredKanbanConfigs()[tableName];
+    return stored ? { ...DEFAULT_BOARD_OPTIONS, ...stored } : getDefaultKanbanConfig(schema);
+};
+
+export const storeKanbanConfig = (tableName: string, config: KanbanConfig) => {
+    localStorage.setItem(KANBAN_CONFIGS_STORAGE_KEY, JSON.stringify({ ...readStoredKanbanConfigs(), [tableName]: config }));
+};
+
+export const getCardStatus = (record: Record, statusColumn: ColumnDefinition): string => {
+    const value = record[statusColumn.id];
+    return value === null || value === undefined || value === '' ? UNCATEGORIZED_STATUS : String(value);
+};
+
+// The board's columns in order: the saved order, then select options not placed yet, then values only found on
+// records. Select options show up even without cards; cards without a status come last.
+export const getBoardStatuses = (config: KanbanConfig, statusColumn: ColumnDefinition, records: Record[]): string[] => {
+    const options = statusColumn.type === 'select' ? statusColumn.options ?? [] : [];
+    const found = new Set(records.map(record => getCardStatus(record, statusColumn)));
+    const hasUncategorized = found.delete(UNCATEGORIZED_STATUS);
+    const known = new Set([...options, ...found]);
+    const statuses = new Set([
+        ...config.statusColumnOrder.filter(status => known.has(status)),
+        ...options,
+        ...Array.from(found).sort(),
+    ]);
+    return hasUncategorized ? [...statuses, UNCATEGORIZED_STATUS] : [...statuses];
+};
+
+const getRank = (record: Record, rankColumn: ColumnDefinition): number | null => {
+    const value = record[rankColumn.id];
+    const rank = value === null || value === undefined || value === '' ? NaN : Number(value);
+    return isNaN(rank) ? null : rank;
+};
+
+// Cards in rank order; unranked cards follow in their current order.
+export const sortByRank = (records: Record[], rankColumn: ColumnDefinition): Record[] =>
+    records
+        .map((record, index) => ({ record, index, rank: getRank(record, rankColumn) }))
+        .sort((a, b) => a.rank === null || b.rank === null
+            ? (a.rank === null ? 1 : 0) - (b.rank === null ? 1 : 0) || a.index - b.index
+            : a.rank - b.rank || a.index - b.index)
+        .map(entry => entry.record);
+
+// Evenly spaced ranks for the cards from `start` up to `end` plus one more, between the ranks of the cards either
+// side, or null if there is no room for them.
+const spreadRanks = (others: Record[], start: number, end: number, rankColumn: ColumnDefinition): number[] | null => {
+    const before = start > 0 ? getRank(others[start - 1], rankColumn) : null;
+    // Unranked cards sort after every ranked one, so they don't bound the ranks from above.
+    const after = end < others.length ? getRank(others[end], rankColumn) : null;
+    const count = end - start + 1;
+    if (before !== null && after !== null && after - before < count + 1) return null;
+    return Array.from({ length: count }, (_, position) =>
+        before === null && after === null ? (position + 1) * RANK_STEP
+            : before === null ? after! - (count - position) * RANK_STEP
+            : after === null ? before + (position + 1) * RANK_STEP
+            : before + Math.floor((after - before) * (position + 1) / (count + 1)));
+};
+
+// The rank for a card placed at `index` among `others`, the column's other cards in rank order. When its neighbours
+// leave no room, the fewest nearby cards are renumbered along with it, and `renumbered` lists the ones whose rank
+// changes. Unranked cards before the new position are ranked too, so that they stay ahead of it.
+export const placeByRank = (
+    others: Record[], index: number, rankColumn: ColumnDefinition
+): { rank: number; renumbered: { record: Record; rank: number }[] } => {
+    let firstUnranked = index;
+    while (firstUnranked > 0 && getRank(others[firstUnranked - 1], rankColumn) === null) firstUnranked--;
+    // Tries every run of `extra` more cards around the position, from none up to the whole column.
+    for (let extra = 0; ; extra++) {
+        for (let taken = 0; taken <= extra; taken++) {
+            const start = firstUnranked - taken;
+            const end = index + extra - taken;
+            if (start < 0 || end > others.length) continue;
+            const ranks = spreadRanks(others, start, end, rankColumn);
+            if (!ranks) continue;
+            const placedAt = index - start;
+            const renumbered = others.slice(start, end)
+                .map((record, position) => ({ record, rank: ranks[position < placedAt ? position : position + 1] }))
+                .filter(({ record, rank }) => getRank(record, rankColumn) !== rank);
+            return { rank: ranks[placedAt], renumbered };
+        }
+    }
+};
@@ -0,0 +1,437 @@
+import type { DatabaseSchema, Record, RecordKey, RecordQuery, RecordPage, RecordChangeEvent, ColumnDefinition, TableReference, BulkResult, BulkProgressHandler } from '../types';
+import type { DataSource } from './dataSource';
+import type { GeneratedValue, DdlStatement } from './localSql';
+import { parseDdl } from './localSql';
+import { getRecordKey } from './recordKeys';
+import { queryRecordsLocally } from './localQuery';
+import { runBulkWrite } from './bulkWrite';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// A workspace that lives entirely in the browser: tables are kept in IndexedDB, or in memory where IndexedDB
+// isn't available (e.g. some private browsing modes), so the app can be used without a Supabase project.
+
+const DB_NAME = 'emerald-local-workspace';
+const DB_VERSION = 1;
+const TABLE_STORE = 'tables';
+const CHANGES_CHANNEL = 'emerald-local-workspace';
+
+interface LocalTable {
+    schema: DatabaseSchema;
+    generated: { [columnId: string]: GeneratedValue };
+    rows: Record[];
+    nextId: number; // For columns that behave like identity/serial keys
+}
+
+type LocalTables = Map<string, LocalTable>;
+
+const TEXT_TYPES: ColumnDefinition['type'][] = ['string', 'select'];
+const TRUE_WORDS = ['true', 't', 'yes', 'y', '1', 'on'];
+const FALSE_WORDS = ['false', 'f', 'no', 'n', '0', 'off'];
+
+const memoryTables: LocalTables = new Map();
+let useMemory = typeof indexedDB === 'undefined';
+
+const openLocalDatabase = () => openDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(TABLE_STORE);
+});
+
+// The workspace database, or null when the browser won't open IndexedDB; the workspace then stays in memory
+// for the rest of the session.
+const getLocalDatabase = async (): Promise<IDBDatabase | null> => {
+    if (useMemory) return null;
+    try {
+        return await openLocalDatabase();
+    } catch (err) {
+        console.warn("IndexedDB is unavailable; the local workspace will only last until the page is closed.", err);
+        useMemory = true;
+        return null;
+    }
+};
+
+// Storage failures are reported in words; the change they interrupted was not saved.
+const toStorageError = (err: unknown): unknown => {
+    if (!(err instanceof DOMException)) return err;
+    if (err.name === 'QuotaExceededError') {
+        return new Error("The browser has run out of storage for the local workspace, so the change was not saved.");
+    }
+    return new Error(`The browser's storage for the local workspace failed: ${err.message}`);
+};
+
+// Reads the named tables, or every table for null. Tables that don't exist are left out.
+const loadTables = async (store: IDBObjectStore, tableNames: string[] | null): Promise<LocalTables> => {
+    const tables: LocalTables = new Map();
+    if (tableNames) {
+        const values = await Promise.all(tableNames.map(name => requestToPromise<LocalTable | undefined>(store.get(name))));
+        tableNames.forEach((name, i) => { if (values[i]) tables.set(name, values[i]!); });
+    } else {
+        const [names, values] = await Promise.all([
+            requestToPromise(store.getAllKeys()),
+            requestToPromise<LocalTable[]>(store.getAll()),
+        ]);
+        names.forEach((name, i) => tables.set(String(name), values[i]));
+    }
+    return tables;
+};
+
+// Reads the named tables (every table for null), lets `change` modify them and writes back the ones it returns,
+// all in one transaction so that tabs writing at the same time don't overwrite each other.
+const withTables = async <T,>(
+    tableNames: string[] | null, change: (tables: LocalTables) => { result: T; changed?: string[]; removed?: string[] }
+): Promise<T> => {
+    const db = await getLocalDatabase();
+    if (!db) return change(memoryTables).result;
+    try {
+        const transaction = db.transaction(TABLE_STORE, 'readwrite');
+        const store = transaction.objectStore(TABLE_STORE);
+        const tables = await loadTables(store, tableNames);
+        const { result, changed = [], removed = [] } = change(tables);
+        changed.forEach(name => store.put(tables.get(name), name));
+        removed.forEach(name => store.delete(name));
+        await transactionDone(transaction);
+        return result;
+    } catch (err) {
+        throw toStorageError(err);
+    }
+};
+
+// Like `withTables`, for reads, which can run alongside each other.
+const readTables = async <T,>(tableNames: string[] | null, read: (tables: LocalTables) => T): Promise<T> => {
+    const db = await getLocalDatabase();
+    if (!db) return read(memoryTables);
+    try {
+        const store = db.transaction(TABLE_STORE, 'readonly').objectStore(TABLE_STORE);
+        return read(await loadTables(store, tableNames));
+    } catch (err) {
+        throw toStorageError(err);
+    }
+};
+
+const getTable = (tables: LocalTables, tableName: string): LocalTable => {
+    const table = tables.get(tableName);
+    if (!table) throw new Error(`Table "${tableName}" does not exist.`);
+    return table;
+};
+
+const findRowIndex = (table: LocalTable, recordKey: RecordKey) =>
+    table.rows.findIndex(row => getRecordKey(row, table.schema) === recordKey);
+
+// Other tabs on the same workspace hear about changes through a BroadcastChannel, standing in for realtime.
+const changesChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANGES_CHANNEL);
+
+const broadcastChange = (tableName: string, event: RecordChangeEvent) => {
+    changesChannel?.postMessage({ tableName, event });
+};
+
+const generateValue = (table: LocalTable, generated: GeneratedValue): any => {
+    switch (generated) {
+        case 'uuid':
+            return crypto.randomUUID();
+        case 'increment':
+            return table.nextId++;
+        case 'now':
+            return new Date().toISOString();
+    }
+};
+
+// Rejects values Postgres would reject, with similar wording. `replaced` is the stored row an update replaces.
+const validateRow = (table: LocalTable, row: Record, recordKey: RecordKey, tableName: string, replaced?: Record) => {
+    for (const column of table.schema) {
+        const value = row[column.id];
+        if (column.required && (value === null || value === undefined)) {
+            throw new Error(`null value in column "${column.id}" of relation "${tableName}" violates not-null constraint`);
+        }
+        if (value !== null && value !== undefined && column.type === 'number' && isNaN(Number(value))) {
+            throw new Error(`invalid input syntax for type numeric: "${value}"`);
+        }
+    }
+    const hasKey = table.schema.some(col => col.isPrimaryKey);
+    if (hasKey && table.rows.some(existing => existing !== row && existing !== replaced && getRecordKey(existing, table.schema) === recordKey)) {
+        throw new Error(`duplicate key value violates unique constraint "${tableName}_pkey"`);
+    }
+};
+
+const checkColumnsExist = (table: LocalTable, values: Partial<Record>, tableName: string) => {
+    const unknown = Object.keys(values).find(columnId => !table.schema.some(col => col.id === columnId));
+    if (unknown) throw new Error(`Could not find the '${unknown}' column of '${tableName}'.`);
+};
+
+// Converts stored values when a column's type changes, failing like Postgres on values that don't convert.
+const convertValue = (value: any, type: ColumnDefinition['type']): any => {
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim();
+    switch (type) {
+        case 'number': {
+            if (typeof value === 'boolean') return value ? 1 : 0;
+            if (text === '') return null;
+            if (isNaN(Number(text))) throw new Error(`invalid input syntax for type numeric: "${text}"`);
+            return Number(text);
+        }
+        case 'boolean': {
+            if (typeof value === 'number') return value !== 0;
+            if (text === '') return null;
+            if (TRUE_WORDS.includes(text.toLowerCase())) return true;
+            if (FALSE_WORDS.includes(text.toLowerCase())) return false;
+            throw new Error(`invalid input syntax for type boolean: "${text}"`);
+        }
+        case 'date': {
+            if (text === '') return null;
+            if (isNaN(new Date(text).getTime())) throw new Error(`invalid input syntax for type date: "${text}"`);
+            return text;
+        }
+        default:
+            return TEXT_TYPES.includes(type) || type === 'relation' ? String(value) : value;
+    }
+};
+
+// Applies parsed DDL to the tables in place, returning the names of tables it changed or removed.
+const applyStatement = (tables: LocalTables, statement: DdlStatement, changed: Set<string>, removed: Set<string>) => {
+    switch (statement.kind) {
+        case 'createTable': {
+            if (tables.has(statement.table)) {
+                if (statement.ifNotExists) return;
+                throw new Error(`relation "${statement.table}" already exists`);
+            }
+            tables.set(statement.table, {
+                schema: statement.columns.map(col => col.definition),
+                generated: Object.fromEntries(statement.columns.flatMap(col => col.generated ? [[col.definition.id, col.generated]] : [])),
+                rows: [],
+                nextId: 1,
+            });
+            changed.add(statement.table);
+            removed.delete(statement.table);
+            return;
+        }
+        case 'dropTable': {
+            if (!tables.has(statement.table)) {
+                if (statement.ifExists) return;
+                throw new Error(`table "${statement.table}" does not exist`);
+            }
+            tables.delete(statement.table);
+            changed.delete(statement.table);
+            removed.add(statement.table);
+            return;
+        }
+        case 'renameTable': {
+            const table = getTable(tables, statement.table);
+            tables.delete(statement.table);
+            tables.set(statement.newTable, table);
+            changed.delete(statement.table);
+            removed.add(statement.table);
+            changed.add(statement.newTable);
+            return;
+        }
+        default:
+            break;
+    }
+
+    const table = getTable(tables, statement.table);
+    changed.add(statement.table);
+    const columnIndex = (columnId: string) => table.schema.findIndex(col => col.id === columnId);
+    switch (statement.kind) {
+        case 'addColumn': {
+            const { definition, generated } = statement.column;
+            if (columnIndex(definition.id) !== -1) {
+                if (statement.ifNotExists) return;
+                throw new Error(`column "${definition.id}" of relation "${statement.table}" already exists`);
+            }
+            table.schema.push(definition);
+            if (generated) table.generated[definition.id] = generated;
+            table.rows.forEach(row => {
+                row[definition.id] = generated ? generateValue(table, generated) : definition.defaultValue ?? null;
+            });
+            return;
+        }
+        case 'dropColumn': {
+            const index = columnIndex(statement.columnId);
+            if (index === -1) {
+                if (statement.ifExists) return;
+                throw new Error(`column "${statement.columnId}" of relation "${statement.table}" does not exist`);
+            }
+            table.schema.splice(index, 1);
+            delete table.generated[statement.columnId];
+            table.rows.forEach(row => { delete row[statement.columnId]; });
+            return;
+        }
+        case 'renameColumn': {
+            const index = columnIndex(statement.columnId);
+            if (index === -1) throw new Error(`column "${statement.columnId}" does not exist`);
+            if (columnIndex(statement.newColumnId) !== -1) throw new Error(`column "${statement.newColumnId}" of relation "${statement.table}" already exists`);
+            table.schema[index] = { ...table.schema[index], id: statement.newColumnId };
+            if (table.generated[statement.columnId]) {
+                table.generated[statement.newColumnId] = table.generated[statement.columnId];
+                delete table.generated[statement.columnId];
+            }
+            table.rows.forEach(row => {
+                row[statement.newColumnId] = row[statement.columnId];
+                delete row[statement.columnId];
+            });
+            return;
+        }
+        case 'changeColumnType': {
+            const index = columnIndex(statement.columnId);
+            if (index === -1) throw new Error(`column "${statement.columnId}" does not exist`);
+            const converted = table.rows.map(row => statement.clearValues ? null : convertValue(row[statement.columnId], statement.type));
+            table.rows.forEach((row, i) => { row[statement.columnId] = converted[i]; });
+            table.schema[index] = { ...table.schema[index], type: statement.type, dataType: statement.dataType };
+            return;
+        }
+    }
+};
+
+// Only the names are read, not the tables' rows.
+const listTables = async (): Promise<string[]> => {
+    const db = await getLocalDatabase();
+    if (!db) return Array.from(memoryTables.keys()).sort();
+    try {
+        const names = await requestToPromise(db.transaction(TABLE_STORE, 'readonly').objectStore(TABLE_STORE).getAllKeys());
+        return names.map(String).sort();
+    } catch (err) {
+        throw toStorageError(err);
+    }
+};
+
+const getTableSchema = (tableName: string): Promise<DatabaseSchema> => readTables([tableName], tables => getTable(tables, tableName).schema);
+
+// The local schema is the metadata, so only what the app lets users change is taken over: names, and
+// text/select types with their options.
+const saveColumnMetadata = (tableName: string, schema: DatabaseSchema): Promise<void> => withTables([tableName], tables => {
+    const table = getTable(tables, tableName);
+    table.schema = table.schema.map(col => {
+        const meta = schema.find(c => c.id === col.id);
+        if (!meta) return col;
+        const type = TEXT_TYPES.includes(col.type) && TEXT_TYPES.includes(meta.type) ? meta.type : col.type;
+        const { options, ...rest } = col;
+        return { ...rest, name: meta.name || col.name, type, ...(type === 'select' ? { options: meta.options || options || [] } : {}) };
+    });
+    return { result: undefined, changed: [tableName] };
+});
+
+const getRecords = (tableName: string, schema: DatabaseSchema, query: RecordQuery = {}): Promise<RecordPage> =>
+    readTables([tableName], tables => queryRecordsLocally(getTable(tables, tableName).rows, schema, query));
+
+const getRecord = (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<Record | null> =>
+    readTables([tableName], tables => getTable(tables, tableName).rows.find(row => getRecordKey(row, schema) === recordKey) || null);
+
+const createRecord = async (tableName: string, newRecord: Partial<Record>): Promise<Record> => {
+    const created = await withTables([tableName], tables => {
+        const table = getTable(tables, tableName);
+        checkColumnsExist(table, newRecord, tableName);
+        const row: Record = {};
+        for (const column of table.schema) {
+            const generated = table.generated[column.id];
+            if (newRecord[column.id] !== undefined) {
+                row[column.id] = newRecord[column.id];
+                // Explicit keys, e.g. from a restored row, move the counter past themselves.
+                if (generated === 'increment' && typeof row[column.id] === 'number') {
+                    table.nextId = Math.max(table.nextId, row[column.id] + 1);
+                }
+            } else if (generated) {
+                row[column.id] = generateValue(table, generated);
+            } else {
+                row[column.id] = column.defaultValue ?? null;
+            }
+        }
+        validateRow(table, row, getRecordKey(row, table.schema), tableName);
+        table.rows.push(row);
+        return { result: row, changed: [tableName] };
+    });
+    broadcastChange(tableName, { type: 'INSERT', record: created });
+    return created;
+};
+
+const updateRecord = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey, updates: Partial<Record>): Promise<Record> => {
+    const updated = await withTables([tableName], tables => {
+        const table = getTable(tables, tableName);
+        checkColumnsExist(table, updates, tableName);
+        const index = findRowIndex(table, recordKey);
+        if (index === -1) throw new Error('The record could not be found; it may have been deleted.');
+        const row = { ...table.rows[index], ...updates };
+        validateRow(table, row, getRecordKey(row, table.schema), tableName, table.rows[index]);
+        table.rows[index] = row;
+        return { result: row, changed: [tableName] };
+    });
+    broadcastChange(tableName, { type: 'UPDATE', record: updated });
+    return updated;
+};
+
+const deleteRecord = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<void> => {
+    const deleted = await withTables([tableName], tables => {
+        const table = getTable(tables, tableName);
+        const index = findRowIndex(table, recordKey);
+        // Like a DELETE matching no rows, removing a record that's already gone isn't an error.
+        if (index === -1) return { result: null };
+        const [row] = table.rows.splice(index, 1);
+        return { result: row, changed: [tableName] };
+    });
+    if (deleted) broadcastChange(tableName, { type: 'DELETE', oldRecord: deleted });
+};
+
+const subscribeToRecords = (tableName: string, onChange: (event: RecordChangeEvent) => void): (() => void) => {
+    if (!changesChannel) return () => {};
+    const handleMessage = (message: MessageEvent<{ tableName: string; event: RecordChangeEvent }>) => {
+        if (message.data.tableName === tableName) onChange(message.data.event);
+    };
+    changesChannel.addEventListener('message', handleMessage);
+    return () => changesChannel.removeEventListener('message', handleMessage);
+};
+
+// Applies a DDL script all at once: if any statement fails, none of them take effect.
+const runRawSql = async (sql: string): Promise<void> => {
+    const statements = parseDdl(sql);
+    await withTables(null, tables => {
+        const changed = new Set<string>();
+        const removed = new Set<string>();
+        // Work on copies so a failing statement leaves the stored tables untouched.
+        const working: LocalTables = new Map(Array.from(tables, ([name, table]) => [name, structuredClone(table)]));
+        statements.forEach(statement => applyStatement(working, statement, changed, removed));
+        tables.clear();
+        working.forEach((table, name) => tables.set(name, table));
+        return { result: undefined, changed: Array.from(changed), removed: Array.from(removed) };
+    });
+};
+
+// Imports row by row. With `upsertOn`, a row matching an existing one on those columns updates it instead.
+const bulkCreateRecords = async (
+    tableName: string, newRecords: Partial<Record>[], onProgress?: BulkProgressHandler, upsertOn?: string[]
+): Promise<BulkResult<Record>> => {
+    const schema = await getTableSchema(tableName);
+    if (!upsertOn?.length) {
+        return runBulkWrite(newRecords, null, record => createRecord(tableName, record), onProgress);
+    }
+    // Existing rows are read once and looked up by their upsert values. Rows written along the way are added,
+    // so later chunks of the import update them rather than adding duplicates.
+    const getUpsertValues = (row: Partial<Record>) => JSON.stringify(upsertOn.map(columnId => String(row[columnId])));
+    const { records } = await getRecords(tableName, schema);
+    const existingKeys = new Map(records.map(row => [getUpsertValues(row), getRecordKey(row, schema)]));
+    return runBulkWrite(newRecords, null, async record => {
+        const existingKey = existingKeys.get(getUpsertValues(record));
+        const written = existingKey !== undefined
+            ? await updateRecord(tableName, schema, existingKey, record)
+            : await createRecord(tableName, record);
+        existingKeys.set(getUpsertValues(written), getRecordKey(written, schema));
+        return written;
+    }, onProgress);
+};
+
+// Relation columns in other local tables that point at this one.
+const getTableReferences = (tableName: string): Promise<TableReference[]> => readTables(null, tables =>
+    Array.from(tables).flatMap(([name, table]) => table.schema
+        .filter(col => col.relation?.table === tableName)
+        .map(col => ({ table: name, columnId: col.id, referencedColumnId: col.relation!.columnId })))
+);
+
+export const localDataSource: DataSource = {
+    kind: 'local',
+    listTables,
+    getTableSchema,
+    saveColumnMetadata,
+    getRecords,
+    getRecord,
+    createRecord,
+    updateRecord,
+    deleteRecord,
+    subscribeToRecords,
+    runRawSql,
+    bulkCreateRecords,
+    getTableReferences,
+};
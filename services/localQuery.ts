@@ -0,0 +1,131 @@
+import type { ColumnDefinition, DatabaseSchema, Filter, FilterNode, Record, RecordPage, RecordQuery } from '../types';
+import { getDefaultSort } from './recordKeys';
+import { isFilterGroup, isDateRangeFilter, getDateRange, getBetweenBounds, getFilterValues, pruneFilterNodes } from './filters';
+import { toDayKey } from './calendarDates';
+import { DEFAULT_PAGE_SIZE } from './dataSource';
+
+// Runs a record query against rows held in the browser, matching what the server does for the same query.
+
+const TEXT_COLUMN_TYPES: ColumnDefinition['type'][] = ['string', 'select'];
+
+// Numbers and dates compare by value; everything else as text.
+const compareValues = (a: any, b: any, column: ColumnDefinition | undefined): number => {
+    if (column?.type === 'number') return Number(a) - Number(b);
+    if (column?.type === 'date') return new Date(a).getTime() - new Date(b).getTime();
+    return String(a).localeCompare(String(b));
+};
+
+// Sorting works on keys derived once per row, so dates aren't re-parsed on every comparison.
+const collator = new Intl.Collator();
+
+// Empty values have no key, and nor do numbers and dates that don't parse, so that they all sort last together.
+const toSortKey = (value: any, column: ColumnDefinition | undefined): number | string | null => {
+    if (value === null || value === undefined) return null;
+    if (column?.type === 'number' || column?.type === 'date') {
+        const key = value === '' ? NaN : column.type === 'number' ? Number(value) : new Date(value).getTime();
+        return isNaN(key) ? null : key;
+    }
+    return String(value);
+};
+
+const compareSortKeys = (a: number | string, b: number | string): number =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b));
+
+const isEmptyValue = (value: any) => value === null || value === undefined || value === '';
+
+const matchesFilter = (record: Record, filter: Filter, column: ColumnDefinition | undefined): boolean => {
+    const value = record[filter.columnId];
+    if (filter.operator === 'IS_EMPTY') return isEmptyValue(value);
+    if (filter.operator === 'IS_NOT_EMPTY') return !isEmptyValue(value);
+    // Like SQL, a missing value is neither equal nor unequal to anything.
+    if (value === null || value === undefined) return false;
+
+    if (isDateRangeFilter(filter, column)) {
+        const range = getDateRange(filter);
+        const day = toDayKey(value);
+        if (!range || !day) return false;
+        // Day keys sort as text in date order.
+        const isInRange = (!range.from || day >= range.from) && (!range.before || day < range.before);
+        return filter.operator === 'NOT_EQUALS' ? !isInRange : isInRange;
+    }
+
+    const isText = !column || TEXT_COLUMN_TYPES.includes(column.type);
+    const text = String(value).toLowerCase();
+    const isEqualTo = (expected: any) =>
+        isText ? text === String(expected ?? '').toLowerCase() : compareValues(value, expected, column) === 0;
+
+    switch (filter.operator) {
+        case 'EQUALS':
+            return isEqualTo(filter.value);
+        case 'NOT_EQUALS':
+            return !isEqualTo(filter.value);
+        case 'CONTAINS':
+            return isText ? text.includes(String(filter.value ?? '').toLowerCase()) : isEqualTo(filter.value);
+        case 'STARTS_WITH':
+            return isText ? text.startsWith(String(filter.value ?? '').toLowerCase()) : isEqualTo(filter.value);
+        case 'GREATER_THAN':
+            return compareValues(value, filter.value, column) > 0;
+        case 'LESS_THAN':
+            return compareValues(value, filter.value, column) < 0;
+        case 'BETWEEN': {
+            const [from, to] = getBetweenBounds(filter);
+            return compareValues(value, from, column) >= 0 && compareValues(value, to, column) <= 0;
+        }
+        case 'IN':
+            return getFilterValues(filter).some(isEqualTo);
+        default:
+            throw new Error(`The "${filter.operator}" filter only applies to date columns.`);
+    }
+};
+
+const matchesFilterNode = (record: Record, node: FilterNode, schema: DatabaseSchema): boolean => {
+    if (!isFilterGroup(node)) return matchesFilter(record, node, schema.find(c => c.id === node.columnId));
+    return node.combinator === 'OR'
+        ? node.filters.some(child => matchesFilterNode(record, child, schema))
+        : node.filters.every(child => matchesFilterNode(record, child, schema));
+};
+
+// Expects the term already lowercased.
+const matchesSearch = (record: Record, schema: DatabaseSchema, term: string): boolean =>
+    schema.some(col => {
+        const value = record[col.id];
+        if (value === null || value === undefined) return false;
+        if (TEXT_COLUMN_TYPES.includes(col.type)) return String(value).toLowerCase().includes(term);
+        return col.type === 'number' && term !== '' && !isNaN(Number(term)) && Number(value) === Number(term);
+    });
+
+// Whether a record passes the query's filters and search, e.g. after it changed under a loaded page.
+export const matchesRecordQuery = (record: Record, schema: DatabaseSchema, query: RecordQuery): boolean => {
+    const term = (query.search || '').trim().toLowerCase();
+    return pruneFilterNodes(query.filters || [], schema).every(node => matchesFilterNode(record, node, schema))
+        && (!term || matchesSearch(record, schema, term));
+};
+
+export const queryRecordsLocally = (records: Record[], schema: DatabaseSchema, query: RecordQuery = {}): RecordPage => {
+    const term = (query.search || '').trim().toLowerCase();
+    const filters = pruneFilterNodes(query.filters || [], schema);
+    let matching = records.filter(record =>
+        filters.every(node => matchesFilterNode(record, node, schema))
+        && (!term || matchesSearch(record, schema, term))
+    );
+
+    const sort = query.sort || getDefaultSort(schema);
+    if (sort) {
+        const column = schema.find(c => c.id === sort.columnId);
+        const direction = sort.direction === 'asc' ? 1 : -1;
+        const keyed = matching.map(record => ({ record, key: toSortKey(record[sort.columnId], column) }));
+        keyed.sort((a, b) => {
+            // Empty values go last in either direction, as on the server.
+            if (a.key === null) return b.key === null ? 0 : 1;
+            if (b.key === null) return -1;
+            return compareSortKeys(a.key, b.key) * direction;
+        });
+        matching = keyed.map(({ record }) => record);
+    }
+
+    if (query.page === undefined) {
+        return { records: matching, total: matching.length };
+    }
+    const pageSize = query.pageSize || DEFAULT_PAGE_SIZE;
+    return { records: matching.slice(query.page * pageSize, (query.page + 1) * pageSize), total: matching.length };
+};
@@ -0,0 +1,248 @@
+import type { ColumnDefinition } from '../types';
+import { mapPostgresTypeToAppType, GENERATED_DEFAULT_PATTERN, parseLiteralDefault, prettifyColumnName } from './schemaSql';
+
+// Reads the PostgreSQL DDL the app produces (the AI setup script and the schema editor's ALTER TABLE statements)
+// so that the local workspace can apply it. Statements that only matter to a real Postgres server, such as
+// policies, functions and NOTIFY, are skipped.
+
+// How the local workspace fills in a column the database would compute.
+export type GeneratedValue = 'uuid' | 'increment' | 'now';
+
+export interface LocalColumn {
+    definition: ColumnDefinition;
+    generated?: GeneratedValue;
+}
+
+export type DdlStatement =
+    | { kind: 'createTable'; table: string; ifNotExists: boolean; columns: LocalColumn[] }
+    | { kind: 'dropTable'; table: string; ifExists: boolean }
+    | { kind: 'renameTable'; table: string; newTable: string }
+    | { kind: 'addColumn'; table: string; column: LocalColumn; ifNotExists: boolean }
+    | { kind: 'dropColumn'; table: string; columnId: string; ifExists: boolean }
+    | { kind: 'renameColumn'; table: string; columnId: string; newColumnId: string }
+    | { kind: 'changeColumnType'; table: string; columnId: string; type: ColumnDefinition['type']; dataType: string; clearValues: boolean };
+
+// Statements with no effect on stored data.
+const IGNORED_STATEMENT_PATTERN = new RegExp('^(' + [
+    'NOTIFY', 'BEGIN', 'COMMIT', 'SET', 'GRANT', 'REVOKE', 'COMMENT', 'ANALYZE',
+    'CREATE\\s+(OR\\s+REPLACE\\s+)?(FUNCTION|TRIGGER|POLICY|VIEW)', 'CREATE\\s+(UNIQUE\\s+)?INDEX', 'CREATE\\s+EXTENSION',
+    'DROP\\s+(FUNCTION|TRIGGER|POLICY|INDEX|VIEW|TYPE)', 'ALTER\\s+PUBLICATION',
+].join('|') + ')\\b', 'i');
+
+// Words that end a column's type and start its constraints.
+const CONSTRAINT_KEYWORDS = 'NOT\\s+NULL|NULL|DEFAULT|PRIMARY\\s+KEY|REFERENCES|UNIQUE|CHECK|GENERATED|CONSTRAINT|COLLATE';
+const IDENTIFIER = '(?:"(?:[^"]|"")+"|[A-Za-z_][\\w$]*)';
+const TABLE_NAME = `(?:${IDENTIFIER}\\.)?${IDENTIFIER}`;
+
+const unquoteIdentifier = (identifier: string) =>
+    identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toLowerCase();
+
+// Drops the schema qualifier; every table lives in `public`.
+const parseTableName = (name: string) => {
+    const parts = name.match(new RegExp(IDENTIFIER, 'g')) || [name];
+    return unquoteIdentifier(parts[parts.length - 1]);
+};
+
+// Splits a script into statements, keeping semicolons inside strings, quoted names, comments and $$ bodies.
+export const splitSqlStatements = (sql: string): string[] => {
+    const statements: string[] = [];
+    let current = '';
+    let i = 0;
+    while (i < sql.length) {
+        const char = sql[i];
+        const dollarTag = char === '$' ? sql.slice(i).match(/^\$[A-Za-z_]*\$/) : null;
+        if (char === '-' && sql[i + 1] === '-') {
+            const end = sql.indexOf('\n', i);
+            i = end === -1 ? sql.length : end;
+            continue;
+        }
+        if (char === '/' && sql[i + 1] === '*') {
+            const end = sql.indexOf('*/', i + 2);
+            i = end === -1 ? sql.length : end + 2;
+            continue;
+        }
+        let end = -1;
+        if (char === "'" || char === '"') {
+            end = i + 1;
+            while (end < sql.length && !(sql[end] === char && sql[end + 1] !== char)) {
+                end += sql[end] === char ? 2 : 1;
+            }
+        } else if (dollarTag) {
+            const close = sql.indexOf(dollarTag[0], i + dollarTag[0].length);
+            end = close === -1 ? sql.length : close + dollarTag[0].length - 1;
+        }
+        if (end !== -1) {
+            current += sql.slice(i, end + 1);
+            i = end + 1;
+            continue;
+        }
+        if (char === ';') {
+            if (current.trim()) statements.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+        i++;
+    }
+    if (current.trim()) statements.push(current.trim());
+    return statements;
+};
+
+// Splits on commas that aren't inside parentheses or quotes, e.g. the items of a CREATE TABLE body.
+const splitTopLevel = (text: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+};
+
+const parseColumnDefinition = (text: string, enumTypes: Map<string, string[]>): LocalColumn => {
+    const match = text.match(new RegExp(`^(${IDENTIFIER})\\s+(.*)$`, 's'));
+    if (!match) throw new Error(`Can't read the column definition "${text}".`);
+    const columnId = unquoteIdentifier(match[1]);
+    const rest = match[2];
+    const sqlType = (rest.match(new RegExp(`^(.*?)(?=\\s+(?:${CONSTRAINT_KEYWORDS})\\b|$)`, 'is'))?.[1] || rest).trim();
+    const defaultMatch = rest.match(new RegExp(`\\bDEFAULT\\s+(.*?)(?=\\s+(?:${CONSTRAINT_KEYWORDS})\\b|$)`, 'is'));
+    const columnDefault = defaultMatch ? defaultMatch[1].trim() : null;
+    const reference = rest.match(new RegExp(`\\bREFERENCES\\s+(${TABLE_NAME})\\s*(?:\\(\\s*(${IDENTIFIER})\\s*\\))?`, 'i'));
+
+    const isPrimaryKey = /\bPRIMARY\s+KEY\b/i.test(rest);
+    const isIdentity = /\bGENERATED\s+(ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/i.test(rest);
+    const isSerial = /^(small|big)?serial$/i.test(sqlType);
+    // Mirrors how introspected Postgres columns are treated: generated keys and insert timestamps are read-only.
+    const isManagedDefault = !!columnDefault && GENERATED_DEFAULT_PATTERN.test(columnDefault)
+        && (isPrimaryKey || /^(now\(\)|CURRENT_)/i.test(columnDefault));
+    const readOnly = isIdentity || isSerial || isManagedDefault;
+
+    let generated: GeneratedValue | undefined;
+    if (isIdentity || isSerial || /^nextval\(/i.test(columnDefault || '')) {
+        generated = 'increment';
+    } else if (/^(gen_random_uuid|uuid_generate_v4)\(\)/i.test(columnDefault || '')) {
+        generated = 'uuid';
+    } else if (/^(now\(\)|CURRENT_|timezone\(.*now\(\)\))/i.test(columnDefault || '')) {
+        generated = 'now';
+    }
+
+    const enumValues = enumTypes.get(parseTableName(sqlType));
+    const definition: ColumnDefinition = {
+        id: columnId,
+        name: prettifyColumnName(columnId),
+        type: enumValues ? 'select' : reference ? 'relation' : mapPostgresTypeToAppType(sqlType),
+        dataType: sqlType,
+        required: (/\bNOT\s+NULL\b/i.test(rest) || isPrimaryKey) && columnDefault === null && !readOnly,
+        isPrimaryKey,
+        readOnly,
+    };
+    if (enumValues) {
+        definition.options = enumValues;
+    }
+    if (reference) {
+        definition.relation = { table: parseTableName(reference[1]), columnId: reference[2] ? unquoteIdentifier(reference[2]) : 'id' };
+    }
+    const defaultValue = parseLiteralDefault(columnDefault);
+    if (defaultValue !== undefined) {
+        definition.defaultValue = defaultValue;
+    }
+    return { definition, generated };
+};
+
+const parseCreateTable = (statement: string, enumTypes: Map<string, string[]>): DdlStatement => {
+    const match = statement.match(new RegExp(`^CREATE\\s+TABLE\\s+(IF\\s+NOT\\s+EXISTS\\s+)?(${TABLE_NAME})\\s*\\((.*)\\)\\s*$`, 'is'));
+    if (!match) throw new Error(`Can't read the CREATE TABLE statement "${statement}".`);
+    const columns: LocalColumn[] = [];
+    for (const item of splitTopLevel(match[3])) {
+        const tableKey = item.match(new RegExp(`^(?:CONSTRAINT\\s+${IDENTIFIER}\\s+)?PRIMARY\\s+KEY\\s*\\((.*)\\)`, 'is'));
+        const foreignKey = item.match(new RegExp(`^(?:CONSTRAINT\\s+${IDENTIFIER}\\s+)?FOREIGN\\s+KEY\\s*\\(\\s*(${IDENTIFIER})\\s*\\)\\s*REFERENCES\\s+(${TABLE_NAME})\\s*(?:\\(\\s*(${IDENTIFIER})\\s*\\))?`, 'is'));
+        if (tableKey) {
+            const keyColumns = tableKey[1].split(',').map(name => unquoteIdentifier(name.trim()));
+            columns.forEach(col => {
+                if (keyColumns.includes(col.definition.id)) {
+                    col.definition.isPrimaryKey = true;
+                    col.definition.required = !col.definition.readOnly && !col.generated && col.definition.defaultValue === undefined;
+                }
+            });
+        } else if (foreignKey) {
+            const column = columns.find(col => col.definition.id === unquoteIdentifier(foreignKey[1]));
+            if (column && column.definition.type !== 'select') {
+                column.definition.type = 'relation';
+                column.definition.relation = { table: parseTableName(foreignKey[2]), columnId: foreignKey[3] ? unquoteIdentifier(foreignKey[3]) : 'id' };
+            }
+        } else if (!/^(CONSTRAINT|UNIQUE|CHECK|EXCLUDE)\b/i.test(item)) {
+            columns.push(parseColumnDefinition(item, enumTypes));
+        }
+    }
+    return { kind: 'createTable', table: parseTableName(match[2]), ifNotExists: !!match[1], columns };
+};
+
+const parseAlterTable = (statement: string, enumTypes: Map<string, string[]>): DdlStatement[] => {
+    const match = statement.match(new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${TABLE_NAME})\\s+(.*)$`, 'is'));
+    if (!match) throw new Error(`Can't read the ALTER TABLE statement "${statement}".`);
+    const table = parseTableName(match[1]);
+    return splitTopLevel(match[2]).flatMap((action): DdlStatement[] => {
+        let parts: RegExpMatchArray | null;
+        if (/^(ENABLE|DISABLE|FORCE|NO\s+FORCE)\s+ROW\s+LEVEL\s+SECURITY$/i.test(action) || /^REPLICA\s+IDENTITY\b/i.test(action)) {
+            return [];
+        }
+        if ((parts = action.match(/^ADD\s+(?:COLUMN\s+)?(IF\s+NOT\s+EXISTS\s+)?(.*)$/is)) && !/^ADD\s+(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK)\b/i.test(action)) {
+            return [{ kind: 'addColumn', table, column: parseColumnDefinition(parts[2], enumTypes), ifNotExists: !!parts[1] }];
+        }
+        if ((parts = action.match(new RegExp(`^DROP\\s+(?:COLUMN\\s+)?(IF\\s+EXISTS\\s+)?(${IDENTIFIER})(\\s+(CASCADE|RESTRICT))?$`, 'is')))) {
+            return [{ kind: 'dropColumn', table, columnId: unquoteIdentifier(parts[2]), ifExists: !!parts[1] }];
+        }
+        if ((parts = action.match(new RegExp(`^RENAME\\s+(?:COLUMN\\s+)?(${IDENTIFIER})\\s+TO\\s+(${IDENTIFIER})$`, 'is'))) && !/^RENAME\s+TO\b/i.test(action)) {
+            return [{ kind: 'renameColumn', table, columnId: unquoteIdentifier(parts[1]), newColumnId: unquoteIdentifier(parts[2]) }];
+        }
+        if ((parts = action.match(new RegExp(`^RENAME\\s+TO\\s+(${IDENTIFIER})$`, 'is')))) {
+            return [{ kind: 'renameTable', table, newTable: unquoteIdentifier(parts[1]) }];
+        }
+        if ((parts = action.match(new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?(${IDENTIFIER})\\s+(?:SET\\s+DATA\\s+)?TYPE\\s+(.*?)(?:\\s+USING\\s+(.*))?$`, 'is')))) {
+            const enumValues = enumTypes.get(parseTableName(parts[2]));
+            return [{
+                kind: 'changeColumnType',
+                table,
+                columnId: unquoteIdentifier(parts[1]),
+                type: enumValues ? 'select' : mapPostgresTypeToAppType(parts[2]),
+                dataType: parts[2].trim(),
+                clearValues: /^NULL$/i.test((parts[3] || '').trim()),
+            }];
+        }
+        throw new Error(`The local workspace can't run "ALTER TABLE ${table} ${action}".`);
+    });
+};
+
+// Parses a DDL script. Enum types created earlier in the same script become select options.
+export const parseDdl = (sql: string): DdlStatement[] => {
+    const enumTypes = new Map<string, string[]>();
+    return splitSqlStatements(sql).flatMap((statement): DdlStatement[] => {
+        const enumType = statement.match(new RegExp(`^CREATE\\s+TYPE\\s+(${TABLE_NAME})\\s+AS\\s+ENUM\\s*\\((.*)\\)$`, 'is'));
+        if (enumType) {
+            const values = Array.from(enumType[2].matchAll(/'((?:[^']|'')*)'/g), value => value[1].replace(/''/g, "'"));
+            enumTypes.set(parseTableName(enumType[1]), values);
+            return [];
+        }
+        if (IGNORED_STATEMENT_PATTERN.test(statement)) return [];
+        if (/^CREATE\s+TABLE\b/i.test(statement)) return [parseCreateTable(statement, enumTypes)];
+        if (/^ALTER\s+TABLE\b/i.test(statement)) return parseAlterTable(statement, enumTypes);
+        const dropTable = statement.match(new RegExp(`^DROP\\s+TABLE\\s+(IF\\s+EXISTS\\s+)?(${TABLE_NAME})(\\s+(CASCADE|RESTRICT))?$`, 'is'));
+        if (dropTable) return [{ kind: 'dropTable', table: parseTableName(dropTable[2]), ifExists: !!dropTable[1] }];
+        throw new Error(`The local workspace can't run this statement: ${statement.split('\n')[0]}`);
+    });
+};
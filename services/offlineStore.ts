@@ -0,0 +1,92 @@
+import type { DatabaseSchema, Record, RecordKey, OutboxEntry, OutboxMutation } from '../types';
+import { getRecordKey } from './recordKeys';
+import { getDataSourceScope } from './apiService';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// The browser-side copy of tables and the queue of changes made while offline, kept in IndexedDB.
+// Everything is kept per backend, so switching projects or data sources never shows or replays another one's data.
+
+const DB_NAME = 'emerald-offline';
+// Version 1 kept tables and changes without saying which backend they came from; they are dropped on upgrade.
+const DB_VERSION = 2;
+const SCHEMA_STORE = 'schemas';
+const RECORD_STORE = 'records';
+const OUTBOX_STORE = 'outbox';
+
+// Cached rows of one table, by record key.
+type CachedRecords = { [recordKey: string]: Record };
+
+const openOfflineDatabase = () => openDatabase(DB_NAME, DB_VERSION, db => {
+    for (const storeName of Array.from(db.objectStoreNames)) {
+        db.deleteObjectStore(storeName);
+    }
+    db.createObjectStore(SCHEMA_STORE);
+    db.createObjectStore(RECORD_STORE);
+    db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+});
+
+const withStore = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openOfflineDatabase();
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Schemas and rows are stored under the backend and table name.
+const getCacheKey = (tableName: string) => JSON.stringify([getDataSourceScope(), tableName]);
+
+export const getCachedSchema = async (tableName: string): Promise<DatabaseSchema | null> =>
+    (await withStore<DatabaseSchema | undefined>(SCHEMA_STORE, 'readonly', store => store.get(getCacheKey(tableName)))) || null;
+
+export const cacheSchema = async (tableName: string, schema: DatabaseSchema): Promise<void> => {
+    await withStore(SCHEMA_STORE, 'readwrite', store => store.put(schema, getCacheKey(tableName)));
+};
+
+export const getCachedRecords = async (tableName: string): Promise<Record[]> =>
+    Object.values((await withStore<CachedRecords | undefined>(RECORD_STORE, 'readonly', store => store.get(getCacheKey(tableName)))) || {});
+
+// Adds rows to the table's cache and drops the given keys. With `replace`, the rows become the whole cache.
+export const updateCachedRecords = async (
+    tableName: string, schema: DatabaseSchema, changes: { put?: Record[]; remove?: RecordKey[]; replace?: boolean }
+): Promise<void> => {
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction(RECORD_STORE, 'readwrite');
+    const store = transaction.objectStore(RECORD_STORE);
+    const cacheKey = getCacheKey(tableName);
+    const cached: CachedRecords = changes.replace ? {} : (await requestToPromise<CachedRecords | undefined>(store.get(cacheKey))) || {};
+    for (const record of changes.put || []) {
+        cached[getRecordKey(record, schema)] = record;
+    }
+    for (const recordKey of changes.remove || []) {
+        delete cached[recordKey];
+    }
+    store.put(cached, cacheKey);
+    await transactionDone(transaction);
+};
+
+// Queued changes for every table of the current backend, oldest first.
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+    const scope = getDataSourceScope();
+    return (await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll())).filter(entry => entry.scope === scope);
+};
+
+export const addToOutbox = async (tableName: string, mutation: OutboxMutation): Promise<void> => {
+    const entry = { ...mutation, scope: getDataSourceScope(), tableName, queuedAt: new Date().toISOString() };
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.add(entry));
+};
+
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const removeFromOutbox = async (id: number): Promise<void> => {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Forgets every cached table and queued change, for every backend. Used on logout.
+export const clearOfflineData = async (): Promise<void> => {
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction([SCHEMA_STORE, RECORD_STORE, OUTBOX_STORE], 'readwrite');
+    for (const storeName of [SCHEMA_STORE, RECORD_STORE, OUTBOX_STORE]) {
+        transaction.objectStore(storeName).clear();
+    }
+    await transactionDone(transaction);
+};
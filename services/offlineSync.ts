@@ -0,0 +1,111 @@
+import type { DatabaseSchema, Record, RecordKey, OutboxEntry, OutboxMutation, SyncConflict } from '../types';
+import * as apiService from './apiService';
+import { getOutbox, addToOutbox, putOutboxEntry, removeFromOutbox, updateCachedRecords } from './offlineStore';
+
+// Keys given to records created offline until the server assigns real ones.
+const TEMP_KEY_PREFIX = 'offline-';
+
+// supabase-js reports a failed fetch as an error object rather than rejecting with the TypeError.
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|network request failed|load failed/i;
+
+// The local workspace never goes offline, so its errors are always real failures.
+export const isNetworkError = (err: unknown): boolean => apiService.getDataSourceKind() !== 'local'
+    && (!navigator.onLine || NETWORK_ERROR_PATTERN.test(String((err as { message?: unknown })?.message ?? err)));
+
+export const createTempKey = (): RecordKey => `${TEMP_KEY_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Queues a change. Changes to a record that was itself created offline are folded into its pending create.
+export const queueOfflineMutation = async (tableName: string, mutation: OutboxMutation): Promise<void> => {
+    if (mutation.kind !== 'create') {
+        const pendingCreate = (await getOutbox()).find(entry =>
+            entry.tableName === tableName && entry.kind === 'create' && entry.tempKey === mutation.recordKey
+        );
+        if (pendingCreate && pendingCreate.kind === 'create') {
+            if (mutation.kind === 'delete') {
+                await removeFromOutbox(pendingCreate.id);
+            } else {
+                await putOutboxEntry({ ...pendingCreate, record: { ...pendingCreate.record, ...mutation.updates } });
+            }
+            return;
+        }
+    }
+    await addToOutbox(tableName, mutation);
+};
+
+export const getPendingMutationCount = async (): Promise<number> => (await getOutbox()).length;
+
+const formatValue = (value: any) => value === null || value === undefined ? 'empty' : JSON.stringify(value);
+
+// The fields of a queued change that someone else changed on the server after it was queued.
+const getServerChanges = (base: Record, current: Record, columnIds: string[]): string[] =>
+    columnIds.filter(columnId => JSON.stringify(base[columnId] ?? null) !== JSON.stringify(current[columnId] ?? null));
+
+// Applies one queued change, returning a conflict when it can't be applied as queued.
+const replayEntry = async (entry: OutboxEntry, schema: DatabaseSchema): Promise<string | null> => {
+    switch (entry.kind) {
+        case 'create': {
+            const created = await apiService.createRecord(entry.tableName, entry.record);
+            // The cached placeholder would otherwise show up next to the real row in later offline reads.
+            await updateCachedRecords(entry.tableName, schema, { remove: [entry.tempKey], put: [created] })
+                .catch(err => console.error(`Failed to update cached records for table ${entry.tableName}:`, err));
+            return null;
+        }
+        case 'update': {
+            const current = await apiService.getRecord(entry.tableName, schema, entry.recordKey);
+            if (!current) {
+                return 'The record was deleted on the server, so these changes were not saved.';
+            }
+            // Someone else changing the same fields wins; our value is reported instead of overwriting theirs.
+            const conflicting = entry.base
+                ? getServerChanges(entry.base, current, Object.keys(entry.updates))
+                    .filter(columnId => JSON.stringify(current[columnId] ?? null) !== JSON.stringify(entry.updates[columnId] ?? null))
+                : [];
+            if (conflicting.length > 0) {
+                const details = conflicting.map(columnId =>
+                    `${columnId} is now ${formatValue(current[columnId])} (you set ${formatValue(entry.updates[columnId])})`
+                );
+                return `Changed on the server while you were offline: ${details.join('; ')}. Your changes to the record were not saved.`;
+            }
+            await apiService.updateRecord(entry.tableName, schema, entry.recordKey, entry.updates);
+            return null;
+        }
+        case 'delete': {
+            const current = await apiService.getRecord(entry.tableName, schema, entry.recordKey);
+            if (!current) return null; // Already gone
+            const changed = entry.base ? getServerChanges(entry.base, current, Object.keys(current)) : [];
+            if (changed.length > 0) {
+                return `The record was changed on the server while you were offline (${changed.join(', ')}), so it was not deleted.`;
+            }
+            await apiService.deleteRecord(entry.tableName, schema, entry.recordKey);
+            return null;
+        }
+    }
+};
+
+// Sends queued changes in the order they were made. Changes that conflict or are rejected are dropped from the
+// queue and reported; if the connection drops again, the rest stay queued for the next attempt.
+export const replayOutbox = async (): Promise<{ applied: number; conflicts: SyncConflict[]; interrupted: boolean }> => {
+    let applied = 0;
+    const conflicts: SyncConflict[] = [];
+    const schemas = new Map<string, Promise<DatabaseSchema>>();
+    const getSchema = (tableName: string) => {
+        if (!schemas.has(tableName)) schemas.set(tableName, apiService.getTableSchema(tableName));
+        return schemas.get(tableName)!;
+    };
+    for (const entry of await getOutbox()) {
+        try {
+            const conflict = await replayEntry(entry, await getSchema(entry.tableName));
+            if (conflict) {
+                conflicts.push({ entry, message: conflict });
+            } else {
+                applied++;
+            }
+        } catch (err) {
+            if (isNetworkError(err)) return { applied, conflicts, interrupted: true };
+            console.error(`Failed to sync a queued ${entry.kind} on ${entry.tableName}:`, err);
+            conflicts.push({ entry, message: `The server rejected this change: ${(err as { message?: string })?.message || 'unknown error'}` });
+        }
+        await removeFromOutbox(entry.id);
+    }
+    return { applied, conflicts, interrupted: false };
+};
@@ -0,0 +1,243 @@
+import type { ColumnDefinition, DatabaseSchema, Record } from '../types';
+import { parseCsv, detectDelimiter } from './csv';
+import { parseRecordsFile } from './recordsFile';
+
+// Rows read from a file, before they are mapped onto the table's columns.
+export interface ImportSource {
+    format: 'csv' | 'json';
+    headers: string[];
+    rows: unknown[][];
+    firstRowNumber: number; // How the first data row is numbered in messages
+    notes: string[]; // Things worth knowing before importing, e.g. schema differences
+}
+
+// How numeric dates such as 03/04/2024 are read: month first, as in the US, or day first.
+export type DayOrder = 'month-first' | 'day-first';
+
+// A source column with numeric dates that read as a real day either way round, so the import has to ask which
+// order it uses. `suggested` is the order its other values settle, if they do.
+export interface DayOrderQuestion {
+    cellIndex: number;
+    example: string;
+    suggested: DayOrder | null;
+}
+
+// A data row ready to import, with the problems found in each of its cells.
+export interface ImportRow {
+    sourceRow: number;
+    record: Partial<Record>;
+    errors: { [columnId: string]: string };
+}
+
+type CoercionResult = { value: any } | { error: string };
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', '1', 'x', 'on'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', '0', 'off'];
+
+// Thousands separators are only accepted in their usual positions, so "1,5" isn't silently read as 15.
+const GROUPED_NUMBER_PATTERN = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/;
+// ISO dates and timestamps are passed through untouched so that importing them is lossless.
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?)?$/;
+
+// Other day formats people type, read into an explicit year, month and day. Numeric dates follow the column's
+// day order; without one they are month first, as in the US, unless the first number can only be a day, and
+// dotted dates are day first.
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/;
+const DAY_MONTH_NAME_PATTERN = /^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i;
+const MONTH_NAME_DAY_PATTERN = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const JSON_FILE_PATTERN = /\.(json|ndjson|jsonl)$/i;
+
+// Generated keys may be imported (to update existing rows), but other database-managed columns may not.
+export const isImportableColumn = (column: ColumnDefinition) => !column.readOnly || !!column.isPrimaryKey;
+
+export const readCsvSource = (text: string): ImportSource => {
+    const rows = parseCsv(text, detectDelimiter(text));
+    if (rows.length < 2) {
+        throw new Error('The file needs a header row and at least one row of data.');
+    }
+    return { format: 'csv', headers: rows[0], rows: rows.slice(1), firstRowNumber: 2, notes: [] };
+};
+
+// Reads a JSON or NDJSON file. Record keys become the headers, in schema order when the file has one.
+export const readJsonSource = (text: string, schema: DatabaseSchema, tableName: string): ImportSource => {
+    const { layout, header, records } = parseRecordsFile(text);
+    if (records.length === 0) {
+        throw new Error('The file contains no records.');
+    }
+
+    const headers: string[] = header ? header.schema.map(col => col.id) : [];
+    for (const record of records) {
+        for (const key of Object.keys(record)) {
+            if (!headers.includes(key)) headers.push(key);
+        }
+    }
+
+    const notes: string[] = [];
+    if (header) {
+        if (header.table !== tableName) {
+            notes.push(`These records were exported from "${header.table}".`);
+        }
+        for (const exported of header.schema) {
+            const current = schema.find(col => col.id === exported.id);
+            if (!current) {
+                notes.push(`"${exported.id}" doesn't exist in this table.`);
+            } else if (current.type !== exported.type) {
+                notes.push(`"${exported.id}" was ${exported.type} when exported but is ${current.type} here.`);
+            }
+        }
+    }
+
+    return {
+        format: 'json',
+        headers,
+        rows: records.map(record => headers.map(key => record[key])),
+        // NDJSON rows are numbered by line, after the header line if there is one; JSON records are simply counted.
+        firstRowNumber: layout === 'ndjson' && header ? 2 : 1,
+        notes,
+    };
+};
+
+export const readImportSource = (fileName: string, text: string, schema: DatabaseSchema, tableName: string): ImportSource =>
+    JSON_FILE_PATTERN.test(fileName) ? readJsonSource(text, schema, tableName) : readCsvSource(text);
+
+// Maps each header to the column with the same id or display name, ignoring case, spaces and punctuation.
+export const autoMapHeaders = (headers: string[], schema: DatabaseSchema): (string | null)[] => {
+    const used = new Set<string>();
+    return headers.map(header => {
+        const normalized = normalizeHeader(header);
+        const column = schema.find(col =>
+            isImportableColumn(col) && !used.has(col.id)
+            && (normalizeHeader(col.id) === normalized || normalizeHeader(col.name) === normalized)
+        );
+        if (!column) return null;
+        used.add(column.id);
+        return column.id;
+    });
+};
+
+const parseMonthName = (name: string): number | null => {
+    const lower = name.toLowerCase();
+    const index = lower.length >= 3 ? MONTH_NAMES.findIndex(month => month.startsWith(lower)) : -1;
+    return index === -1 ? null : index + 1;
+};
+
+// Formats a calendar day as `YYYY-MM-DD`, or returns null if there is no such day (e.g. 30 February).
+const formatCalendarDay = (year: number, month: number | null, day: number): string | null => {
+    if (month === null) return null;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+};
+
+// Reads a day written in one of the recognised formats. The day is kept as written rather than converted
+// through a time zone, which could move it to the day before or after.
+const parseCalendarDay = (text: string, dayOrder?: DayOrder): string | null => {
+    let match = NUMERIC_DATE_PATTERN.exec(text);
+    if (match) {
+        const [first, second, year] = [Number(match[1]), Number(match[3]), Number(match[4])];
+        const isDayFirst = dayOrder ? dayOrder === 'day-first' : match[2] === '.' || first > 12;
+        return isDayFirst ? formatCalendarDay(year, second, first) : formatCalendarDay(year, first, second);
+    }
+    match = DAY_MONTH_NAME_PATTERN.exec(text);
+    if (match) return formatCalendarDay(Number(match[3]), parseMonthName(match[2]), Number(match[1]));
+    match = MONTH_NAME_DAY_PATTERN.exec(text);
+    if (match) return formatCalendarDay(Number(match[3]), parseMonthName(match[1]), Number(match[2]));
+    return null;
+};
+
+const isBlank = (raw: unknown) => raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+
+// Converts a cell to the column's type. Text is parsed; values that are already typed, as in JSON, are
+// checked and kept as they are. Blank cells become null.
+export const coerceImportValue = (raw: unknown, column: ColumnDefinition, dayOrder?: DayOrder): CoercionResult => {
+    if (isBlank(raw)) {
+        return column.required ? { error: 'A value is required.' } : { value: null };
+    }
+    const text = typeof raw === 'string' ? raw.trim() : '';
+
+    switch (column.type) {
+        case 'number': {
+            if (typeof raw === 'number') return { value: raw };
+            if (typeof raw !== 'string') return { error: `${JSON.stringify(raw)} is not a number.` };
+            const value = Number(GROUPED_NUMBER_PATTERN.test(text) ? text.replace(/,/g, '') : text);
+            return isNaN(value) ? { error: `"${text}" is not a number.` } : { value };
+        }
+        case 'boolean': {
+            if (typeof raw === 'boolean') return { value: raw };
+            const lower = String(raw).trim().toLowerCase();
+            if (TRUE_VALUES.includes(lower)) return { value: true };
+            if (FALSE_VALUES.includes(lower)) return { value: false };
+            return { error: `"${String(raw)}" is not yes/no or true/false.` };
+        }
+        case 'date': {
+            if (typeof raw !== 'string') return { error: `${JSON.stringify(raw)} is not a date.` };
+            if (ISO_DATE_PATTERN.test(text)) {
+                const isRealDay = formatCalendarDay(Number(text.slice(0, 4)), Number(text.slice(5, 7)), Number(text.slice(8, 10))) !== null;
+                return isRealDay && !isNaN(new Date(text).getTime()) ? { value: text } : { error: `"${text}" is not a date.` };
+            }
+            const day = parseCalendarDay(text, dayOrder);
+            return day ? { value: day } : { error: `"${text}" is not a date; use a format such as 2024-05-01.` };
+        }
+        case 'select': {
+            const option = String(raw).trim();
+            if (!column.options?.length) return { value: option };
+            const match = column.options.find(opt => opt.toLowerCase() === option.toLowerCase());
+            return match !== undefined ? { value: match } : { error: `"${option}" is not one of: ${column.options.join(', ')}.` };
+        }
+        default:
+            // Text columns keep strings exactly; other JSON values (e.g. for json columns) pass through.
+            return { value: raw };
+    }
+};
+
+// The mapped date columns whose day order can't be told from their values. Dotted dates are taken as day first.
+export const getDayOrderQuestions = (source: ImportSource, mapping: (string | null)[], schema: DatabaseSchema): DayOrderQuestion[] =>
+    mapping.flatMap((columnId, cellIndex): DayOrderQuestion[] => {
+        if (schema.find(col => col.id === columnId)?.type !== 'date') return [];
+        let example: string | null = null;
+        const settled = new Set<DayOrder>();
+        for (const cells of source.rows) {
+            const cell = cells[cellIndex];
+            const match = typeof cell === 'string' ? NUMERIC_DATE_PATTERN.exec(cell.trim()) : null;
+            if (!match || match[2] === '.') continue;
+            const [first, second] = [Number(match[1]), Number(match[3])];
+            if (first > 12) settled.add('day-first');
+            else if (second > 12) settled.add('month-first');
+            else if (first !== second) example ??= match[0];
+        }
+        return example ? [{ cellIndex, example, suggested: settled.size === 1 ? [...settled][0] : null }] : [];
+    });
+
+// Turns source rows into records using the header mapping and each source column's day order. Entirely blank rows
+// are skipped.
+export const buildImportRows = (
+    source: ImportSource, mapping: (string | null)[], schema: DatabaseSchema, dayOrders: { [cellIndex: number]: DayOrder } = {}
+): ImportRow[] => {
+    const importRows: ImportRow[] = [];
+    source.rows.forEach((cells, index) => {
+        if (cells.every(isBlank)) return;
+        const row: ImportRow = { sourceRow: index + source.firstRowNumber, record: {}, errors: {} };
+        mapping.forEach((columnId, cellIndex) => {
+            const column = columnId ? schema.find(col => col.id === columnId) : undefined;
+            if (!column) return;
+            // A blank generated key is left for the database to fill in; an explicit null would be rejected.
+            if (column.readOnly && isBlank(cells[cellIndex])) return;
+            const result = coerceImportValue(cells[cellIndex], column, dayOrders[cellIndex]);
+            if ('error' in result) {
+                row.errors[column.id] = result.error;
+            } else {
+                row.record[column.id] = result.value;
+            }
+        });
+        importRows.push(row);
+    });
+    return importRows;
+};
+
+// Required columns that no header is mapped to; inserting without them would fail for every row.
+export const getUnmappedRequiredColumns = (mapping: (string | null)[], schema: DatabaseSchema): ColumnDefinition[] =>
+    schema.filter(col => col.required && isImportableColumn(col) && !mapping.includes(col.id));
@@ -0,0 +1,56 @@
+import type { DatabaseSchema, Record, RecordKey, SortSpec } from '../types';
+
+// The columns that identify a row. Tables without a primary key fall back to every column,
+// which is the closest PostgREST gets to addressing a single row in them.
+export const getPrimaryKeyColumns = (schema: DatabaseSchema): string[] => {
+    const keyColumns = schema.filter(col => col.isPrimaryKey).map(col => col.id);
+    return keyColumns.length > 0 ? keyColumns : schema.map(col => col.id);
+};
+
+// Serializes a record's key: the value itself for single-column keys, a JSON array for composite ones.
+export const getRecordKey = (record: Partial<Record>, schema: DatabaseSchema): RecordKey => {
+    const keyColumns = getPrimaryKeyColumns(schema);
+    if (keyColumns.length === 1) {
+        return String(record[keyColumns[0]] ?? '');
+    }
+    return JSON.stringify(keyColumns.map(col => record[col] ?? null));
+};
+
+// Turns a serialized key back into the column/value pairs that select its row.
+export const parseRecordKey = (recordKey: RecordKey, schema: DatabaseSchema): { [columnId: string]: any } => {
+    const keyColumns = getPrimaryKeyColumns(schema);
+    if (keyColumns.length === 1) {
+        return { [keyColumns[0]]: recordKey };
+    }
+    let values: unknown;
+    try {
+        values = JSON.parse(recordKey);
+    } catch {
+        values = null;
+    }
+    if (!Array.isArray(values) || values.length !== keyColumns.length) {
+        throw new Error(`"${recordKey}" is not a valid key; expected a JSON array of ${keyColumns.join(', ')}.`);
+    }
+    return Object.fromEntries(keyColumns.map((col, i) => [col, values[i]]));
+};
+
+export const isKeyColumn = (columnId: string, schema: DatabaseSchema): boolean =>
+    schema.some(col => col.isPrimaryKey) && getPrimaryKeyColumns(schema).includes(columnId);
+
+// Newest first by insert timestamp when the table has one, otherwise by key so paging stays stable.
+export const getDefaultSort = (schema: DatabaseSchema): SortSpec | undefined => {
+    const createdAt = schema.find(col => col.id === 'created_at' && col.type === 'date')
+        || schema.find(col => col.type === 'date' && col.readOnly);
+    if (createdAt) {
+        return { columnId: createdAt.id, direction: 'desc' };
+    }
+    const keyColumn = schema.find(col => col.isPrimaryKey);
+    return keyColumn ? { columnId: keyColumn.id, direction: 'asc' } : undefined;
+};
+
+// The column that names a record for people, e.g. in relation pickers: the first editable text column,
+// then any other editable column, then whatever comes first.
+export const getTitleColumn = (schema: DatabaseSchema): string | undefined => {
+    const editable = schema.filter(col => !col.isPrimaryKey && !col.readOnly);
+    return (editable.find(col => col.type === 'string') || editable.find(col => col.type !== 'relation') || schema[0])?.id;
+};
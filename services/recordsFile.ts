@@ -0,0 +1,99 @@
+import type { DatabaseSchema, Record } from '../types';
+
+// Lossless exports keep raw column values and describe the table they came from, so they can be imported
+// back without guessing types. JSON files hold everything in one object; NDJSON files put this header on the
+// first line and one record on each line after it.
+export const RECORDS_FILE_FORMAT = 'emerald-records';
+const RECORDS_FILE_VERSION = 1;
+
+export interface RecordsFileHeader {
+    format: typeof RECORDS_FILE_FORMAT;
+    version: number;
+    table: string;
+    exportedAt: string;
+    schema: DatabaseSchema;
+}
+
+export interface ParsedRecordsFile {
+    layout: 'json' | 'ndjson';
+    header: RecordsFileHeader | null; // Null for plain arrays or NDJSON written by other tools
+    records: Record[];
+}
+
+export const createRecordsFileHeader = (tableName: string, schema: DatabaseSchema): RecordsFileHeader => ({
+    format: RECORDS_FILE_FORMAT,
+    version: RECORDS_FILE_VERSION,
+    table: tableName,
+    exportedAt: new Date().toISOString(),
+    schema,
+});
+
+export const serializeRecordsJson = (header: RecordsFileHeader, records: Record[]): string =>
+    JSON.stringify({ ...header, records }, null, 2);
+
+export const serializeRecordsNdjson = (header: RecordsFileHeader, records: Record[]): string =>
+    [header, ...records].map(line => JSON.stringify(line)).join('\n') + '\n';
+
+const isRecordsFileHeader = (value: unknown): value is RecordsFileHeader =>
+    !!value && typeof value === 'object' && 'format' in value && value.format === RECORDS_FILE_FORMAT
+    && 'schema' in value && Array.isArray(value.schema);
+
+// A JSON export: the header with the records alongside it.
+const isRecordsFileDocument = (value: unknown): value is RecordsFileHeader & { records: unknown[] } =>
+    isRecordsFileHeader(value) && 'records' in value && Array.isArray(value.records);
+
+const isPlainObject = (value: unknown): value is Record =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Reads our JSON and NDJSON exports, as well as plain JSON arrays of objects and NDJSON from other tools.
+export const parseRecordsFile = (text: string): ParsedRecordsFile => {
+    const trimmed = text.trim(); // Also drops a byte order mark
+    if (trimmed === '') {
+        throw new Error('The file is empty.');
+    }
+
+    let whole: unknown;
+    try {
+        whole = JSON.parse(trimmed);
+    } catch {
+        whole = undefined; // Not a single JSON document, so it should be NDJSON.
+    }
+
+    if (whole !== undefined) {
+        if (Array.isArray(whole)) {
+            if (!whole.every(isPlainObject)) throw new Error('Every item in the JSON array must be an object.');
+            return { layout: 'json', header: null, records: whole };
+        }
+        if (isRecordsFileDocument(whole)) {
+            const { records, ...header } = whole;
+            if (!records.every(isPlainObject)) throw new Error('Every item in "records" must be an object.');
+            return { layout: 'json', header, records };
+        }
+        if (isPlainObject(whole)) {
+            // A one-line NDJSON file parses as a single object.
+            return { layout: 'ndjson', header: isRecordsFileHeader(whole) ? whole : null, records: isRecordsFileHeader(whole) ? [] : [whole] };
+        }
+        throw new Error('Expected a JSON array of records or an exported records file.');
+    }
+
+    const lines = trimmed.split(/\r?\n/);
+    let header: RecordsFileHeader | null = null;
+    const records: Record[] = [];
+    lines.forEach((line, index) => {
+        if (line.trim() === '') return;
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            throw new Error(`Line ${index + 1} is not valid JSON.`);
+        }
+        if (index === 0 && isRecordsFileHeader(value)) {
+            header = value;
+        } else if (isPlainObject(value)) {
+            records.push(value);
+        } else {
+            throw new Error(`Line ${index + 1} is not a JSON object.`);
+        }
+    });
+    return { layout: 'ndjson', header, records };
+};
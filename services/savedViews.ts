@@ -0,0 +1,140 @@
+import type { ColumnDefinition, ColumnLayout, DatabaseSchema, RecordGrouping, SavedView, ViewSettings } from '../types';
+import { DEFAULT_GROUPING } from './grouping';
+
+// Where views are kept for backends that can't store them, such as the local workspace.
+const SAVED_VIEWS_STORAGE_KEY = 'emerald-savedViews';
+// Each table's column layout outside of saved views, kept in this browser.
+const COLUMN_LAYOUTS_STORAGE_KEY = 'emerald-columnLayouts';
+
+export const MIN_COLUMN_WIDTH = 60;
+// Pinned columns need a known width to stack against; the ones never resized get this one.
+export const DEFAULT_PINNED_COLUMN_WIDTH = 180;
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+    hiddenColumnIds: [],
+    columnOrder: [],
+    columnWidths: {},
+    pinnedColumnIds: [],
+};
+
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+    activeTab: 'table',
+    filters: [],
+    sort: undefined,
+    ...DEFAULT_COLUMN_LAYOUT,
+    grouping: DEFAULT_GROUPING,
+};
+
+export const getColumnLayout = (settings: ColumnLayout): ColumnLayout => ({
+    hiddenColumnIds: settings.hiddenColumnIds,
+    columnOrder: settings.columnOrder,
+    columnWidths: settings.columnWidths,
+    pinnedColumnIds: settings.pinnedColumnIds,
+});
+
+export const getViewSettings = (view: SavedView): ViewSettings => ({
+    activeTab: view.activeTab,
+    filters: view.filters,
+    sort: view.sort,
+    ...getColumnLayout(view),
+    grouping: view.grouping,
+});
+
+const isSameIdSet = (a: string[], b: string[]) => JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+
+// Stored settings may come back with their keys reordered, e.g. from a jsonb column.
+const isSameEntries = <T,>(a: { [key: string]: T }, b: { [key: string]: T }) =>
+    Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(key => a[key] === b[key]);
+
+// Compares JSON-like values by structure, so nested objects such as filters match whatever order their keys are
+// stored in. Properties left undefined count as missing, as they are once stored.
+const isSameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isSameValue(item, b[i]));
+    }
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+    const entriesA = Object.entries(a).filter(([, value]) => value !== undefined);
+    const entriesB = new Map(Object.entries(b).filter(([, value]) => value !== undefined));
+    return entriesA.length === entriesB.size && entriesA.every(([key, value]) => entriesB.has(key) && isSameValue(value, entriesB.get(key)));
+};
+
+const isSameGrouping = (a: RecordGrouping, b: RecordGrouping) =>
+    isSameValue(a.groupBy, b.groupBy) && a.showTotals === b.showTotals && isSameEntries(a.aggregates, b.aggregates);
+
+// Whether the current settings still match a view. Hidden and pinned columns are compared regardless of the order they were picked in.
+export const isSameViewSettings = (a: ViewSettings, b: ViewSettings): boolean =>
+    a.activeTab === b.activeTab
+    && isSameValue(a.filters, b.filters)
+    && isSameValue(a.sort ?? null, b.sort ?? null)
+    && isSameIdSet(a.hiddenColumnIds, b.hiddenColumnIds)
+    && JSON.stringify(a.columnOrder) === JSON.stringify(b.columnOrder)
+    && isSameEntries(a.columnWidths, b.columnWidths)
+    && isSameIdSet(a.pinnedColumnIds, b.pinnedColumnIds)
+    && isSameGrouping(a.grouping, b.grouping);
+
+// The schema's columns in the layout's order. Columns added since the layout was saved keep their schema position.
+export const orderColumns = (schema: DatabaseSchema, columnOrder: string[]): ColumnDefinition[] => {
+    const position = (columnId: string) => {
+        const index = columnOrder.indexOf(columnId);
+        return index === -1 ? columnOrder.length : index;
+    };
+    return schema
+        .map((column, schemaIndex) => ({ column, schemaIndex }))
+        .sort((a, b) => position(a.column.id) - position(b.column.id) || a.schemaIndex - b.schemaIndex)
+        .map(({ column }) => column);
+};
+
+// Every column as the table lays them out: pinned columns first, each group in the layout's order.
+export const arrangeColumns = (schema: DatabaseSchema, layout: ColumnLayout): ColumnDefinition[] => {
+    const ordered = orderColumns(schema, layout.columnOrder);
+    const isPinned = (column: ColumnDefinition) => layout.pinnedColumnIds.includes(column.id);
+    return [...ordered.filter(isPinned), ...ordered.filter(column => !isPinned(column))];
+};
+
+export const getVisibleColumns = (schema: DatabaseSchema, layout: ColumnLayout): ColumnDefinition[] =>
+    arrangeColumns(schema, layout).filter(column => !layout.hiddenColumnIds.includes(column.id));
+
+const readStoredViews = (): SavedView[] => {
+    try {
+        return JSON.parse(localStorage.getItem(SAVED_VIEWS_STORAGE_KEY) || '[]');
+    } catch (err) {
+        console.error("Failed to read saved views:", err);
+        return [];
+    }
+};
+
+const writeStoredViews = (views: SavedView[]) => {
+    localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(views));
+};
+
+// Views saved before a setting existed get its default.
+export const getStoredViews = (tableName: string): SavedView[] =>
+    readStoredViews().filter(view => view.tableName === tableName).map(view => ({ ...DEFAULT_VIEW_SETTINGS, ...view }));
+
+export const storeView = (view: SavedView): SavedView => {
+    const views = readStoredViews();
+    const index = views.findIndex(existing => existing.id === view.id);
+    writeStoredViews(index === -1 ? [...views, view] : views.map((existing, i) => i === index ? view : existing));
+    return view;
+};
+
+export const removeStoredView = (viewId: string) => {
+    writeStoredViews(readStoredViews().filter(view => view.id !== viewId));
+};
+
+const readStoredColumnLayouts = (): { [tableName: string]: ColumnLayout } => {
+    try {
+        return JSON.parse(localStorage.getItem(COLUMN_LAYOUTS_STORAGE_KEY) || '{}');
+    } catch (err) {
+        console.error("Failed to read column layouts:", err);
+        return {};
+    }
+};
+
+export const getStoredColumnLayout = (tableName: string): ColumnLayout =>
+    ({ ...DEFAULT_COLUMN_LAYOUT, ...readStoredColumnLayouts()[tableName] });
+
+export const storeColumnLayout = (tableName: string, layout: ColumnLayout) => {
+    localStorage.setItem(COLUMN_LAYOUTS_STORAGE_KEY, JSON.stringify({ ...readStoredColumnLayouts(), [tableName]: layout }));
+};
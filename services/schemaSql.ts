@@ -0,0 +1,193 @@
+import type { ColumnDefinition, DatabaseSchema, SchemaChange } from '../types';
+
+// A column as edited in the schema editor. `originalId` links it to the live column it came from.
+export interface SchemaDraftColumn extends ColumnDefinition {
+    originalId?: string;
+    dropped?: boolean;
+}
+
+export interface SchemaChangeWarning {
+    level: 'warning' | 'danger';
+    message: string;
+}
+
+// A column that a view configuration relies on, e.g. the Kanban status column.
+export interface ColumnDependency {
+    columnId: string;
+    usedBy: string;
+}
+
+const TEXT_TYPES: ColumnDefinition['type'][] = ['string', 'select'];
+
+export const COLUMN_ID_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+export const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export const mapAppTypeToPostgresType = (type: ColumnDefinition['type']): string => {
+    switch (type) {
+        case 'number': return 'numeric';
+        case 'boolean': return 'boolean';
+        case 'date': return 'date';
+        case 'select':
+        case 'string':
+        default:
+            return 'text';
+    }
+};
+
+// The default display name of a column, e.g. "Due Date" for `due_date`.
+export const prettifyColumnName = (columnId: string) =>
+    columnId.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+const normalizePostgresType = (postgresType: string) => postgresType.toLowerCase().replace(/\(.*\)/, '').trim();
+
+const INTEGER_DATA_TYPES = ['smallint', 'integer', 'bigint', 'int', 'int2', 'int4', 'int8', 'smallserial', 'serial', 'bigserial'];
+const TEXT_DATA_TYPES = ['text', 'character varying', 'varchar', 'character', 'char', 'bpchar', 'citext', 'name'];
+
+export const isIntegerDataType = (postgresType: string) => INTEGER_DATA_TYPES.includes(normalizePostgresType(postgresType));
+
+// Only text can be matched with LIKE. Other types the app shows as text, such as uuid, enums or json, can only be
+// compared whole.
+export const isTextDataType = (postgresType: string) => TEXT_DATA_TYPES.includes(normalizePostgresType(postgresType));
+
+// Maps a Postgres type, as introspected or as written in DDL (e.g. `varchar(80)`, `int4`, `timestamptz`), to an app type.
+export const mapPostgresTypeToAppType = (postgresType: string): ColumnDefinition['type'] => {
+    const type = normalizePostgresType(postgresType);
+    if (INTEGER_DATA_TYPES.includes(type)) return 'number';
+    switch(type) {
+        case 'numeric':
+        case 'decimal':
+        case 'real':
+        case 'float4':
+        case 'float8':
+        case 'double precision':
+            return 'number';
+        case 'boolean':
+        case 'bool':
+            return 'boolean';
+        case 'timestamp with time zone':
+        case 'timestamp without time zone':
+        case 'timestamp':
+        case 'timestamptz':
+        case 'date':
+            return 'date';
+        default:
+            return 'string';
+    }
+};
+
+// Defaults the database computes at insert time, such as timestamps and sequences.
+export const GENERATED_DEFAULT_PATTERN = /^(now\(\)|CURRENT_TIMESTAMP|CURRENT_DATE|nextval\(|gen_random_uuid\(\)|uuid_generate_v4\(\))/i;
+
+// Extracts plain literal defaults such as `'todo'::text`, `0` or `false`; expressions are left to the database.
+export const parseLiteralDefault = (columnDefault: string | null): any => {
+    if (columnDefault === null) return undefined;
+    const quoted = columnDefault.match(/^'((?:[^']|'')*)'(?:::[\w\s."]+)?$/);
+    if (quoted) return quoted[1].replace(/''/g, "'");
+    if (/^-?\d+(\.\d+)?$/.test(columnDefault)) return Number(columnDefault);
+    if (columnDefault === 'true' || columnDefault === 'false') return columnDefault === 'true';
+    return undefined;
+};
+
+// Postgres stores strings and selects identically, so switching between them is a metadata-only change.
+const isStorageChange = (fromType: ColumnDefinition['type'], toType: ColumnDefinition['type']) =>
+    !(TEXT_TYPES.includes(fromType) && TEXT_TYPES.includes(toType));
+
+// The USING expression that converts existing values, or null when Postgres has no sensible conversion.
+const getConversionExpression = (column: string, fromType: ColumnDefinition['type'], toType: ColumnDefinition['type']): string | null => {
+    const col = quoteIdentifier(column);
+    if (TEXT_TYPES.includes(toType)) return `${col}::text`;
+    if (TEXT_TYPES.includes(fromType)) return `NULLIF(trim(${col}), '')::${mapAppTypeToPostgresType(toType)}`;
+    if (fromType === 'number' && toType === 'boolean') return `${col} <> 0`;
+    if (fromType === 'boolean' && toType === 'number') return `${col}::int::numeric`;
+    return null;
+};
+
+export const diffSchema = (original: DatabaseSchema, draft: SchemaDraftColumn[]): SchemaChange[] => {
+    const drops: SchemaChange[] = [];
+    const renames: SchemaChange[] = [];
+    const retypes: SchemaChange[] = [];
+    const adds: SchemaChange[] = [];
+
+    for (const col of draft) {
+        const source = col.originalId ? original.find(c => c.id === col.originalId) : undefined;
+        if (!source) {
+            if (!col.dropped) adds.push({ kind: 'addColumn', column: col });
+            continue;
+        }
+        if (col.dropped) {
+            drops.push({ kind: 'dropColumn', columnId: source.id });
+            continue;
+        }
+        if (col.id !== source.id) {
+            renames.push({ kind: 'renameColumn', columnId: source.id, newColumnId: col.id });
+        }
+        if (col.type !== source.type) {
+            retypes.push({ kind: 'changeColumnType', columnId: col.id, fromType: source.type, toType: col.type });
+        }
+    }
+
+    // Drops first so a freed name can be reused; type changes refer to columns by their new names.
+    return [...drops, ...renames, ...retypes, ...adds];
+};
+
+export const generateAlterTableSql = (tableName: string, changes: SchemaChange[]): string => {
+    const table = `public.${quoteIdentifier(tableName)}`;
+    const statements = changes.flatMap(change => {
+        switch (change.kind) {
+            case 'addColumn':
+                return [`ALTER TABLE ${table} ADD COLUMN ${quoteIdentifier(change.column.id)} ${mapAppTypeToPostgresType(change.column.type)};`];
+            case 'renameColumn':
+                return [`ALTER TABLE ${table} RENAME COLUMN ${quoteIdentifier(change.columnId)} TO ${quoteIdentifier(change.newColumnId)};`];
+            case 'changeColumnType': {
+                if (!isStorageChange(change.fromType, change.toType)) return [];
+                const using = getConversionExpression(change.columnId, change.fromType, change.toType) ?? 'NULL';
+                return [`ALTER TABLE ${table} ALTER COLUMN ${quoteIdentifier(change.columnId)} TYPE ${mapAppTypeToPostgresType(change.toType)} USING ${using};`];
+            }
+            case 'dropColumn':
+                return [`ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(change.columnId)};`];
+        }
+    });
+
+    if (statements.length === 0) return '';
+    // Ask PostgREST to pick up the new columns straight away.
+    return [...statements, `NOTIFY pgrst, 'reload schema';`].join('\n');
+};
+
+export const getSchemaChangeWarnings = (changes: SchemaChange[], dependencies: ColumnDependency[]): SchemaChangeWarning[] => {
+    const warnings: SchemaChangeWarning[] = [];
+
+    const warnAboutDependents = (columnId: string, action: string) => {
+        for (const dependency of dependencies.filter(d => d.columnId === columnId)) {
+            warnings.push({ level: 'warning', message: `"${columnId}" is used by the ${dependency.usedBy}; ${action} it will reset that configuration.` });
+        }
+    };
+
+    for (const change of changes) {
+        switch (change.kind) {
+            case 'dropColumn':
+                warnings.push({ level: 'danger', message: `Dropping "${change.columnId}" permanently deletes all of its data.` });
+                warnAboutDependents(change.columnId, 'dropping');
+                break;
+            case 'renameColumn':
+                warnAboutDependents(change.columnId, 'renaming');
+                break;
+            case 'changeColumnType': {
+                if (!isStorageChange(change.fromType, change.toType)) break;
+                const conversion = getConversionExpression(change.columnId, change.fromType, change.toType);
+                if (conversion === null) {
+                    warnings.push({ level: 'danger', message: `Postgres can't convert "${change.columnId}" from ${change.fromType} to ${change.toType}; every existing value will be cleared.` });
+                } else if (TEXT_TYPES.includes(change.fromType) && !TEXT_TYPES.includes(change.toType)) {
+                    warnings.push({ level: 'warning', message: `Changing "${change.columnId}" to ${change.toType} fails if any existing value isn't a valid ${change.toType}.` });
+                } else if (change.fromType === 'number' && change.toType === 'boolean') {
+                    warnings.push({ level: 'warning', message: `Changing "${change.columnId}" to boolean keeps only whether each number was non-zero.` });
+                }
+                warnAboutDependents(change.columnId, 'retyping');
+                break;
+            }
+            case 'addColumn':
+                break;
+        }
+    }
+    return warnings;
+};
@@ -0,0 +1,95 @@
+// SQL for the helper functions the app calls over RPC. Shared by the one-time setup screen and
+// the AI schema generator, which includes it in every script it writes.
+export const HELPER_FUNCTIONS_SQL = `-- Helper 1: Function to execute raw SQL
+CREATE OR REPLACE FUNCTION public.execute_sql(sql_query text)
+RETURNS void LANGUAGE plpgsql AS $$
+BEGIN
+  EXECUTE sql_query;
+END;
+$$;
+
+-- Helper 2: Function to list all user-created tables
+CREATE OR REPLACE FUNCTION public.list_all_tables()
+RETURNS TABLE(schema text, name text)
+LANGUAGE sql AS $$
+  SELECT table_schema, table_name
+  FROM information_schema.tables
+  WHERE table_schema NOT IN ('pg_catalog', 'information_schema', 'storage', 'graphql', 'graphql_public', 'realtime') AND table_type = 'BASE TABLE';
+$$;
+
+-- Helper 3: Function to get the schema of a specific table, including keys, defaults, enum values and relations
+DROP FUNCTION IF EXISTS public.get_table_schema(text);
+CREATE OR REPLACE FUNCTION public.get_table_schema(table_name_arg text)
+RETURNS TABLE(
+  column_name text,
+  data_type text,
+  is_nullable boolean,
+  column_default text,
+  is_primary_key boolean,
+  is_read_only boolean,
+  is_identity boolean,
+  enum_values text[],
+  foreign_table text,
+  foreign_column text
+)
+LANGUAGE sql AS $$
+  SELECT
+    c.column_name::text,
+    c.data_type::text,
+    c.is_nullable = 'YES',
+    c.column_default::text,
+    EXISTS (
+      SELECT 1
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_name = tc.constraint_name
+       AND kcu.table_schema = tc.table_schema
+       AND kcu.table_name = tc.table_name
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND tc.table_schema = c.table_schema
+        AND tc.table_name = c.table_name
+        AND kcu.column_name = c.column_name
+    ),
+    c.identity_generation = 'ALWAYS' OR c.is_generated = 'ALWAYS' OR c.is_updatable = 'NO',
+    c.is_identity = 'YES',
+    CASE WHEN c.data_type = 'USER-DEFINED' THEN (
+      SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      WHERE t.typname = c.udt_name AND n.nspname = c.udt_schema
+    ) END,
+    fk.foreign_table,
+    fk.foreign_column
+  FROM information_schema.columns c
+  -- Single-column foreign keys, read from pg_catalog because information_schema hides them from non-owners
+  LEFT JOIN LATERAL (
+    SELECT ft.relname::text AS foreign_table, fa.attname::text AS foreign_column
+    FROM pg_constraint con
+    JOIN pg_class t ON t.oid = con.conrelid
+    JOIN pg_namespace tn ON tn.oid = t.relnamespace
+    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[1]
+    JOIN pg_class ft ON ft.oid = con.confrelid
+    JOIN pg_attribute fa ON fa.attrelid = con.confrelid AND fa.attnum = con.confkey[1]
+    WHERE con.contype = 'f' AND array_length(con.conkey, 1) = 1
+      AND tn.nspname = c.table_schema AND t.relname = c.table_name AND a.attname = c.column_name
+    LIMIT 1
+  ) fk ON true
+  WHERE c.table_schema = 'public' AND c.table_name = table_name_arg
+  ORDER BY c.ordinal_position;
+$$;
+
+-- Helper 4: Function to list the foreign keys in other tables that point at a table
+CREATE OR REPLACE FUNCTION public.get_table_references(table_name_arg text)
+RETURNS TABLE(table_name text, column_name text, foreign_column text)
+LANGUAGE sql AS $$
+  SELECT t.relname::text, a.attname::text, fa.attname::text
+  FROM pg_constraint con
+  JOIN pg_class t ON t.oid = con.conrelid
+  JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[1]
+  JOIN pg_class ft ON ft.oid = con.confrelid
+  JOIN pg_namespace fn ON fn.oid = ft.relnamespace
+  JOIN pg_attribute fa ON fa.attrelid = con.confrelid AND fa.attnum = con.confkey[1]
+  WHERE con.contype = 'f' AND array_length(con.conkey, 1) = 1
+    AND fn.nspname = 'public' AND ft.relname = table_name_arg;
+$$;`;
@@ -8,6 +8,8 @@ export const setSupabaseCredentials = (url: string, key: string) => {
     supabaseInstance = createClient(url, key);
 };
 
+export const getSupabaseUrl = (): string | null => localStorage.getItem('emerald-supabaseUrl');
+
 export const getSupabaseClient = (): SupabaseClient => {
     if (supabaseInstance) {
         return supabaseInstance;
@@ -0,0 +1,782 @@
+import { getSupabaseClient } from './supabaseClient';
+import { getDefaultSort, parseRecordKey, getRecordKey, getTitleColumn } from './recordKeys';
+import { AUDIT_LOG_TABLE, buildEnableAuditSql, buildDisableAuditSql } from './auditLog';
+import { mapPostgresTypeToAppType, GENERATED_DEFAULT_PATTERN, parseLiteralDefault, prettifyColumnName } from './schemaSql';
+import { runBulkWrite } from './bulkWrite';
+import { DEFAULT_VIEW_SETTINGS, getViewSettings } from './savedViews';
+import { isFilterGroup, isDateRangeFilter, isTextColumn, getDateRange, getBetweenBounds, getFilterValues, pruneFilterNodes } from './filters';
+import { getValueError } from './columnValues';
+import { DEFAULT_PAGE_SIZE, MAX_RELATION_OPTIONS, toRelationOption } from './dataSource';
+import type { DataSource } from './dataSource';
+import type { Record, RecordKey, DatabaseSchema, ColumnDefinition, Filter, FilterNode, RecordQuery, RecordPage, RecordChangeEvent, RelationOption, TableReference, LinkedRecordGroup, BulkResult, BulkProgressHandler, RecordHistoryEntry, SavedView, ViewSettings } from '../types';
+import type { PostgrestError } from '@supabase/supabase-js';
+
+const EXCLUDED_SCHEMAS = ['pg_catalog', 'information_schema', 'storage', 'graphql', 'graphql_public', 'realtime'];
+
+// Tables the app creates for its own bookkeeping are hidden from the table picker.
+const INTERNAL_TABLE_PREFIX = 'emerald_';
+const COLUMN_METADATA_TABLE = 'emerald_column_metadata';
+
+const COLUMN_METADATA_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS public.${COLUMN_METADATA_TABLE} (
+  table_name text NOT NULL,
+  column_id text NOT NULL,
+  display_name text,
+  column_type text,
+  options jsonb,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (table_name, column_id)
+);
+ALTER TABLE public.${COLUMN_METADATA_TABLE} ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable access for anon users" ON public.${COLUMN_METADATA_TABLE};
+CREATE POLICY "Enable access for anon users" ON public.${COLUMN_METADATA_TABLE} FOR ALL USING (true) WITH CHECK (true);
+NOTIFY pgrst, 'reload schema';
+`;
+
+const SAVED_VIEWS_TABLE = 'emerald_saved_views';
+
+const SAVED_VIEWS_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS public.${SAVED_VIEWS_TABLE} (
+  id uuid PRIMARY KEY,
+  table_name text NOT NULL,
+  name text NOT NULL,
+  settings jsonb NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS ${SAVED_VIEWS_TABLE}_table_idx ON public.${SAVED_VIEWS_TABLE} (table_name);
+ALTER TABLE public.${SAVED_VIEWS_TABLE} ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable access for anon users" ON public.${SAVED_VIEWS_TABLE};
+CREATE POLICY "Enable access for anon users" ON public.${SAVED_VIEWS_TABLE} FOR ALL USING (true) WITH CHECK (true);
+NOTIFY pgrst, 'reload schema';
+`;
+
+// Postgres "undefined table" and PostgREST "table not in schema cache" errors.
+const MISSING_TABLE_ERROR_CODES = ['42P01', 'PGRST205'];
+// PostgREST "function not found", for projects set up before a helper function was added.
+const MISSING_FUNCTION_ERROR_CODE = 'PGRST202';
+
+const SCHEMA_RELOAD_RETRIES = 5;
+const SCHEMA_RELOAD_DELAY_MS = 1000;
+
+interface ColumnMetadataRow {
+    table_name: string;
+    column_id: string;
+    display_name: string | null;
+    column_type: ColumnDefinition['type'] | null;
+    options: string[] | null;
+}
+
+interface SavedViewRow {
+    id: string;
+    table_name: string;
+    name: string;
+    settings: ViewSettings;
+    is_default: boolean;
+}
+
+const listTables = async (): Promise<string[]> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('list_all_tables');
+
+    if (error) {
+        console.error("Supabase listTables error:", error);
+        throw error;
+    }
+    return data
+        .filter((t: { schema: string }) => !EXCLUDED_SCHEMAS.includes(t.schema))
+        .map((t: { name: string }) => t.name)
+        .filter((name: string) => !name.startsWith(INTERNAL_TABLE_PREFIX));
+};
+
+
+const getTableSchema = async (tableName: string): Promise<DatabaseSchema> => {
+    const supabase = getSupabaseClient();
+    const [{ data, error }, metadata] = await Promise.all([
+        supabase.rpc('get_table_schema', { table_name_arg: tableName }),
+        getColumnMetadata(tableName),
+    ]);
+
+    if (error) {
+        console.error("Supabase getTableSchema error:", error);
+        throw error;
+    }
+    
+    // Map the RPC result to our ColumnDefinition type
+    const introspected = data.map(mapIntrospectedColumn);
+    const schema = mergeColumnMetadata(introspected, metadata);
+    relatedSchemaCache.set(tableName, Promise.resolve(schema));
+    return schema;
+};
+
+const mapIntrospectedColumn = (col: any): ColumnDefinition => {
+    const columnDefault: string | null = col.column_default ?? null;
+    // Projects still on the original helper function only report names and types, and the app
+    // then assumes the `id`/`created_at` layout it generates itself.
+    const isLegacy = col.is_nullable === undefined;
+    const isPrimaryKey: boolean = isLegacy ? col.column_name === 'id' : !!col.is_primary_key;
+    // Keys the database fills in and insert timestamps are managed by Postgres rather than the user.
+    // Identity columns report no default, even `BY DEFAULT` ones such as the `id` Supabase creates.
+    const isManagedDefault = !!columnDefault && GENERATED_DEFAULT_PATTERN.test(columnDefault)
+        && (isPrimaryKey || /^(now\(\)|CURRENT_)/i.test(columnDefault));
+    const readOnly = isLegacy
+        ? ['id', 'created_at'].includes(col.column_name)
+        : !!col.is_read_only || !!col.is_identity || isManagedDefault;
+    const enumValues: string[] | null = col.enum_values ?? null;
+
+    const foreignTable: string | null = col.foreign_table ?? null;
+
+    const definition: ColumnDefinition = {
+        id: col.column_name,
+        name: prettifyColumnName(col.column_name),
+        type: enumValues ? 'select' : foreignTable ? 'relation' : mapPostgresTypeToAppType(col.data_type),
+        dataType: col.data_type,
+        required: !isLegacy && col.is_nullable === false && columnDefault === null && !readOnly,
+        isPrimaryKey,
+        readOnly,
+    };
+    if (enumValues) {
+        definition.options = enumValues;
+    }
+    if (foreignTable) {
+        definition.relation = { table: foreignTable, columnId: col.foreign_column };
+    }
+    const defaultValue = parseLiteralDefault(columnDefault);
+    if (defaultValue !== undefined) {
+        definition.defaultValue = defaultValue;
+    }
+    return definition;
+};
+
+// Layers stored display names, select options and presentation types over the introspected columns.
+const mergeColumnMetadata = (schema: DatabaseSchema, metadata: ColumnMetadataRow[]): DatabaseSchema => {
+    return schema.map(col => {
+        const meta = metadata.find(m => m.column_id === col.id);
+        if (!meta) return col;
+        // Postgres only knows a select column as text, so a stored type may only refine text columns.
+        // Enum columns are already selects and keep the options the database reports.
+        const type = col.type === 'string' && meta.column_type ? meta.column_type : col.type;
+        return {
+            ...col,
+            name: meta.display_name || col.name,
+            type,
+            ...(col.type === 'string' && type === 'select' ? { options: meta.options || [] } : {}),
+        };
+    });
+};
+
+const getColumnMetadata = async (tableName: string): Promise<ColumnMetadataRow[]> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+        .from(COLUMN_METADATA_TABLE)
+        .select('*')
+        .eq('table_name', tableName);
+
+    if (error) {
+        // Projects that never saved metadata don't have the table yet; that isn't an error.
+        if (MISSING_TABLE_ERROR_CODES.includes(error.code)) return [];
+        console.error(`Supabase getColumnMetadata for ${tableName} error:`, error);
+        return [];
+    }
+    return data;
+};
+
+// Runs a write against one of the app's own tables, creating the table first if the project doesn't have it yet.
+const writeCreatingTable = async (setupSql: string, write: () => PromiseLike<{ error: PostgrestError | null }>): Promise<PostgrestError | null> => {
+    let { error } = await write();
+    if (error && MISSING_TABLE_ERROR_CODES.includes(error.code)) {
+        await runRawSql(setupSql);
+        // PostgREST reloads its schema cache asynchronously, so the new table can take a moment to appear.
+        for (let attempt = 0; attempt < SCHEMA_RELOAD_RETRIES; attempt++) {
+            await new Promise(resolve => setTimeout(resolve, SCHEMA_RELOAD_DELAY_MS));
+            ({ error } = await write());
+            if (!error || !MISSING_TABLE_ERROR_CODES.includes(error.code)) break;
+        }
+    }
+    return error;
+};
+
+// Stores display names, types and select options for a table's columns, creating the metadata table on first use.
+// The given schema is treated as the complete column list for the table.
+const saveColumnMetadata = async (tableName: string, schema: DatabaseSchema): Promise<void> => {
+    const supabase = getSupabaseClient();
+    const rows: ColumnMetadataRow[] = schema.map(col => ({
+        table_name: tableName,
+        column_id: col.id,
+        display_name: col.name,
+        column_type: col.type,
+        options: col.type === 'select' ? col.options || [] : null,
+    }));
+
+    const error = await writeCreatingTable(COLUMN_METADATA_TABLE_SQL, () =>
+        supabase.from(COLUMN_METADATA_TABLE).upsert(rows, { onConflict: 'table_name,column_id' })
+    );
+    if (error) {
+        console.error(`Supabase saveColumnMetadata for ${tableName} error:`, error);
+        throw error;
+    }
+
+    // Forget columns that were dropped or renamed so a future column of the same name starts clean.
+    const columnList = schema.map(col => `"${col.id.replace(/"/g, '\\"')}"`).join(',');
+    const { error: cleanupError } = await supabase
+        .from(COLUMN_METADATA_TABLE)
+        .delete()
+        .eq('table_name', tableName)
+        .not('column_id', 'in', `(${columnList})`);
+    if (cleanupError) {
+        console.error(`Supabase saveColumnMetadata cleanup for ${tableName} error:`, cleanupError);
+    }
+};
+
+// Schemas of tables that relation columns point at; every lookup needs the target's key and title columns.
+const relatedSchemaCache = new Map<string, Promise<DatabaseSchema>>();
+
+const getRelatedTableSchema = (tableName: string): Promise<DatabaseSchema> => {
+    const cached = relatedSchemaCache.get(tableName);
+    if (cached) return cached;
+    const schema = getTableSchema(tableName);
+    relatedSchemaCache.set(tableName, schema);
+    schema.catch(() => relatedSchemaCache.delete(tableName));
+    return schema;
+};
+
+// Keeps `in.(...)` lookups well inside URL length limits.
+const RELATION_LABEL_CHUNK_SIZE = 100;
+
+// Records a relation column can point at, optionally narrowed by a search term.
+const searchRelationOptions = async (relation: NonNullable<ColumnDefinition['relation']>, search = ''): Promise<RelationOption[]> => {
+    const supabase = getSupabaseClient();
+    const schema = await getRelatedTableSchema(relation.table);
+    const titleColumn = getTitleColumn(schema);
+
+    let request = supabase.from(relation.table).select('*');
+    const searchExpression = buildSearchExpression(schema, search);
+    if (searchExpression) {
+        request = request.or(searchExpression);
+    }
+    if (titleColumn) {
+        request = request.order(titleColumn, { ascending: true, nullsFirst: false });
+    }
+    const { data, error } = await request.limit(MAX_RELATION_OPTIONS);
+    if (error) {
+        console.error(`Supabase searchRelationOptions for ${relation.table} error:`, error);
+        throw error;
+    }
+    return data.map((record: Record) => toRelationOption(record, String(record[relation.columnId]), titleColumn));
+};
+
+// Resolves relation values to the titles of the records they point at. Values without a match are left out.
+const getRelationLabels = async (relation: NonNullable<ColumnDefinition['relation']>, values: string[]): Promise<{ [value: string]: string }> => {
+    const supabase = getSupabaseClient();
+    const uniqueValues = Array.from(new Set(values));
+    if (uniqueValues.length === 0) return {};
+    const schema = await getRelatedTableSchema(relation.table);
+    const titleColumn = getTitleColumn(schema);
+
+    const labels: { [value: string]: string } = {};
+    for (let i = 0; i < uniqueValues.length; i += RELATION_LABEL_CHUNK_SIZE) {
+        const { data, error } = await supabase
+            .from(relation.table)
+            .select('*')
+            .in(relation.columnId, uniqueValues.slice(i, i + RELATION_LABEL_CHUNK_SIZE));
+        if (error) {
+            console.error(`Supabase getRelationLabels for ${relation.table} error:`, error);
+            throw error;
+        }
+        for (const record of data) {
+            const option = toRelationOption(record, String(record[relation.columnId]), titleColumn);
+            labels[option.value] = option.label;
+        }
+    }
+    return labels;
+};
+
+// Foreign keys in other tables that point at this one.
+const getTableReferences = async (tableName: string): Promise<TableReference[]> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('get_table_references', { table_name_arg: tableName });
+    if (error) {
+        if (error.code === MISSING_FUNCTION_ERROR_CODE) return [];
+        console.error(`Supabase getTableReferences for ${tableName} error:`, error);
+        throw error;
+    }
+    return data
+        .filter((ref: { table_name: string }) => !ref.table_name.startsWith(INTERNAL_TABLE_PREFIX))
+        .map((ref: { table_name: string; column_name: string; foreign_column: string }) => ({
+            table: ref.table_name,
+            columnId: ref.column_name,
+            referencedColumnId: ref.foreign_column,
+        }));
+};
+
+// Records in other tables whose relation columns point at the given record, grouped by table and column.
+const getLinkedRecords = async (tableName: string, record: Partial<Record>): Promise<LinkedRecordGroup[]> => {
+    const supabase = getSupabaseClient();
+    const references = await getTableReferences(tableName);
+
+    const groups = await Promise.all(references.map(async (reference): Promise<LinkedRecordGroup | null> => {
+        const value = record[reference.referencedColumnId];
+        if (value === null || value === undefined) return null;
+        const schema = await getRelatedTableSchema(reference.table);
+        const { data, error } = await supabase
+            .from(reference.table)
+            .select('*')
+            .eq(reference.columnId, value)
+            .limit(MAX_RELATION_OPTIONS);
+        if (error) {
+            console.error(`Supabase getLinkedRecords for ${reference.table} error:`, error);
+            throw error;
+        }
+        const titleColumn = getTitleColumn(schema);
+        return { reference, records: data.map((linked: Record) => toRelationOption(linked, getRecordKey(linked, schema), titleColumn)) };
+    }));
+    return groups.filter((group): group is LinkedRecordGroup => group !== null && group.records.length > 0);
+};
+
+
+// Supabase caps un-ranged selects (1000 rows by default), so full fetches are read in chunks below that cap.
+const FETCH_ALL_CHUNK_SIZE = 1000;
+
+// Escapes LIKE wildcards so user input is matched literally.
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Values inside a PostgREST `or=(...)` expression must be quoted when they contain reserved characters.
+const quoteOrValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Translates one of our filters into a PostgREST logic-tree condition, e.g. `status.ilike."done"`. Conditions
+// pruneFilterNodes drops, such as a date that doesn't parse, never get here.
+const toPostgrestCondition = (filter: Filter, column: ColumnDefinition): string => {
+    const { columnId } = filter;
+    const isText = isTextColumn(column);
+    const condition = (operator: string, value: string) => `${columnId}.${operator}.${quoteOrValue(value)}`;
+    const all = (conditions: string[]) => conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    const value = String(filter.value ?? '');
+
+    switch (filter.operator) {
+        case 'IS_EMPTY':
+            return isText ? `or(${columnId}.is.null,${condition('eq', '')})` : `${columnId}.is.null`;
+        case 'IS_NOT_EMPTY':
+            return isText ? `and(${columnId}.not.is.null,${condition('neq', '')})` : `${columnId}.not.is.null`;
+        default:
+            break;
+    }
+
+    if (isDateRangeFilter(filter, column)) {
+        const range = getDateRange(filter)!;
+        if (filter.operator === 'NOT_EQUALS') {
+            return `or(${condition('lt', range.from!)},${condition('gte', range.before!)})`;
+        }
+        return all([
+            ...(range.from ? [condition('gte', range.from)] : []),
+            ...(range.before ? [condition('lt', range.before)] : []),
+        ]);
+    }
+
+    switch (filter.operator) {
+        case 'EQUALS':
+            return isText ? condition('ilike', escapeLikePattern(value)) : condition('eq', value);
+        case 'NOT_EQUALS':
+            return isText ? condition('not.ilike', escapeLikePattern(value)) : condition('neq', value);
+        case 'CONTAINS':
+            return condition('ilike', `*${escapeLikePattern(value)}*`);
+        case 'STARTS_WITH':
+            return condition('ilike', `${escapeLikePattern(value)}*`);
+        case 'GREATER_THAN':
+            return condition('gt', value);
+        case 'LESS_THAN':
+            return condition('lt', value);
+        case 'BETWEEN': {
+            const [from, to] = getBetweenBounds(filter);
+            return all([condition('gte', from), condition('lte', to)]);
+        }
+        case 'IN': {
+            const values = getFilterValues(filter);
+            // Text matches ignore case, as EQUALS does.
+            return isText
+                ? `or(${values.map(v => condition('ilike', escapeLikePattern(v))).join(',')})`
+                : `${columnId}.in.(${values.map(quoteOrValue).join(',')})`;
+        }
+        default:
+            // The remaining operators only apply to date columns, which are handled above.
+            return condition('eq', value);
+    }
+};
+
+const toPostgrestExpression = (node: FilterNode, schema: DatabaseSchema): string => {
+    if (!isFilterGroup(node)) return toPostgrestCondition(node, schema.find(c => c.id === node.columnId)!);
+    return `${node.combinator.toLowerCase()}(${node.filters.map(child => toPostgrestExpression(child, schema)).join(',')})`;
+};
+
+// Builds an `or` expression that matches the search term against every searchable column. Text columns match
+// part of their value; numbers, IDs and enums only match a term that is one of their values.
+const buildSearchExpression = (schema: DatabaseSchema, search: string): string | null => {
+    const term = search.trim();
+    if (!term) return null;
+
+    const conditions = schema.flatMap(col => {
+        if (isTextColumn(col)) {
+            return [`${col.id}.ilike.${quoteOrValue(`*${escapeLikePattern(term)}*`)}`];
+        }
+        const isComparable = col.type === 'number' || col.type === 'select' || col.dataType?.toLowerCase() === 'uuid';
+        if (isComparable && !getValueError(term, col)) {
+            return [`${col.id}.eq.${quoteOrValue(term)}`];
+        }
+        return [];
+    });
+    return conditions.length > 0 ? conditions.join(',') : null;
+};
+
+const getRecords = async (tableName: string, schema: DatabaseSchema, query: RecordQuery = {}): Promise<RecordPage> => {
+    const supabase = getSupabaseClient();
+
+    const buildRequest = (from: number, to: number) => {
+        let request = supabase
+            .from(tableName)
+            .select('*', { count: 'exact' });
+
+        // Filters and search are combined into a single logic tree, which lets groups nest to any depth.
+        const conditions = pruneFilterNodes(query.filters || [], schema).map(node => toPostgrestExpression(node, schema));
+        const searchExpression = buildSearchExpression(schema, query.search || '');
+        if (searchExpression) {
+            conditions.push(`or(${searchExpression})`);
+        }
+        if (conditions.length > 0) {
+            request = request.or(conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`);
+        }
+
+        const sort = query.sort || getDefaultSort(schema);
+        if (sort) {
+            request = request.order(sort.columnId, { ascending: sort.direction === 'asc', nullsFirst: false });
+        }
+        // Postgres doesn't keep ties in any fixed order, so ranges over a non-unique sort could skip or repeat
+        // rows between pages and chunks. The key columns break ties.
+        for (const keyColumn of schema.filter(col => col.isPrimaryKey && col.id !== sort?.columnId)) {
+            request = request.order(keyColumn.id, { ascending: true });
+        }
+
+        return request.range(from, to);
+    };
+
+    if (query.page !== undefined) {
+        const pageSize = query.pageSize || DEFAULT_PAGE_SIZE;
+        const from = query.page * pageSize;
+        const { data, error, count } = await buildRequest(from, from + pageSize - 1);
+        if (error) {
+            console.error(`Supabase getRecords for ${tableName} error:`, error);
+            throw error;
+        }
+        return { records: data, total: count ?? data.length };
+    }
+
+    // No page requested: read every matching row, one chunk at a time.
+    const records: Record[] = [];
+    let total = 0;
+    do {
+        const { data, error, count } = await buildRequest(records.length, records.length + FETCH_ALL_CHUNK_SIZE - 1);
+        if (error) {
+            console.error(`Supabase getRecords for ${tableName} error:`, error);
+            throw error;
+        }
+        records.push(...data);
+        total = count ?? records.length;
+        if (data.length === 0) break;
+    } while (records.length < total);
+
+    return { records, total };
+};
+
+const createRecord = async (tableName: string, newRecord: Partial<Record>): Promise<Record> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+        .from(tableName)
+        .insert(newRecord)
+        .select()
+        .single();
+    if (error) {
+        console.error(`Supabase createRecord for ${tableName} error:`, error);
+        throw error;
+    }
+    return data;
+}
+
+// PostgREST matches NULL with `is`, not `eq`, which matters for tables keyed on every column.
+const matchRecordKey = <T extends { eq: (column: string, value: any) => T; is: (column: string, value: null) => T }>(
+    request: T, schema: DatabaseSchema, recordKey: RecordKey
+): T => {
+    return Object.entries(parseRecordKey(recordKey, schema)).reduce(
+        (req, [column, value]) => value === null ? req.is(column, null) : req.eq(column, value),
+        request
+    );
+};
+
+const getRecord = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<Record | null> => {
+    const supabase = getSupabaseClient();
+    const request = supabase.from(tableName).select();
+    const { data, error } = await matchRecordKey(request, schema, recordKey).maybeSingle();
+    if (error) {
+        console.error(`Supabase getRecord for ${tableName} error:`, error);
+        throw error;
+    }
+    return data;
+};
+
+const updateRecord = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey, updates: Partial<Record>): Promise<Record> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await matchRecordKey(supabase.from(tableName).update(updates), schema, recordKey)
+        .select()
+        .single();
+    if (error) {
+        console.error(`Supabase updateRecord for ${tableName} error:`, error);
+        throw error;
+    }
+    return data;
+};
+
+const deleteRecord = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<void> => {
+    const supabase = getSupabaseClient();
+    const { error } = await matchRecordKey(supabase.from(tableName).delete(), schema, recordKey);
+    if (error) {
+        console.error(`Supabase deleteRecord for ${tableName} error:`, error);
+        throw error;
+    }
+};
+
+// The single key column that lets a whole chunk be matched with one `in` filter, if the table has one.
+const getSingleKeyColumn = (schema: DatabaseSchema): string | null => {
+    const keyColumns = schema.filter(col => col.isPrimaryKey);
+    return keyColumns.length === 1 ? keyColumns[0].id : null;
+};
+
+// Inserts rows in batches. With `upsertOn`, rows whose values in those columns match an existing row update it
+// instead; the columns need a unique constraint.
+const bulkCreateRecords = async (
+    tableName: string, newRecords: Partial<Record>[], onProgress?: BulkProgressHandler, upsertOn?: string[]
+): Promise<BulkResult<Record>> => {
+    const supabase = getSupabaseClient();
+    const write = (rows: Partial<Record>[]) => upsertOn?.length
+        ? supabase.from(tableName).upsert(rows, { onConflict: upsertOn.join(',') }).select()
+        : supabase.from(tableName).insert(rows).select();
+    // A multi-row insert is a single statement, so a rejected chunk leaves nothing behind to duplicate on retry.
+    const writeChunk = async (chunk: Partial<Record>[]) => {
+        const { data, error } = await write(chunk);
+        if (error) throw error;
+        return data as Record[];
+    };
+    const writeOne = async (record: Partial<Record>) => {
+        const { data, error } = await write([record]).single();
+        if (error) throw error;
+        return data as Record;
+    };
+    return runBulkWrite(newRecords, writeChunk, writeOne, onProgress);
+};
+
+const bulkUpdateRecords = async (
+    tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], updates: Partial<Record>, onProgress?: BulkProgressHandler
+): Promise<BulkResult<Record>> => {
+    const supabase = getSupabaseClient();
+    const keyColumn = getSingleKeyColumn(schema);
+    const updateChunk = keyColumn === null ? null : async (chunk: RecordKey[]) => {
+        const { data, error } = await supabase.from(tableName).update(updates).in(keyColumn, chunk).select();
+        if (error) throw error;
+        // Rows that vanished in the meantime are reported individually by the row-by-row retry.
+        if (data.length !== chunk.length) throw new Error(`Only ${data.length} of ${chunk.length} records were updated.`);
+        return data as Record[];
+    };
+    return runBulkWrite(recordKeys, updateChunk, recordKey => updateRecord(tableName, schema, recordKey, updates), onProgress);
+};
+
+const bulkDeleteRecords = async (
+    tableName: string, schema: DatabaseSchema, recordKeys: RecordKey[], onProgress?: BulkProgressHandler
+): Promise<BulkResult<RecordKey>> => {
+    const supabase = getSupabaseClient();
+    const keyColumn = getSingleKeyColumn(schema);
+    const deleteChunk = keyColumn === null ? null : async (chunk: RecordKey[]) => {
+        const { error } = await supabase.from(tableName).delete().in(keyColumn, chunk);
+        if (error) throw error;
+        return chunk;
+    };
+    return runBulkWrite(recordKeys, deleteChunk, async recordKey => {
+        await deleteRecord(tableName, schema, recordKey);
+        return recordKey;
+    }, onProgress);
+};
+
+// Subscribes to row changes on a table through Supabase Realtime. Returns an unsubscribe function.
+// The table must be part of the `supabase_realtime` publication for events to be delivered.
+const subscribeToRecords = (tableName: string, onChange: (event: RecordChangeEvent) => void): (() => void) => {
+    const supabase = getSupabaseClient();
+    const channel = supabase
+        .channel(`emerald-records:${tableName}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: tableName }, payload => {
+            switch (payload.eventType) {
+                case 'INSERT':
+                    onChange({ type: 'INSERT', record: payload.new as Record });
+                    break;
+                case 'UPDATE':
+                    onChange({ type: 'UPDATE', record: payload.new as Record });
+                    break;
+                case 'DELETE':
+                    onChange({ type: 'DELETE', oldRecord: payload.old as Partial<Record> });
+                    break;
+            }
+        })
+        .subscribe((status, err) => {
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                console.error(`Supabase realtime subscription for ${tableName} failed:`, err || status);
+            }
+        });
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
+
+// How many changes of a record's history are shown.
+const MAX_HISTORY_ENTRIES = 100;
+
+interface AuditLogRow {
+    id: number;
+    operation: RecordHistoryEntry['operation'];
+    old_row: Record | null;
+    new_row: Record | null;
+    changed_by: string | null;
+    changed_at: string;
+}
+
+const getAuditedTables = async (): Promise<string[]> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.rpc('emerald_audited_tables');
+    if (error) {
+        // The function is installed along with the first audit trigger.
+        if (error.code === MISSING_FUNCTION_ERROR_CODE) return [];
+        console.error("Supabase getAuditedTables error:", error);
+        throw error;
+    }
+    return data || [];
+};
+
+const enableAuditLog = async (tableName: string): Promise<void> => {
+    await runRawSql(buildEnableAuditSql(tableName));
+};
+
+const disableAuditLog = async (tableName: string): Promise<void> => {
+    await runRawSql(buildDisableAuditSql(tableName));
+};
+
+// A record's changes, newest first. Log rows are matched on the record's key in either the old or new row.
+const getRecordHistory = async (tableName: string, schema: DatabaseSchema, recordKey: RecordKey): Promise<RecordHistoryEntry[]> => {
+    const supabase = getSupabaseClient();
+    const keyValues = Object.entries(parseRecordKey(recordKey, schema));
+    const matchRow = (rowColumn: string) =>
+        `and(${keyValues.map(([columnId, value]) => `${rowColumn}->>${columnId}.eq.${quoteOrValue(String(value))}`).join(',')})`;
+
+    const { data, error } = await supabase
+        .from(AUDIT_LOG_TABLE)
+        .select('*')
+        .eq('table_name', tableName)
+        .or(`${matchRow('new_row')},${matchRow('old_row')}`)
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MAX_HISTORY_ENTRIES);
+    if (error) {
+        console.error(`Supabase getRecordHistory for ${tableName} error:`, error);
+        throw error;
+    }
+    return (data as AuditLogRow[]).map(row => ({
+        id: row.id,
+        operation: row.operation,
+        oldRecord: row.old_row,
+        newRecord: row.new_row,
+        changedBy: row.changed_by,
+        changedAt: row.changed_at,
+    }));
+};
+
+const toSavedView = (row: SavedViewRow): SavedView => ({
+    ...DEFAULT_VIEW_SETTINGS,
+    ...row.settings,
+    id: row.id,
+    tableName: row.table_name,
+    name: row.name,
+    isDefault: row.is_default,
+});
+
+const getSavedViews = async (tableName: string): Promise<SavedView[]> => {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+        .from(SAVED_VIEWS_TABLE)
+        .select('*')
+        .eq('table_name', tableName);
+    if (error) {
+        // The table is created when the first view is saved.
+        if (MISSING_TABLE_ERROR_CODES.includes(error.code)) return [];
+        console.error(`Supabase getSavedViews for ${tableName} error:`, error);
+        throw error;
+    }
+    return (data as SavedViewRow[]).map(toSavedView);
+};
+
+const saveView = async (view: SavedView): Promise<SavedView> => {
+    const supabase = getSupabaseClient();
+    const row: SavedViewRow = {
+        id: view.id,
+        table_name: view.tableName,
+        name: view.name,
+        settings: getViewSettings(view),
+        is_default: view.isDefault,
+    };
+    const error = await writeCreatingTable(SAVED_VIEWS_TABLE_SQL, () =>
+        supabase.from(SAVED_VIEWS_TABLE).upsert({ ...row, updated_at: new Date().toISOString() })
+    );
+    if (error) {
+        console.error(`Supabase saveView for ${view.tableName} error:`, error);
+        throw error;
+    }
+    return view;
+};
+
+const deleteSavedView = async (view: SavedView): Promise<void> => {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.from(SAVED_VIEWS_TABLE).delete().eq('id', view.id);
+    if (error) {
+        console.error(`Supabase deleteSavedView for ${view.tableName} error:`, error);
+        throw error;
+    }
+};
+
+const runRawSql = async (sql: string): Promise<void> => {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc('execute_sql', { sql_query: sql });
+    if (error) {
+        console.error("Supabase runRawSql error:", error);
+        throw error;
+    }
+}
+
+export const supabaseDataSource: DataSource = {
+    kind: 'supabase',
+    listTables,
+    getTableSchema,
+    saveColumnMetadata,
+    getRecords,
+    getRecord,
+    createRecord,
+    updateRecord,
+    deleteRecord,
+    subscribeToRecords,
+    runRawSql,
+    bulkCreateRecords,
+    bulkUpdateRecords,
+    bulkDeleteRecords,
+    searchRelationOptions,
+    getRelationLabels,
+    getTableReferences,
+    getLinkedRecords,
+    getAuditedTables,
+    enableAuditLog,
+    disableAuditLog,
+    getRecordHistory,
+    getSavedViews,
+    saveView,
+    deleteSavedView,
+};
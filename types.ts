@@ -2,25 +2,187 @@
 export interface ColumnDefinition {
   id: string; // The actual column name in the database
   name: string; // A user-friendly name for the column
-  type: 'string' | 'number' | 'boolean' | 'date' | 'select';
+  type: 'string' | 'number' | 'boolean' | 'date' | 'select' | 'relation';
+  dataType?: string; // The column's Postgres type, e.g. 'uuid' or 'integer', where known
   options?: string[]; // For 'select' type
+  relation?: { table: string; columnId: string }; // For 'relation' type: the referenced table and column
+  required?: boolean; // NOT NULL with no default, so a value must be supplied
+  defaultValue?: any; // Literal column default, used to prefill new records
+  isPrimaryKey?: boolean;
+  readOnly?: boolean; // Generated or managed by the database; never written by the app
 }
 
 export type DatabaseSchema = ColumnDefinition[];
 
+// Relation Types
+export interface RelationOption {
+  value: string; // The referenced column's value, stored in the relation column
+  label: string; // The linked record's title
+}
+
+// A foreign key in another table that points at the current one.
+export interface TableReference {
+  table: string;
+  columnId: string;
+  referencedColumnId: string;
+}
+
+export interface LinkedRecordGroup {
+  reference: TableReference;
+  records: RelationOption[];
+}
+
+// Structural edits made in the schema editor, translated to ALTER TABLE statements before they run.
+export type SchemaChange =
+  | { kind: 'addColumn'; column: ColumnDefinition }
+  | { kind: 'renameColumn'; columnId: string; newColumnId: string }
+  | { kind: 'changeColumnType'; columnId: string; fromType: ColumnDefinition['type']; toType: ColumnDefinition['type'] }
+  | { kind: 'dropColumn'; columnId: string };
+
+// A row from any table. Rows are identified by their primary key columns, not a fixed `id`.
 export interface Record {
-  id: string; // Assumes a unique 'id' column on each table
-  created_at: string;
   [key: string]: any;
 }
 
+// A record's serialized primary key: the key value itself, or a JSON array of values for composite keys.
+export type RecordKey = string;
+
 // Search and Filter Types
-export type FilterOperator = 'EQUALS' | 'CONTAINS' | 'GREATER_THAN' | 'LESS_THAN' | 'NOT_EQUALS';
+export type FilterOperator =
+  | 'EQUALS' | 'NOT_EQUALS' | 'CONTAINS' | 'STARTS_WITH' | 'GREATER_THAN' | 'LESS_THAN' | 'BETWEEN' | 'IN'
+  | 'IS_EMPTY' | 'IS_NOT_EMPTY'
+  // Relative to the current day, for date columns
+  | 'TODAY' | 'IN_LAST_DAYS' | 'IN_NEXT_DAYS' | 'OVERDUE';
 
+// One condition. `value` is a [from, to] pair for BETWEEN, a list for IN, a number of days for IN_LAST_DAYS
+// and IN_NEXT_DAYS, and unused by IS_EMPTY, IS_NOT_EMPTY, TODAY and OVERDUE.
 export interface Filter {
   columnId: string;
   operator: FilterOperator;
-  value: any;
+  value?: any;
+}
+
+export interface FilterGroup {
+  combinator: 'AND' | 'OR';
+  filters: FilterNode[];
+}
+
+// Lists of filter nodes, as in queries and saved views, match records that satisfy every node.
+export type FilterNode = Filter | FilterGroup;
+
+// Server-side Query Types
+export interface SortSpec {
+  columnId: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface RecordQuery {
+  filters?: FilterNode[];
+  sort?: SortSpec;
+  search?: string;
+  page?: number; // Zero-based. When omitted, every matching row is fetched.
+  pageSize?: number;
+}
+
+export interface RecordPage {
+  records: Record[];
+  total: number;
+}
+
+// Realtime Types
+export type RecordChangeEvent =
+  | { type: 'INSERT'; record: Record }
+  | { type: 'UPDATE'; record: Record }
+  | { type: 'DELETE'; oldRecord: Partial<Record> };
+
+// Bulk Operation Types
+export interface BulkFailure {
+  index: number; // Position of the failed item in the list passed to the bulk call
+  message: string;
+}
+
+export interface BulkResult<T> {
+  succeeded: T[];
+  failures: BulkFailure[];
+}
+
+export type BulkProgressHandler = (completed: number, total: number) => void;
+
+// Audit Log Types
+// One row of the audit log: a record as it was before and after a change.
+export interface RecordHistoryEntry {
+  id: number;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  oldRecord: Record | null;
+  newRecord: Record | null;
+  changedBy: string | null;
+  changedAt: string;
+}
+
+// Offline Types
+// A change made while offline, waiting to be sent. `base` is the row as it was when the change was made,
+// so changes made on the server in the meantime can be detected. Creates get a temporary key to be shown under.
+export type OutboxMutation =
+  | { kind: 'create'; record: Partial<Record>; tempKey: RecordKey }
+  | { kind: 'update'; recordKey: RecordKey; updates: Partial<Record>; base: Record | null }
+  | { kind: 'delete'; recordKey: RecordKey; base: Record | null };
+
+export type OutboxEntry = OutboxMutation & {
+  id: number;
+  scope: string; // The backend the change was made against
+  tableName: string;
+  queuedAt: string;
+};
+
+// A queued change that wasn't applied because the server row had changed or the server rejected it.
+export interface SyncConflict {
+  entry: OutboxEntry;
+  message: string;
+}
+
+// Saved View Types
+export type ViewTab = 'table' | 'kanban' | 'calendar' | 'timeline' | 'gallery' | 'analytics';
+
+// Which columns the table view shows, in what order and how wide.
+export interface ColumnLayout {
+  hiddenColumnIds: string[];
+  columnOrder: string[]; // Column ids in display order; columns not listed follow in schema order
+  columnWidths: { [columnId: string]: number }; // In pixels; columns not listed size to their content
+  pinnedColumnIds: string[]; // Shown first and kept in view while scrolling sideways
+}
+
+// Per-column summaries shown in the table's footer rows.
+export type AggregateKind = 'sum' | 'average' | 'min' | 'max' | 'checked' | 'earliest' | 'latest';
+
+// How the table view groups and totals its records. Either one loads every matching record instead of a page.
+export interface RecordGrouping {
+  groupBy: string[]; // Up to two column ids, outermost first
+  showTotals: boolean; // A footer of aggregates over all matching records, also without grouping
+  aggregates: { [columnId: string]: AggregateKind | 'none' }; // Columns not listed use their type's default
+}
+
+// Everything a saved view restores.
+export interface ViewSettings extends ColumnLayout {
+  activeTab: ViewTab;
+  filters: FilterNode[];
+  sort?: SortSpec;
+  grouping: RecordGrouping;
+}
+
+export interface SavedView extends ViewSettings {
+  id: string;
+  tableName: string;
+  name: string;
+  isDefault: boolean; // Applied whenever the table is opened; at most one per table
+}
+
+// Gallery Types
+// Which columns a gallery card shows. Ids of columns that no longer exist are ignored.
+export interface GalleryConfig {
+  titleColumnId: string | null;
+  subtitleColumnId: string | null;
+  detailColumnIds: string[];
+  coverColumnId: string | null; // A column of image URLs shown across the top of the card
 }
 
 // Chart Types
@@ -35,14 +197,15 @@ export interface ChartData {
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  undoEntryId?: number; // Set on the confirmation of an action that went into the undo history
 }
 
 export interface ToolCallPayload {
   name: 'createRecord' | 'updateRecord' | 'deleteRecord' | 'searchRecords' | 'generateChart';
   args: {
-    record?: Partial<Omit<Record, 'id' | 'created_at'>>;
-    recordId?: string;
-    filters?: Filter[];
+    record?: Partial<Record>;
+    recordId?: RecordKey;
+    filters?: FilterNode[];
     confirmationMessage?: string;
     responseMessage?: string;
     chartData?: ChartData;
@@ -55,13 +218,21 @@ export interface ChartConfig {
   categoryColumnId: string;
 }
 
-export interface KanbanConfig {
+// The parts of a Kanban board the AI can suggest.
+export interface GeneratedKanbanConfig {
   statusColumnId: string;
   cardTitleColumnId: string;
   cardDetailColumnIds: string[];
   statusColumnOrder: string[];
 }
 
+// Set in the board settings and kept per table.
+export interface KanbanConfig extends GeneratedKanbanConfig {
+  swimlaneColumnId: string | null; // Splits the board into rows, e.g. by assignee or priority
+  rankColumnId: string | null; // A number column holding each card's position within its column
+  wipLimits: { [status: string]: number }; // How many cards a status should hold before it's flagged
+}
+
 export interface GeneratedSchema {
     tableName: string;
     schema: DatabaseSchema;